@@ -1,120 +1,609 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, 
-  AreaChart, Area 
+  Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
+  ComposedChart, Line
 } from 'recharts';
 import { 
   Clock, LogIn, LogOut, LayoutDashboard, History, Sparkles, User, 
-  Calendar, CheckCircle2, AlertCircle, ChevronRight, TrendingUp
+  CheckCircle2, AlertCircle, ChevronRight, TrendingUp, Settings, Coffee, Play, Wallet, Users, AlertTriangle, Bell, X, Palmtree, ShieldCheck
 } from 'lucide-react';
-import { PunchEntry, WorkDay, DashboardStats, AIInsight } from './types';
+import {
+  PunchEntry, PunchType, BreakCategory, DashboardStats, AppSettings, UserProfile, LeaveRequest, Timesheet, InsightReport,
+  AiSettings
+} from './types';
 import { StatCard } from './components/StatCard';
-import { getWorkInsights } from './services/geminiService';
+import { HistoryView } from './components/HistoryView';
+import { PunchEditorDialog } from './components/PunchEditorDialog';
+import { RevisionLogDialog } from './components/RevisionLogDialog';
+import { SettingsView } from './components/SettingsView';
+import { PunchControls, PunchTag } from './components/PunchControls';
+import { PayrollView } from './components/PayrollView';
+import { DataTransferPanel } from './components/DataTransferPanel';
+import { ProfileView } from './components/ProfileView';
+import { TeamView } from './components/TeamView';
+import { KioskMode } from './components/KioskMode';
+import { LeaveView } from './components/LeaveView';
+import { RangePicker } from './components/RangePicker';
+import { AnalyticsPanel } from './components/AnalyticsPanel';
+import { InsightHistory } from './components/InsightHistory';
+import { InsightChat } from './components/InsightChat';
+import { AiConsentDialog } from './components/AiConsentDialog';
+import { SyncIndicator } from './components/SyncIndicator';
+import { createGeminiChatClient, createGeminiInsightProvider } from './services/geminiService';
+import { getInsightsWithFallback } from './services/insights';
+import { createLocalInsightProvider } from './services/localInsights';
+import {
+  addInsightReport, createInsightReport, findCachedReport, fingerprintInsightInput, formatReportRange,
+  getUserReports
+} from './services/insightHistory';
+import { TimesheetQueryContext } from './services/timesheetQueries';
+import {
+  PunchDraft, isActivePunch, isProjectPunch, addManualPunch, editPunch, deletePunch, restorePunch
+} from './services/punchAudit';
+import {
+  ALLOWED_PUNCHES, buildWorkDays, getPunchStatus, getDayKey, addDays
+} from './services/timeEngine';
+import { loadSettings, saveSettings } from './services/settings';
+import { applyRounding, getWorkweekStart } from './services/payRules';
+import { mergeImport } from './services/timesheetImport';
+import { PunchStore, StorageNotice, loadRecoveryBackup, openPunchStore } from './services/storage';
+import { downloadFile } from './services/timesheetExport';
+import { SYNC_INTERVAL_MS, SyncState, createSyncClient } from './services/syncClient';
+import { applyPunchVersions } from './services/punchSync';
+import {
+  buildTeamOverview, createDefaultProfile, createSyncedProfile, getInitials, loadActiveUserId, saveActiveUserId
+} from './services/profiles';
+import { loadKioskActive, saveKioskActive } from './services/kiosk';
+import { buildProjectDays, getProjectColor, getProjectLabel, totalProjectHours } from './services/projects';
+import { PunchIssue, groupIssuesByDay, validatePunchLocations, validatePunches } from './services/punchValidation';
+import { GeolocationSource, browserGeolocation, getCheckedSites, needsLocation } from './services/geolocation';
+import { createLocalizer } from './services/i18n';
+import {
+  Reminder, autoCloseSessions, getDueReminders, loadSentReminders, saveSentReminders, showNotification
+} from './services/reminders';
+import { compareToSchedule, getScheduledHours, groupExceptionsByDay } from './services/schedules';
+import {
+  LeaveDraft, buildDaysOff, getExpectedHours, getHolidayDates, getLeaveBalances, getLeaveHours
+} from './services/leave';
+import {
+  TimesheetAction, applyTimesheetAction, assertUnlocked, describeLock, findLockingTimesheet, getSubmitBlocker
+} from './services/timesheets';
+import {
+  AnalyticsRange, getComparisonRanges, getDailyHours, getPeriodRange, getTrend, summarizePeriod
+} from './services/analytics';
 
-const STORAGE_KEY = 'punchpro_data';
+interface AppProps {
+  geolocation?: GeolocationSource; // Where location stamps come from; replaceable in tests
+}
 
-const App: React.FC = () => {
+const App: React.FC<AppProps> = ({ geolocation = browserGeolocation }) => {
   const [punches, setPunches] = useState<PunchEntry[]>([]);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'history' | 'insights'>('dashboard');
-  const [aiInsight, setAiInsight] = useState<AIInsight | null>(null);
+  const [store, setStore] = useState<PunchStore | null>(null);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [insightReports, setInsightReports] = useState<InsightReport[]>([]);
+  const [activeUserId, setActiveUserId] = useState<string | null>(loadActiveUserId);
+  // Whose History is open; managers can drill into anyone's from the Team view
+  const [historyUserId, setHistoryUserId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<
+    'dashboard' | 'history' | 'payroll' | 'team' | 'leave' | 'insights' | 'settings' | 'profile'
+  >('dashboard');
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  // Falls back to the newest report of the active user
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+  const [reusedReportId, setReusedReportId] = useState<string | null>(null);
   const [isGeneratingInsight, setIsGeneratingInsight] = useState(false);
+  // INSIGHTS = asked before a first insight request, which goes ahead once answered
+  const [consentRequest, setConsentRequest] = useState<'INSIGHTS' | 'REVIEW' | null>(null);
+  // `null` = dialog closed, `undefined` punch = adding a new one
+  const [editorTarget, setEditorTarget] = useState<{ punch?: PunchEntry; draft?: PunchDraft } | null>(null);
+  const [revisionTarget, setRevisionTarget] = useState<PunchEntry | null>(null);
+  const [kioskActive, setKioskActive] = useState(loadKioskActive);
+  const [analyticsRange, setAnalyticsRange] = useState<AnalyticsRange>(
+    () => getPeriodRange('WEEK', getDayKey(Date.now(), settings.time), settings.time.weekStartsOn)
+  );
+  // Reminders that couldn't be shown as a system notification
+  const [reminderBanner, setReminderBanner] = useState<Reminder[]>([]);
+  const [storageNotice, setStorageNotice] = useState<StorageNotice | null>(null);
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
 
-  // Load data from LocalStorage
+  // Load punches from the store and follow changes made in other tabs
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        setPunches(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to load punches", e);
-      }
-    }
+    let cancelled = false;
+    const unsubscribers: Array<() => void> = [];
+    openPunchStore(notice => {
+      setStorageNotice(notice);
+      // The connection is gone; saving resumes after a reload
+      if (notice === 'CLOSED_FOR_UPGRADE') setStore(null);
+    })
+      .then(async opened => {
+        setStorageNotice(notice => (notice === 'UPGRADE_BLOCKED' ? null : notice));
+        const loaded = await opened.load();
+        let loadedProfiles = await opened.loadProfiles();
+        if (loadedProfiles.length === 0) {
+          loadedProfiles = [createDefaultProfile()];
+          await opened.saveProfiles(loadedProfiles);
+        }
+        const loadedLeave = await opened.loadLeave();
+        const loadedTimesheets = await opened.loadTimesheets();
+        const loadedInsights = await opened.loadInsights();
+        if (cancelled) return;
+        setPunches(loaded);
+        setProfiles(loadedProfiles);
+        setLeaveRequests(loadedLeave);
+        setTimesheets(loadedTimesheets);
+        setInsightReports(loadedInsights);
+        setStore(opened);
+        unsubscribers.push(
+          opened.subscribe(setPunches),
+          opened.subscribeProfiles(setProfiles),
+          opened.subscribeLeave(setLeaveRequests),
+          opened.subscribeTimesheets(setTimesheets),
+          opened.subscribeInsights(setInsightReports)
+        );
+      })
+      .catch(e => console.error("Failed to load punches", e));
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
   }, []);
 
-  // Save data to LocalStorage
+  // Persist changes; the store skips punches that haven't changed
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(punches));
-  }, [punches]);
+    store?.save(punches).catch(e => console.error("Failed to save punches", e));
+  }, [store, punches]);
+
+  const i18n = useMemo(() => createLocalizer(settings.display), [settings.display]);
+
+  const syncClient = useMemo(
+    () => (settings.sync.enabled ? createSyncClient(settings.sync, i18n) : null),
+    [settings.sync, i18n]
+  );
+  // The punches the sync client last saw; null until the store has loaded them
+  const syncedPunches = useRef<PunchEntry[] | null>(null);
+
+  // Runs from timers and events, so nothing may escape as an unhandled rejection
+  const runSync = async () => {
+    if (!syncClient || !syncedPunches.current) return;
+    try {
+      const received = await syncClient.sync(syncedPunches.current);
+      if (received.length > 0) setPunches(prev => applyPunchVersions(prev, received));
+    } catch (e) {
+      console.error("Failed to apply synced punches", e);
+    }
+  };
+
+  useEffect(() => {
+    if (!syncClient) {
+      setSyncState(null);
+      return;
+    }
+    return syncClient.subscribe(setSyncState);
+  }, [syncClient]);
+
+  // Every change made here goes into the queue, then out after a short pause
+  useEffect(() => {
+    if (!store) return;
+    if (syncClient && syncedPunches.current) syncClient.trackChanges(syncedPunches.current, punches);
+    syncedPunches.current = punches;
+    if (!syncClient) return;
+    const timer = window.setTimeout(runSync, 2000);
+    return () => window.clearTimeout(timer);
+  }, [store, punches, syncClient]);
+
+  // Also on a timer, for changes from other devices, and as soon as the connection is back
+  useEffect(() => {
+    if (!store || !syncClient) return;
+    const timer = window.setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', runSync);
+    };
+  }, [store, syncClient]);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
 
-  const handlePunch = (type: 'IN' | 'OUT') => {
+  // A week on show is realigned when the week start changes
+  useEffect(() => {
+    setAnalyticsRange(range => {
+      if (range.kind !== 'WEEK') return range;
+      const aligned = getPeriodRange('WEEK', range.start, settings.time.weekStartsOn);
+      return aligned.start === range.start ? range : aligned;
+    });
+  }, [settings.time.weekStartsOn]);
+
+  // Falls back to the first profile if the remembered one was removed
+  const activeUser = profiles.find(p => p.id === activeUserId) ?? profiles[0] ?? null;
+  const historyUser = profiles.find(p => p.id === historyUserId) ?? activeUser;
+
+  const switchUser = (id: string) => {
+    setActiveUserId(id);
+    setHistoryUserId(null);
+    saveActiveUserId(id);
+  };
+
+  const handleProfilesChange = (next: UserProfile[]) => {
+    setProfiles(next);
+    store?.saveProfiles(next).catch(e => console.error("Failed to save profiles", e));
+  };
+
+  // Synced punches can belong to someone only another device has a profile for
+  useEffect(() => {
+    if (!store || !syncClient || profiles.length === 0) return;
+    const known = new Set(profiles.map(p => p.id));
+    const missing = [...new Set(punches.flatMap(p => (p.userId && !known.has(p.userId) ? [p.userId] : [])))];
+    if (missing.length > 0) handleProfilesChange([...profiles, ...missing.map(id => createSyncedProfile(id, i18n))]);
+  }, [store, syncClient, punches, profiles, i18n]);
+
+  const handleLeaveChange = (next: LeaveRequest[]) => {
+    setLeaveRequests(next);
+    store?.saveLeave(next).catch(e => console.error("Failed to save leave requests", e));
+  };
+
+  const handleTimesheetsChange = (next: Timesheet[]) => {
+    setTimesheets(next);
+    store?.saveTimesheets(next).catch(e => console.error("Failed to save timesheets", e));
+  };
+
+  const handleInsightsChange = (next: InsightReport[]) => {
+    setInsightReports(next);
+    store?.saveInsights(next).catch(e => console.error("Failed to save insight reports", e));
+  };
+
+  const statusOf = (all: PunchEntry[], userId: string) =>
+    getPunchStatus(all.filter(p => p.userId === userId && isActivePunch(p)));
+
+  // Shared by the header controls and the kiosk; resolves to whether the punch was recorded
+  const recordPunch = async (userId: string, type: PunchType, breakCategory?: BreakCategory, tag: PunchTag = {}) => {
+    // Punches made before the store opens would be overwritten by the loaded ones
+    if (!store || !ALLOWED_PUNCHES[statusOf(punches, userId)].includes(type)) return false;
+    // The punch keeps the time of the click, however long the position takes
+    const timestamp = Date.now();
+    const profile = profiles.find(p => p.id === userId);
+    const reading = needsLocation(settings.location, profile) ? await geolocation.read() : null;
     const newPunch: PunchEntry = {
       id: crypto.randomUUID(),
+      userId,
       type,
-      timestamp: Date.now(),
+      timestamp,
+      ...(type === 'BREAK_START' && { breakCategory: breakCategory ?? 'UNPAID' }),
+      ...(isProjectPunch(type) && tag.projectId && { projectId: tag.projectId }),
+      ...(isProjectPunch(type) && tag.task && { task: tag.task }),
+      ...(reading && ('location' in reading ? { location: reading.location } : { locationFailure: reading.failure })),
     };
-    setPunches(prev => [newPunch, ...prev]);
+    // Re-check against the stored punches in case another tab punched first
+    try {
+      const result = await store.appendPunch(newPunch, current =>
+        ALLOWED_PUNCHES[statusOf(current, userId)].includes(type));
+      setPunches(result.punches);
+      return result.accepted;
+    } catch (e) {
+      console.error("Failed to record punch", e);
+      return false;
+    }
   };
 
-  const currentStatus = useMemo(() => {
-    if (punches.length === 0) return 'PUNCHED_OUT';
-    return punches[0].type === 'IN' ? 'PUNCHED_IN' : 'PUNCHED_OUT';
-  }, [punches]);
+  const handlePunch = (type: PunchType, breakCategory?: BreakCategory, tag?: PunchTag) => {
+    if (activeUser) recordPunch(activeUser.id, type, breakCategory, tag);
+  };
 
-  const workDaysData = useMemo(() => {
-    const days: Record<string, WorkDay> = {};
-    
-    // Group punches by day
-    const sortedPunches = [...punches].sort((a, b) => a.timestamp - b.timestamp);
-    
-    sortedPunches.forEach(p => {
-      const date = new Date(p.timestamp).toISOString().split('T')[0];
-      if (!days[date]) {
-        days[date] = { date, punches: [], totalHours: 0 };
-      }
-      days[date].punches.push(p);
+  const toggleKiosk = (active: boolean) => {
+    setKioskActive(active);
+    saveKioskActive(active);
+  };
+
+  const applyManualChange = (change: (prev: PunchEntry[]) => PunchEntry[]) => {
+    try {
+      setPunches(change(punches));
+      setEditorTarget(null);
+    } catch (e) {
+      console.error("Failed to change punch", e);
+    }
+  };
+
+  // Punches in a submitted or approved week stay as they were signed off
+  const assertEditable = (userId: string | undefined, timestamps: number[]) =>
+    assertUnlocked(timesheets, userId, timestamps, settings.time, settings.payRules);
+
+  const getLockMessage = (userId: string | undefined) => (timestamp: number) => {
+    const sheet = findLockingTimesheet(timesheets, userId, timestamp, settings.time, settings.payRules);
+    return sheet ? describeLock(sheet, i18n) : null;
+  };
+
+  const handleSaveManualPunch = (draft: PunchDraft, reason: string) => {
+    const target = editorTarget?.punch;
+    applyManualChange(prev => {
+      assertEditable(target?.userId ?? historyUser?.id, target ? [target.timestamp, draft.timestamp] : [draft.timestamp]);
+      return target
+        ? editPunch(prev, target.id, draft, reason)
+        : addManualPunch(prev, { ...draft, userId: historyUser?.id }, reason);
     });
+  };
 
-    // Calculate hours
-    Object.values(days).forEach(day => {
-      let totalMs = 0;
-      let startTime: number | null = null;
-      
-      day.punches.forEach(p => {
-        if (p.type === 'IN') {
-          startTime = p.timestamp;
-        } else if (p.type === 'OUT' && startTime) {
-          totalMs += (p.timestamp - startTime);
-          startTime = null;
-        }
-      });
-      
-      // If still punched in today, calculate up to now
-      if (startTime && day.date === new Date().toISOString().split('T')[0]) {
-        totalMs += (Date.now() - startTime);
-      }
-      
-      day.totalHours = parseFloat((totalMs / (1000 * 60 * 60)).toFixed(2));
+  const handleDeleteOrRestore = (reason: string, restore: boolean) => {
+    const target = editorTarget?.punch;
+    if (!target) return;
+    applyManualChange(prev => {
+      assertEditable(target.userId, [target.timestamp]);
+      return restore ? restorePunch(prev, target.id, reason) : deletePunch(prev, target.id, reason);
     });
+  };
 
-    return Object.values(days).reverse();
-  }, [punches]);
+  const handleTimesheetAction = (weekStart: string, action: TimesheetAction, comment: string) => {
+    if (!historyUser || !activeUser) return;
+    try {
+      handleTimesheetsChange(applyTimesheetAction(
+        timesheets, historyUser.id, weekStart, action, activeUser.id, comment, historyWorkDays
+      ));
+    } catch (e) {
+      console.error("Failed to update timesheet", e);
+    }
+  };
 
-  const stats = useMemo<DashboardStats>(() => {
-    const today = new Date().toISOString().split('T')[0];
-    const thisWeek = workDaysData.filter(d => {
-      const date = new Date(d.date);
-      const diff = Date.now() - date.getTime();
-      return diff < 7 * 24 * 60 * 60 * 1000;
+  const handleFixIssue = (issue: PunchIssue) => {
+    if (issue.fix.action === 'ADD') {
+      setEditorTarget({ draft: issue.fix.draft });
+    } else {
+      const punchId = issue.fix.punchId;
+      setEditorTarget({ punch: punches.find(p => p.id === punchId) });
+    }
+  };
+
+  const userPunches = useMemo(
+    () => punches.filter(p => p.userId === activeUser?.id),
+    [punches, activeUser?.id]
+  );
+
+  // Soft-deleted punches stay in storage for the audit trail but never count
+  const activePunches = useMemo(() => userPunches.filter(isActivePunch), [userPunches]);
+
+  const currentStatus = useMemo(() => getPunchStatus(activePunches), [activePunches]);
+
+  // The open session's project, or the last one used as a default for the next IN
+  const currentTag = useMemo<PunchTag>(() => {
+    const latest = activePunches.find(p => isProjectPunch(p.type));
+    return { projectId: latest?.projectId, task: latest?.task };
+  }, [activePunches]);
+
+  // Once a minute: close stale sessions and remind the active user about an open one
+  useEffect(() => {
+    const check = () => {
+      const now = Date.now();
+      setPunches(prev => autoCloseSessions(prev, settings.reminders, settings.time, now));
+      if (kioskActive) return;
+
+      const sent = loadSentReminders();
+      const fresh = getDueReminders(activePunches, settings.reminders, settings.time, i18n, now)
+        .filter(reminder => !sent.includes(reminder.id));
+      if (fresh.length === 0) return;
+      saveSentReminders([...sent, ...fresh.map(reminder => reminder.id)]);
+      const unshown = fresh.filter(reminder => !showNotification(reminder));
+      if (unshown.length > 0) setReminderBanner(prev => [...prev, ...unshown]);
+    };
+    check();
+    const timer = window.setInterval(check, 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [activePunches, settings.reminders, settings.time, kioskActive, i18n]);
+
+  useEffect(() => {
+    if (currentStatus === 'PUNCHED_OUT') setReminderBanner([]);
+  }, [currentStatus]);
+
+  const workDaysData = useMemo(
+    () => buildWorkDays(activePunches, settings.time),
+    [activePunches, settings.time]
+  );
+
+  // Payroll works on rounded punch times; everything else shows the exact ones
+  const payrollWorkDays = useMemo(
+    () => buildWorkDays(applyRounding(activePunches, settings.payRules, settings.time.timeZone), settings.time),
+    [activePunches, settings.payRules, settings.time]
+  );
+
+  const historyPunches = useMemo(
+    () => punches.filter(p => p.userId === historyUser?.id),
+    [punches, historyUser?.id]
+  );
+
+  const historyWorkDays = useMemo(
+    () => historyUser?.id === activeUser?.id
+      ? workDaysData
+      : buildWorkDays(historyPunches.filter(isActivePunch), settings.time),
+    [historyUser?.id, activeUser?.id, workDaysData, historyPunches, settings.time]
+  );
+
+  const historyProjectHours = useMemo(() => {
+    if (historyWorkDays.length === 0) return {};
+    const days = buildProjectDays(
+      historyPunches.filter(isActivePunch),
+      settings.time,
+      historyWorkDays[historyWorkDays.length - 1].date,
+      historyWorkDays[0].date
+    );
+    return Object.fromEntries(days.map(day => [day.date, day.hours]));
+  }, [historyPunches, historyWorkDays, settings.time]);
+
+  const findIssues = (own: PunchEntry[], profile: UserProfile | null) => [
+    ...validatePunches(own, settings.time, settings.payRules.standardDayHours, i18n),
+    ...validatePunchLocations(own, settings.location, settings.time, i18n, profile),
+  ];
+
+  const userIssues = useMemo(
+    () => findIssues(activePunches, activeUser),
+    [activePunches, activeUser, settings.time, settings.payRules.standardDayHours, settings.location, i18n]
+  );
+
+  const historyIssuesByDay = useMemo(
+    () => groupIssuesByDay(historyUser?.id === activeUser?.id ? userIssues : findIssues(historyPunches.filter(isActivePunch), historyUser)),
+    [historyUser, activeUser?.id, userIssues, historyPunches, settings.time, settings.payRules.standardDayHours, settings.location, i18n]
+  );
+
+  const holidayDates = useMemo(() => getHolidayDates(settings.holidays), [settings.holidays]);
+
+  // Leave only takes hours from days the person is expected to work
+  const expectedHoursOf = (profile: UserProfile | null) => (date: string) =>
+    getExpectedHours(profile, date, settings.payRules.standardDayHours, holidayDates);
+
+  const daysOffOf = (profile: UserProfile | null) => buildDaysOff(
+    leaveRequests.filter(r => r.userId === profile?.id),
+    settings.holidays,
+    expectedHoursOf(profile),
+    date => getExpectedHours(profile, date, settings.payRules.standardDayHours, new Set())
+  );
+
+  const activeDaysOff = useMemo(
+    () => daysOffOf(activeUser),
+    [activeUser, leaveRequests, settings.holidays, settings.payRules.standardDayHours, holidayDates]
+  );
+
+  // Only past days get a row in History
+  const historyDaysOff = useMemo(() => {
+    const today = getDayKey(Date.now(), settings.time);
+    const all = historyUser?.id === activeUser?.id ? activeDaysOff : daysOffOf(historyUser);
+    return Object.fromEntries(Object.entries(all).filter(([date]) => date <= today));
+  }, [historyUser, activeUser?.id, activeDaysOff, leaveRequests, settings.holidays, settings.payRules.standardDayHours, holidayDates, settings.time]);
+
+  const leaveBalances = useMemo(() => activeUser
+    ? getLeaveBalances(
+      leaveRequests.filter(r => r.userId === activeUser.id),
+      settings.leave,
+      settings.payRules,
+      getDayKey(activeUser.joinedAt, settings.time),
+      getDayKey(Date.now(), settings.time),
+      expectedHoursOf(activeUser)
+    )
+    : [], [activeUser, leaveRequests, settings.leave, settings.payRules, settings.time, holidayDates]);
+
+  // Holidays keep their usual target; their hours come back as a day off
+  const getTargetHours = (date: string) =>
+    getExpectedHours(historyUser, date, settings.payRules.standardDayHours, new Set());
+
+  // Judged from the later of the schedule start and the join date, a year back at most
+  const scheduleExceptionsByDay = useMemo(() => {
+    if (!historyUser?.schedule) return {};
+    const today = getDayKey(Date.now(), settings.time);
+    const start = [historyUser.schedule.startsOn, getDayKey(historyUser.joinedAt, settings.time), addDays(today, -365)]
+      .reduce((a, b) => (a > b ? a : b));
+    if (start > today) return {};
+    return groupExceptionsByDay(compareToSchedule(
+      historyPunches.filter(isActivePunch),
+      historyUser.schedule,
+      settings.time,
+      start,
+      today,
+      new Set(Object.keys(historyDaysOff))
+    ));
+  }, [historyUser?.schedule, historyUser?.joinedAt, historyPunches, historyDaysOff, settings.time]);
+
+  const deletedByDay = useMemo(() => {
+    const days: Record<string, PunchEntry[]> = {};
+    historyPunches.filter(p => !isActivePunch(p)).forEach(p => {
+      const date = getDayKey(p.timestamp, settings.time);
+      (days[date] ??= []).push(p);
     });
+    return days;
+  }, [historyPunches, settings.time]);
 
-    const totalHoursThisWeek = thisWeek.reduce((acc, curr) => acc + curr.totalHours, 0);
-    const avg = thisWeek.length > 0 ? totalHoursThisWeek / thisWeek.length : 0;
+  const teamOverview = useMemo(
+    () => buildTeamOverview(profiles, punches, timesheets, settings.time, settings.payRules.standardDayHours, i18n),
+    [profiles, punches, timesheets, settings.time, settings.payRules.standardDayHours, i18n]
+  );
+
+  const punchCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    punches.forEach(p => {
+      if (p.userId) counts[p.userId] = (counts[p.userId] ?? 0) + 1;
+    });
+    return counts;
+  }, [punches]);
+
+  const projectDays = useMemo(
+    () => buildProjectDays(activePunches, settings.time, analyticsRange.start, analyticsRange.end),
+    [activePunches, settings.time, analyticsRange]
+  );
+
+  const projectTotals = useMemo(() => totalProjectHours(projectDays), [projectDays]);
+
+  // The range so far, next to the same stretch of the period before it
+  const stats = useMemo<DashboardStats>(() => {
+    const comparison = getComparisonRanges(analyticsRange, getDayKey(Date.now(), settings.time));
+    const daysOff = new Set(Object.keys(activeDaysOff));
+    const summarize = (range: { start: string; end: string } | undefined) =>
+      summarizePeriod(range ? getDailyHours(workDaysData, range.start, range.end) : [], daysOff);
+    const current = summarize(comparison?.current);
+    const previous = summarize(comparison?.previous);
 
     return {
-      totalHoursThisWeek: parseFloat(totalHoursThisWeek.toFixed(1)),
-      averageDailyHours: parseFloat(avg.toFixed(1)),
-      lastPunch: punches[0] || null,
+      totalHours: current.totalHours,
+      averageDailyHours: current.averageDailyHours,
+      previousTotalHours: previous.totalHours,
+      previousAverageDailyHours: previous.averageDailyHours,
+      lastPunch: activePunches[0] || null,
       status: currentStatus,
     };
-  }, [punches, workDaysData, currentStatus]);
+  }, [activePunches, workDaysData, activeDaysOff, currentStatus, analyticsRange, settings.time]);
 
-  const fetchAIInsights = async () => {
-    if (workDaysData.length === 0) return;
+  const userReports = useMemo(
+    () => (activeUser ? getUserReports(insightReports, activeUser.id) : []),
+    [insightReports, activeUser?.id]
+  );
+  const currentReport = userReports.find(r => r.id === selectedReportId) ?? userReports[0];
+
+  const queryContext = useMemo<TimesheetQueryContext>(() => ({
+    workDays: workDaysData,
+    payrollWorkDays,
+    punches: activePunches,
+    settings: settings.time,
+    rules: settings.payRules,
+    today: getDayKey(Date.now(), settings.time),
+    sharingLevel: settings.ai.sharingLevel,
+    language: i18n.language,
+  }), [workDaysData, payrollWorkDays, activePunches, settings.time, settings.payRules, settings.ai.sharingLevel, i18n.language]);
+
+  const insightWorkDays = workDaysData.slice(0, 7);
+
+  // Takes the AI settings as an argument so it can run right after the consent dialog changes them
+  const fetchAIInsights = async (ai: AiSettings = settings.ai) => {
+    if (insightWorkDays.length === 0 || !activeUser) return;
+    if (ai.enabled && ai.consentedAt === null) {
+      setConsentRequest('INSIGHTS');
+      return;
+    }
     setIsGeneratingInsight(true);
     try {
-      const insight = await getWorkInsights(workDaysData.slice(0, 7));
-      setAiInsight(insight);
+      const standardDayHours = settings.payRules.standardDayHours;
+      const local = createLocalInsightProvider(settings.time, standardDayHours, i18n);
+      // Gemini first; the local analyzer covers being offline, a rate limit, a down server or a bad answer
+      const providers = ai.enabled
+        ? [createGeminiInsightProvider(activeUser.id, ai, settings.time, i18n), local]
+        : [local];
+      const fingerprint = await fingerprintInsightInput(insightWorkDays, standardDayHours, ai.sharingLevel, i18n.language);
+
+      // Nothing changed since the last report from the same provider, so don't ask again
+      const preferred = providers.find(provider => provider.isAvailable());
+      const cached = preferred && findCachedReport(insightReports, activeUser.id, fingerprint, preferred.source);
+      if (cached) {
+        setSelectedReportId(cached.id);
+        setReusedReportId(cached.id);
+        return;
+      }
+
+      const report = createInsightReport(
+        activeUser.id, insightWorkDays, fingerprint, await getInsightsWithFallback(providers, insightWorkDays, i18n)
+      );
+      handleInsightsChange(addInsightReport(insightReports, report));
+      setSelectedReportId(report.id);
+      setReusedReportId(null);
     } catch (e) {
       console.error(e);
     } finally {
@@ -122,6 +611,27 @@ const App: React.FC = () => {
     }
   };
 
+  const answerConsent = (ai: AiSettings) => {
+    setSettings({ ...settings, ai });
+    if (consentRequest === 'INSIGHTS') fetchAIInsights(ai);
+    setConsentRequest(null);
+  };
+
+  // Without an exit code there would be no way back out
+  if (kioskActive && settings.kiosk.exitCodeHash) {
+    return (
+      <KioskMode
+        profiles={profiles}
+        settings={settings.kiosk}
+        timeZone={settings.time.timeZone}
+        i18n={i18n}
+        getStatus={userId => statusOf(punches, userId)}
+        onPunch={recordPunch}
+        onExit={() => toggleKiosk(false)}
+      />
+    );
+  }
+
   return (
     <div className="flex min-h-screen bg-slate-50">
       {/* Sidebar - Desktop */}
@@ -139,209 +649,408 @@ const App: React.FC = () => {
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'dashboard' ? 'bg-indigo-50 text-indigo-600 font-semibold' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
           >
             <LayoutDashboard className="w-5 h-5" />
-            Dashboard
+            {i18n.t('nav.dashboard')}
           </button>
           <button 
             onClick={() => setActiveTab('history')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'history' ? 'bg-indigo-50 text-indigo-600 font-semibold' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
           >
             <History className="w-5 h-5" />
-            History
+            {i18n.t('nav.history')}
+          </button>
+          <button 
+            onClick={() => setActiveTab('payroll')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'payroll' ? 'bg-indigo-50 text-indigo-600 font-semibold' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Wallet className="w-5 h-5" />
+            {i18n.t('nav.payroll')}
+          </button>
+          {activeUser?.role === 'MANAGER' && (
+            <button 
+              onClick={() => setActiveTab('team')}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'team' ? 'bg-indigo-50 text-indigo-600 font-semibold' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
+            >
+              <Users className="w-5 h-5" />
+              {i18n.t('nav.team')}
+            </button>
+          )}
+          <button 
+            onClick={() => setActiveTab('leave')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'leave' ? 'bg-indigo-50 text-indigo-600 font-semibold' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Palmtree className="w-5 h-5" />
+            {i18n.t('nav.leave')}
           </button>
           <button 
             onClick={() => setActiveTab('insights')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'insights' ? 'bg-indigo-50 text-indigo-600 font-semibold' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
           >
             <Sparkles className="w-5 h-5" />
-            AI Insights
+            {i18n.t('nav.insights')}
+          </button>
+          <button 
+            onClick={() => setActiveTab('settings')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'settings' ? 'bg-indigo-50 text-indigo-600 font-semibold' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Settings className="w-5 h-5" />
+            {i18n.t('nav.settings')}
           </button>
         </nav>
 
         <div className="mt-auto pt-6 border-t border-slate-100">
-          <div className="flex items-center gap-3 px-2">
-            <div className="w-10 h-10 rounded-full bg-slate-200 flex items-center justify-center">
-              <User className="w-5 h-5 text-slate-500" />
+          <button
+            onClick={() => setActiveTab('profile')}
+            className={`w-full flex items-center gap-3 px-2 py-2 rounded-xl text-left transition-all ${activeTab === 'profile' ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+          >
+            <div className="w-10 h-10 rounded-full bg-slate-200 flex items-center justify-center text-sm font-semibold text-slate-600">
+              {activeUser ? getInitials(activeUser.name) : <User className="w-5 h-5 text-slate-500" />}
             </div>
-            <div>
-              <p className="text-sm font-semibold text-slate-900">John Doe</p>
-              <p className="text-xs text-slate-500">Free Account</p>
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-slate-900 truncate">{activeUser?.name ?? i18n.t('app.loading')}</p>
+              <p className="text-xs text-slate-500 truncate">
+                {activeUser?.email || i18n.t(activeUser?.role === 'MANAGER' ? 'role.MANAGER' : 'role.EMPLOYEE')}
+              </p>
             </div>
-          </div>
+          </button>
         </div>
       </aside>
 
       {/* Main Content */}
       <main className="flex-1 md:ml-64 p-4 md:p-8">
+        {storageNotice && (
+          <div className="flex items-start gap-4 bg-rose-50 border border-rose-200 p-4 rounded-2xl mb-6">
+            <AlertTriangle className="w-5 h-5 text-rose-600 flex-shrink-0 mt-0.5" />
+            <p className="flex-1 text-sm text-rose-800">{i18n.t(`storage.${storageNotice}`)}</p>
+            {storageNotice === 'CLOSED_FOR_UPGRADE' && (
+              <button onClick={() => window.location.reload()} className="text-sm font-semibold text-rose-700 hover:text-rose-800">
+                {i18n.t('storage.reload')}
+              </button>
+            )}
+            {storageNotice === 'RECOVERED' && loadRecoveryBackup() && (
+              <button
+                onClick={() => downloadFile({
+                  fileName: `punchpro-recovery-${getDayKey(Date.now(), settings.time)}.json`,
+                  mimeType: 'application/json',
+                  content: loadRecoveryBackup() ?? '',
+                })}
+                className="text-sm font-semibold text-rose-700 hover:text-rose-800"
+              >
+                {i18n.t('storage.downloadBackup')}
+              </button>
+            )}
+            {storageNotice !== 'CLOSED_FOR_UPGRADE' && storageNotice !== 'UPGRADE_BLOCKED' && (
+              <button onClick={() => setStorageNotice(null)} title={i18n.t('app.dismiss')} className="text-rose-600 hover:text-rose-800">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+
+        {reminderBanner.length > 0 && (
+          <div className="flex items-start gap-4 bg-amber-50 border border-amber-200 p-4 rounded-2xl mb-6">
+            <Bell className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 space-y-1">
+              {reminderBanner.map(reminder => (
+                <p key={reminder.id} className="text-sm text-amber-900">
+                  <span className="font-semibold">{reminder.title}</span> {reminder.body}
+                </p>
+              ))}
+            </div>
+            <button onClick={() => setReminderBanner([])} title={i18n.t('app.dismiss')} className="text-amber-600 hover:text-amber-800">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
           <div>
             <h1 className="text-2xl md:text-3xl font-bold text-slate-900">
-              {activeTab === 'dashboard' ? 'Performance Overview' : 
-               activeTab === 'history' ? 'Work History' : 'Smart Insights'}
+              {i18n.t(`title.${activeTab}`)}
             </h1>
             <p className="text-slate-500 mt-1">
-              {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+              {new Date().toLocaleDateString(i18n.locale, { weekday: 'long', month: 'long', day: 'numeric', timeZone: settings.time.timeZone })}
             </p>
           </div>
           
-          <div className="flex items-center gap-3">
-            {stats.status === 'PUNCHED_IN' ? (
-              <button 
-                onClick={() => handlePunch('OUT')}
-                className="flex items-center gap-2 bg-rose-600 hover:bg-rose-700 text-white px-6 py-3 rounded-xl font-semibold shadow-lg shadow-rose-200 transition-all active:scale-95"
-              >
-                <LogOut className="w-5 h-5" />
-                Punch Out
-              </button>
-            ) : (
-              <button 
-                onClick={() => handlePunch('IN')}
-                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-xl font-semibold shadow-lg shadow-indigo-200 transition-all active:scale-95"
-              >
-                <LogIn className="w-5 h-5" />
-                Punch In
-              </button>
-            )}
+          <div className="flex flex-wrap items-center gap-3">
+            {syncState && <SyncIndicator state={syncState} timeZone={settings.time.timeZone} i18n={i18n} onSyncNow={runSync} />}
+            <PunchControls
+              status={stats.status}
+              projects={settings.projects.filter(p => !p.archived)}
+              current={currentTag}
+              i18n={i18n}
+              disabled={!store}
+              onPunch={handlePunch}
+            />
           </div>
         </header>
 
         {activeTab === 'dashboard' && (
           <div className="space-y-8 animate-in fade-in duration-500">
+            {userIssues.length > 0 && (
+              <div className="flex items-center gap-4 bg-rose-50 border border-rose-200 p-4 rounded-2xl">
+                <AlertTriangle className="w-5 h-5 text-rose-600 flex-shrink-0" />
+                <p className="flex-1 text-sm text-rose-800">
+                  <span className="font-semibold">
+                    {i18n.t(userIssues.length === 1 ? 'dashboard.issues.one' : 'dashboard.issues.other', { count: userIssues.length })}
+                  </span>{' '}
+                  {i18n.t('dashboard.issuesHint')}
+                </p>
+                <button
+                  onClick={() => {
+                    setHistoryUserId(null);
+                    setActiveTab('history');
+                  }}
+                  className="flex items-center gap-1 text-sm font-semibold text-rose-700 hover:text-rose-800"
+                >
+                  {i18n.t('dashboard.review')}
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            <RangePicker
+              range={analyticsRange}
+              today={getDayKey(Date.now(), settings.time)}
+              weekStartsOn={settings.time.weekStartsOn}
+              i18n={i18n}
+              onChange={setAnalyticsRange}
+            />
+
             {/* Stats Grid */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
               <StatCard 
-                label="Total Hours (Week)" 
-                value={`${stats.totalHoursThisWeek}h`} 
+                label={i18n.t('dashboard.totalHours', {
+                  period: i18n.t(analyticsRange.kind === 'CUSTOM' ? 'dashboard.customPeriod' : `range.${analyticsRange.kind}`),
+                })}
+                value={i18n.formatHours(stats.totalHours)}
                 icon={<Clock className="w-5 h-5" />}
-                trend={{ value: '+12%', isUp: true }}
+                trend={getTrend(stats.totalHours, stats.previousTotalHours)}
               />
               <StatCard 
-                label="Daily Average" 
-                value={`${stats.averageDailyHours}h`} 
+                label={i18n.t('dashboard.dailyAverage')}
+                value={i18n.formatHours(stats.averageDailyHours)}
                 icon={<TrendingUp className="w-5 h-5" />}
+                trend={getTrend(stats.averageDailyHours, stats.previousAverageDailyHours)}
               />
               <StatCard 
-                label="Active Status" 
-                value={stats.status === 'PUNCHED_IN' ? 'On Duty' : 'Away'} 
-                icon={stats.status === 'PUNCHED_IN' ? <CheckCircle2 className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+                label={i18n.t('dashboard.status')}
+                value={i18n.t(`status.${stats.status}`)}
+                icon={stats.status === 'PUNCHED_IN' ? <CheckCircle2 className="w-5 h-5" /> : stats.status === 'ON_BREAK' ? <Coffee className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
               />
             </div>
 
             {/* Charts Section */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               <div className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
-                <div className="flex items-center justify-between mb-6">
-                  <h3 className="font-bold text-slate-800">Weekly Activity</h3>
-                  <select className="text-sm bg-slate-50 border-none rounded-lg focus:ring-2 focus:ring-indigo-500">
-                    <option>Last 7 Days</option>
-                  </select>
-                </div>
+                <h3 className="font-bold text-slate-800 mb-6">{i18n.t('dashboard.activityByProject')}</h3>
                 <div className="h-64">
                   <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={workDaysData.slice(0, 7).reverse()}>
+                    <ComposedChart data={projectDays.map(day => ({
+                      date: day.date,
+                      ...day.hours,
+                      ...(activeUser?.schedule && { scheduled: getScheduledHours(activeUser.schedule, day.date) }),
+                    }))}>
                       <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
                       <XAxis 
                         dataKey="date" 
                         axisLine={false} 
                         tickLine={false} 
                         tick={{fontSize: 12, fill: '#94a3b8'}}
-                        tickFormatter={(val) => new Date(val).toLocaleDateString('en-US', { weekday: 'short' })}
+                        tickFormatter={(val) => i18n.formatDate(val, projectDays.length > 7 ? { month: 'short', day: 'numeric' } : { weekday: 'short' })}
                       />
                       <YAxis axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#94a3b8'}} />
                       <Tooltip 
                         cursor={{fill: '#f8fafc'}}
                         contentStyle={{borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'}}
                       />
-                      <Bar dataKey="totalHours" radius={[4, 4, 0, 0]}>
-                        {workDaysData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={entry.totalHours > 8 ? '#4f46e5' : '#818cf8'} />
-                        ))}
-                      </Bar>
-                    </BarChart>
+                      {projectTotals.map((total, index) => (
+                        <Bar
+                          key={total.projectId}
+                          dataKey={total.projectId}
+                          stackId="hours"
+                          name={getProjectLabel(settings.projects, total.projectId, i18n)}
+                          fill={getProjectColor(settings.projects, total.projectId)}
+                          radius={index === projectTotals.length - 1 ? [4, 4, 0, 0] : undefined}
+                        />
+                      ))}
+                      {activeUser?.schedule && (
+                        <Line
+                          type="step"
+                          dataKey="scheduled"
+                          name={i18n.t('dashboard.scheduled')}
+                          stroke="#94a3b8"
+                          strokeDasharray="4 4"
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      )}
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </div>
+                {projectTotals.length > 0 && (
+                  <div className="flex flex-wrap gap-x-6 gap-y-2 mt-4">
+                    {projectTotals.map(total => (
+                      <div key={total.projectId} className="flex items-center gap-2 text-sm">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: getProjectColor(settings.projects, total.projectId) }} />
+                        <span className="text-slate-600">{getProjectLabel(settings.projects, total.projectId, i18n)}</span>
+                        <span className="font-semibold text-slate-900">{i18n.formatHours(total.hours)}</span>
+                      </div>
+                    ))}
+                    {activeUser?.schedule && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="w-4 border-t-2 border-dashed border-slate-400" />
+                        <span className="text-slate-600">{i18n.t('dashboard.scheduled')}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
-                <h3 className="font-bold text-slate-800 mb-6">Recent Activity</h3>
+                <h3 className="font-bold text-slate-800 mb-6">{i18n.t('dashboard.recentActivity')}</h3>
                 <div className="space-y-4">
-                  {punches.slice(0, 5).map((p, idx) => (
+                  {activePunches.slice(0, 5).map((p, idx) => (
                     <div key={p.id} className="flex items-start gap-3">
-                      <div className={`mt-1 p-1.5 rounded-full ${p.type === 'IN' ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
-                        {p.type === 'IN' ? <LogIn className="w-3.5 h-3.5" /> : <LogOut className="w-3.5 h-3.5" />}
+                      <div className={`mt-1 p-1.5 rounded-full ${p.type === 'IN' ? 'bg-emerald-50 text-emerald-600' : p.type === 'OUT' ? 'bg-rose-50 text-rose-600' : 'bg-amber-50 text-amber-600'}`}>
+                        {p.type === 'IN' ? <LogIn className="w-3.5 h-3.5" /> :
+                         p.type === 'OUT' ? <LogOut className="w-3.5 h-3.5" /> :
+                         p.type === 'BREAK_START' ? <Coffee className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
                       </div>
                       <div className="flex-1 border-b border-slate-50 pb-3 last:border-0">
                         <p className="text-sm font-semibold text-slate-900">
-                          Punch {p.type === 'IN' ? 'In' : 'Out'}
+                          {i18n.t(`punch.${p.type}`)}
+                          {p.type === 'BREAK_START' && (
+                            <span className="ml-1 text-xs font-normal text-slate-400">({i18n.t(p.breakCategory === 'PAID' ? 'punch.paid' : 'punch.unpaid')})</span>
+                          )}
                         </p>
                         <p className="text-xs text-slate-500">
-                          {new Date(p.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {i18n.formatTime(p.timestamp, settings.time.timeZone)}
                         </p>
                       </div>
                     </div>
                   ))}
-                  {punches.length === 0 && (
+                  {activePunches.length === 0 && (
                     <div className="text-center py-8">
-                      <p className="text-slate-400 text-sm">No recent activity</p>
+                      <p className="text-slate-400 text-sm">{i18n.t('dashboard.noActivity')}</p>
                     </div>
                   )}
                 </div>
               </div>
             </div>
+
+            <AnalyticsPanel
+              punches={activePunches}
+              workDays={workDaysData}
+              settings={settings.time}
+              range={analyticsRange}
+              today={getDayKey(Date.now(), settings.time)}
+              standardDayHours={settings.payRules.standardDayHours}
+              i18n={i18n}
+            />
           </div>
         )}
 
         {activeTab === 'history' && (
-          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-in slide-in-from-bottom-4 duration-500">
-            <div className="overflow-x-auto">
-              <table className="w-full text-left">
-                <thead className="bg-slate-50 border-b border-slate-200">
-                  <tr>
-                    <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Date</th>
-                    <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
-                    <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Punches</th>
-                    <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Total Hours</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-slate-100">
-                  {workDaysData.map((day) => (
-                    <tr key={day.date} className="hover:bg-slate-50 transition-colors">
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center gap-3">
-                          <Calendar className="w-4 h-4 text-slate-400" />
-                          <span className="text-sm font-medium text-slate-900">
-                            {new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
-                          </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${day.totalHours >= 8 ? 'bg-emerald-100 text-emerald-800' : 'bg-slate-100 text-slate-800'}`}>
-                          {day.totalHours >= 8 ? 'Complete' : 'Partial'}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex flex-wrap gap-2">
-                          {day.punches.map((p, i) => (
-                            <span key={i} className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded border border-slate-200">
-                              {p.type}: {new Date(p.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                            </span>
-                          ))}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 text-right whitespace-nowrap">
-                        <span className="text-sm font-bold text-slate-900">{day.totalHours}h</span>
-                      </td>
-                    </tr>
-                  ))}
-                  {workDaysData.length === 0 && (
-                    <tr>
-                      <td colSpan={4} className="px-6 py-12 text-center">
-                        <p className="text-slate-400">No work history found.</p>
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
+          <HistoryView
+            workDays={historyWorkDays}
+            owner={historyUser?.id !== activeUser?.id ? historyUser : null}
+            onBackToOwn={() => setHistoryUserId(null)}
+            timeZone={settings.time.timeZone}
+            i18n={i18n}
+            getTargetHours={getTargetHours}
+            deletedByDay={deletedByDay}
+            issuesByDay={historyIssuesByDay}
+            sites={getCheckedSites(settings.location, historyUser)}
+            exceptionsByDay={scheduleExceptionsByDay}
+            daysOffByDay={historyDaysOff}
+            projects={settings.projects}
+            projectHoursByDay={historyProjectHours}
+            onFixIssue={handleFixIssue}
+            profiles={profiles}
+            timesheets={timesheets.filter(t => t.userId === historyUser?.id)}
+            getWeekStart={date => getWorkweekStart(date, settings.payRules)}
+            canSubmit={historyUser?.id === activeUser?.id}
+            canApprove={activeUser?.role === 'MANAGER' && historyUser?.id !== activeUser?.id}
+            getSubmitBlocker={weekStart =>
+              getSubmitBlocker(historyPunches.filter(isActivePunch), weekStart, settings.time, settings.payRules.standardDayHours, i18n)}
+            onTimesheetAction={handleTimesheetAction}
+            onAddPunch={() => setEditorTarget({})}
+            onEditPunch={punch => setEditorTarget({ punch })}
+            onShowRevisions={setRevisionTarget}
+          />
+        )}
+
+        {activeTab === 'payroll' && (
+          <PayrollView
+            workDays={payrollWorkDays}
+            rules={settings.payRules}
+            timesheets={timesheets.filter(t => t.userId === activeUser?.id)}
+            today={getDayKey(Date.now(), settings.time)}
+            i18n={i18n}
+          />
+        )}
+
+        {activeTab === 'team' && (
+          <TeamView
+            members={teamOverview}
+            timeZone={settings.time.timeZone}
+            i18n={i18n}
+            onViewHistory={userId => {
+              setHistoryUserId(userId);
+              setActiveTab('history');
+            }}
+          />
+        )}
+
+        {activeTab === 'leave' && activeUser && (
+          <LeaveView
+            profile={activeUser}
+            profiles={profiles}
+            requests={leaveRequests}
+            balances={leaveBalances}
+            holidays={settings.holidays}
+            today={getDayKey(Date.now(), settings.time)}
+            i18n={i18n}
+            getLeaveHours={(userId: string, draft: LeaveDraft) =>
+              getLeaveHours(draft, expectedHoursOf(profiles.find(p => p.id === userId) ?? null))}
+            onChange={handleLeaveChange}
+          />
+        )}
+
+        {activeTab === 'profile' && activeUser && (
+          <ProfileView
+            profiles={profiles}
+            activeUserId={activeUser.id}
+            punchCounts={punchCounts}
+            today={getDayKey(Date.now(), settings.time)}
+            i18n={i18n}
+            onSwitch={switchUser}
+            onChange={handleProfilesChange}
+          />
+        )}
+
+        {activeTab === 'settings' && (
+          <div className="space-y-8">
+            <SettingsView
+              settings={settings}
+              onChange={setSettings}
+              onStartKiosk={() => toggleKiosk(true)}
+              geolocation={geolocation}
+              i18n={i18n}
+            />
+            <DataTransferPanel
+              punches={userPunches}
+              workDays={workDaysData}
+              timeSettings={settings.time}
+              projects={settings.projects}
+              i18n={i18n}
+              onImport={preview => activeUser && setPunches(prev => mergeImport(prev, {
+                ...preview,
+                // Signed-off weeks can't gain punches, not even from a file
+                punches: preview.punches.filter(p => !getLockMessage(activeUser.id)(p.timestamp)),
+              }, activeUser.id))}
+            />
           </div>
         )}
 
@@ -351,19 +1060,28 @@ const App: React.FC = () => {
               <div className="relative z-10 max-w-2xl">
                 <h2 className="text-3xl font-bold mb-4 flex items-center gap-2">
                   <Sparkles className="w-8 h-8" />
-                  AI Workplace Assistant
+                  {i18n.t('insights.title')}
                 </h2>
                 <p className="text-indigo-100 mb-6 text-lg">
-                  Get personalized recommendations based on your work patterns to optimize your productivity and well-being.
+                  {i18n.t('insights.intro')}
                 </p>
-                <button 
-                  onClick={fetchAIInsights}
-                  disabled={isGeneratingInsight || workDaysData.length === 0}
-                  className="bg-white text-indigo-600 px-6 py-3 rounded-xl font-bold hover:bg-indigo-50 transition-all flex items-center gap-2 disabled:opacity-50"
-                >
-                  {isGeneratingInsight ? 'Analyzing Work Patterns...' : 'Generate New Insights'}
-                  {!isGeneratingInsight && <ChevronRight className="w-5 h-5" />}
-                </button>
+                <div className="flex flex-wrap items-center gap-4">
+                  <button 
+                    onClick={() => fetchAIInsights()}
+                    disabled={isGeneratingInsight || workDaysData.length === 0}
+                    className="bg-white text-indigo-600 px-6 py-3 rounded-xl font-bold hover:bg-indigo-50 transition-all flex items-center gap-2 disabled:opacity-50"
+                  >
+                    {i18n.t(isGeneratingInsight ? 'insights.analyzing' : 'insights.generate')}
+                    {!isGeneratingInsight && <ChevronRight className="w-5 h-5" />}
+                  </button>
+                  <button
+                    onClick={() => setConsentRequest('REVIEW')}
+                    className="flex items-center gap-2 text-sm font-semibold text-indigo-100 hover:text-white"
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    {settings.ai.enabled ? i18n.t('insights.sharing', { level: i18n.t(`ai.${settings.ai.sharingLevel}`) }) : i18n.t('insights.aiOff')}
+                  </button>
+                </div>
               </div>
               
               {/* Decorative elements */}
@@ -371,28 +1089,40 @@ const App: React.FC = () => {
               <div className="absolute bottom-[-20%] left-[-10%] w-96 h-96 bg-indigo-400/20 rounded-full blur-3xl"></div>
             </div>
 
-            {aiInsight && (
+            {currentReport && (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 <div className="bg-white p-8 rounded-2xl border border-slate-200 shadow-sm">
-                  <h3 className="text-xl font-bold text-slate-900 mb-4">Summary</h3>
+                  <div className="flex items-center justify-between mb-1">
+                    <h3 className="text-xl font-bold text-slate-900">{i18n.t('insights.summary')}</h3>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${currentReport.source === 'GEMINI' ? 'bg-indigo-100 text-indigo-800' : 'bg-slate-100 text-slate-600'}`}>
+                      {i18n.t(`insightSource.${currentReport.source}`)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-slate-500 mb-4">
+                    {i18n.t('insights.workDays', { range: formatReportRange(currentReport, i18n.locale) })}
+                    {currentReport.id === reusedReportId && ` · ${i18n.t('insights.reused')}`}
+                  </p>
+                  {currentReport.fallbackReason && (
+                    <p className="text-xs text-slate-400 -mt-2 mb-4">{i18n.t('insights.fallback', { reason: currentReport.fallbackReason })}</p>
+                  )}
                   <p className="text-slate-600 leading-relaxed mb-6">
-                    {aiInsight.summary}
+                    {currentReport.insight.summary}
                   </p>
                   <div className="flex items-center gap-4">
                     <div className="flex-1 bg-slate-100 h-2 rounded-full overflow-hidden">
                       <div 
                         className="bg-indigo-600 h-full transition-all duration-1000"
-                        style={{ width: `${aiInsight.productivityScore}%` }}
+                        style={{ width: `${currentReport.insight.productivityScore}%` }}
                       ></div>
                     </div>
-                    <span className="font-bold text-indigo-600">{aiInsight.productivityScore}% Score</span>
+                    <span className="font-bold text-indigo-600">{i18n.t('insights.score', { score: currentReport.insight.productivityScore })}</span>
                   </div>
                 </div>
 
                 <div className="bg-white p-8 rounded-2xl border border-slate-200 shadow-sm">
-                  <h3 className="text-xl font-bold text-slate-900 mb-4">Recommendations</h3>
+                  <h3 className="text-xl font-bold text-slate-900 mb-4">{i18n.t('insights.recommendations')}</h3>
                   <div className="space-y-4">
-                    {aiInsight.recommendations.map((rec, i) => (
+                    {currentReport.insight.recommendations.map((rec, i) => (
                       <div key={i} className="flex gap-4 p-4 bg-slate-50 rounded-xl border border-slate-100">
                         <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-indigo-100 text-indigo-600 flex items-center justify-center font-bold">
                           {i + 1}
@@ -404,6 +1134,28 @@ const App: React.FC = () => {
                 </div>
               </div>
             )}
+
+            {activeUser && settings.ai.enabled && (
+              <InsightChat
+                key={activeUser.id}
+                client={createGeminiChatClient(activeUser.id, settings.ai, i18n)}
+                context={queryContext}
+                i18n={i18n}
+                needsConsent={settings.ai.consentedAt === null}
+                onReviewSharing={() => setConsentRequest('REVIEW')}
+              />
+            )}
+
+            <InsightHistory
+              reports={userReports}
+              selectedId={currentReport?.id}
+              settings={settings.time}
+              i18n={i18n}
+              onSelect={id => {
+                setSelectedReportId(id);
+                setReusedReportId(null);
+              }}
+            />
           </div>
         )}
       </main>
@@ -415,28 +1167,74 @@ const App: React.FC = () => {
           className={`flex flex-col items-center gap-1 ${activeTab === 'dashboard' ? 'text-indigo-600' : 'text-slate-400'}`}
         >
           <LayoutDashboard className="w-6 h-6" />
-          <span className="text-[10px] font-medium">Dashboard</span>
+          <span className="text-[10px] font-medium">{i18n.t('nav.dashboard')}</span>
         </button>
         <button 
           onClick={() => setActiveTab('history')}
           className={`flex flex-col items-center gap-1 ${activeTab === 'history' ? 'text-indigo-600' : 'text-slate-400'}`}
         >
           <History className="w-6 h-6" />
-          <span className="text-[10px] font-medium">History</span>
+          <span className="text-[10px] font-medium">{i18n.t('nav.history')}</span>
+        </button>
+        <button 
+          onClick={() => setActiveTab('payroll')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'payroll' ? 'text-indigo-600' : 'text-slate-400'}`}
+        >
+          <Wallet className="w-6 h-6" />
+          <span className="text-[10px] font-medium">{i18n.t('nav.payroll')}</span>
         </button>
         <button 
           onClick={() => setActiveTab('insights')}
           className={`flex flex-col items-center gap-1 ${activeTab === 'insights' ? 'text-indigo-600' : 'text-slate-400'}`}
         >
           <Sparkles className="w-6 h-6" />
-          <span className="text-[10px] font-medium">Insights</span>
+          <span className="text-[10px] font-medium">{i18n.t('nav.insightsShort')}</span>
+        </button>
+        <button 
+          onClick={() => setActiveTab('settings')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'settings' ? 'text-indigo-600' : 'text-slate-400'}`}
+        >
+          <Settings className="w-6 h-6" />
+          <span className="text-[10px] font-medium">{i18n.t('nav.settings')}</span>
         </button>
         <div className="w-px h-8 bg-slate-200 mx-2"></div>
-        <button className="flex flex-col items-center gap-1 text-slate-400">
+        <button 
+          onClick={() => setActiveTab('profile')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'profile' ? 'text-indigo-600' : 'text-slate-400'}`}
+        >
           <User className="w-6 h-6" />
-          <span className="text-[10px] font-medium">Profile</span>
+          <span className="text-[10px] font-medium">{i18n.t('nav.profile')}</span>
         </button>
       </nav>
+
+      {editorTarget && (
+        <PunchEditorDialog
+          punch={editorTarget.punch}
+          draft={editorTarget.draft}
+          timeZone={settings.time.timeZone}
+          projects={settings.projects}
+          i18n={i18n}
+          onSave={handleSaveManualPunch}
+          getLockMessage={getLockMessage(editorTarget.punch?.userId ?? historyUser?.id)}
+          onDelete={reason => handleDeleteOrRestore(reason, false)}
+          onRestore={reason => handleDeleteOrRestore(reason, true)}
+          onClose={() => setEditorTarget(null)}
+        />
+      )}
+      {revisionTarget && (
+        <RevisionLogDialog punch={revisionTarget} timeZone={settings.time.timeZone} i18n={i18n} onClose={() => setRevisionTarget(null)} />
+      )}
+      {consentRequest && (
+        <AiConsentDialog
+          ai={settings.ai}
+          workDays={insightWorkDays}
+          timeZone={settings.time.timeZone}
+          i18n={i18n}
+          onAccept={level => answerConsent({ enabled: true, sharingLevel: level, consentedAt: Date.now() })}
+          onDecline={() => answerConsent({ ...settings.ai, enabled: false })}
+          onClose={() => setConsentRequest(null)}
+        />
+      )}
     </div>
   );
 };
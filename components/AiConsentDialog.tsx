@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import { AiSettings, AiSharingLevel, WorkDay } from '../types';
+import { AI_SHARING_LEVELS, buildInsightPayload } from '../services/aiPrivacy';
+import { Localizer } from '../services/i18n';
+
+interface AiConsentDialogProps {
+  ai: AiSettings;
+  workDays: WorkDay[]; // What the next insight request would cover
+  timeZone: string;
+  i18n: Localizer;
+  onAccept: (level: AiSharingLevel) => void;
+  onDecline: () => void;
+  onClose: () => void;
+}
+
+export const AiConsentDialog: React.FC<AiConsentDialogProps> = ({ ai, workDays, timeZone, i18n, onAccept, onDecline, onClose }) => {
+  const [level, setLevel] = useState<AiSharingLevel>(ai.sharingLevel);
+  const preview = JSON.stringify(buildInsightPayload(workDays, level, timeZone, i18n.language), null, 2);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-indigo-600" />
+            {i18n.t('consent.title')}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('consent.intro')}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-6">
+          {AI_SHARING_LEVELS.map(option => (
+            <button
+              key={option}
+              onClick={() => setLevel(option)}
+              className={`text-left p-3 rounded-xl border transition-all ${level === option ? 'bg-indigo-50 border-indigo-200' : 'border-slate-200 hover:bg-slate-50'}`}
+            >
+              <span className={`block text-sm font-semibold ${level === option ? 'text-indigo-600' : 'text-slate-700'}`}>
+                {i18n.t(`ai.${option}`)}
+              </span>
+              <span className="block text-xs text-slate-500 mt-1">{i18n.t(`ai.desc.${option}`)}</span>
+            </button>
+          ))}
+        </div>
+
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+          {i18n.t(workDays.length === 1 ? 'consent.preview.one' : 'consent.preview.other', { count: workDays.length })}
+        </span>
+        <pre className="mt-1 max-h-64 overflow-y-auto text-xs text-slate-600 bg-slate-50 border border-slate-100 rounded-xl p-3">{preview}</pre>
+
+        <div className="flex items-center justify-between mt-6">
+          <button onClick={onDecline} className="text-sm font-semibold text-slate-500 hover:text-slate-700">
+            {i18n.t('consent.decline')}
+          </button>
+          <button
+            onClick={() => onAccept(level)}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all"
+          >
+            {i18n.t('consent.accept')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+
+import React, { useMemo, useState } from 'react';
+import {
+  Bar, BarChart, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Scatter, ScatterChart, Tooltip, TooltipProps, XAxis, YAxis
+} from 'recharts';
+import { PunchEntry, TimeSettings, WorkDay } from '../types';
+import {
+  AnalyticsRange, HeatmapCell, ROLLING_WINDOW_DAYS, buildHeatmap, getDailyHours, getRollingAverage, getStartEndDistribution
+} from '../services/analytics';
+import { getWeekStart } from '../services/schedules';
+import { addDays } from '../services/timeEngine';
+import { Localizer } from '../services/i18n';
+
+interface AnalyticsPanelProps {
+  punches: PunchEntry[]; // Active punches of one person
+  workDays: WorkDay[];
+  settings: TimeSettings;
+  range: AnalyticsRange;
+  today: string;
+  standardDayHours: number;
+  i18n: Localizer;
+}
+
+const tooltipStyle = { borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' };
+const axisTick = { fontSize: 12, fill: '#94a3b8' };
+
+// Shades from an empty day up to a full standard day or more
+const HEAT_COLORS = ['#f1f5f9', '#e0e7ff', '#a5b4fc', '#6366f1', '#4338ca'];
+
+const getHeatColor = (hours: number, standardDayHours: number) => {
+  if (hours <= 0) return HEAT_COLORS[0];
+  const ratio = hours / Math.max(standardDayHours, 1);
+  return HEAT_COLORS[ratio < 0.25 ? 1 : ratio < 0.6 ? 2 : ratio < 1 ? 3 : 4];
+};
+
+const HeatmapTooltip: React.FC<TooltipProps<number, string> & { i18n: Localizer }> = ({ active, payload, i18n }) => {
+  const cell = payload?.[0]?.payload as HeatmapCell | undefined;
+  if (!active || !cell) return null;
+  return (
+    <div className="bg-white px-3 py-2 rounded-xl shadow-lg text-sm">
+      <p className="font-semibold text-slate-900">{i18n.formatDate(cell.date, { weekday: 'short', month: 'short', day: 'numeric' })}</p>
+      <p className="text-slate-500">{i18n.formatHours(cell.hours)}</p>
+    </div>
+  );
+};
+
+export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ punches, workDays, settings, range, today, standardDayHours, i18n }) => {
+  const [heatmapWidth, setHeatmapWidth] = useState(600);
+  const { weekStartsOn } = settings;
+  // Days that haven't happened yet are left out
+  const end = range.end < today ? range.end : today;
+  const started = range.start <= today;
+
+  const heatmap = useMemo(
+    () => (started ? buildHeatmap(getDailyHours(workDays, range.start, end), weekStartsOn) : []),
+    [workDays, range.start, end, started, weekStartsOn]
+  );
+
+  const rolling = useMemo(
+    () => (started ? getRollingAverage(getDailyHours(workDays, addDays(range.start, -(ROLLING_WINDOW_DAYS - 1)), end)) : []),
+    [workDays, range.start, end, started]
+  );
+
+  const distribution = useMemo(
+    () => (started ? getStartEndDistribution(punches, settings, range.start, end) : []),
+    [punches, settings, range.start, end, started]
+  );
+
+  const weeks = heatmap.length > 0 ? heatmap[heatmap.length - 1].week + 1 : 1;
+  const firstWeek = getWeekStart(range.start, weekStartsOn);
+  // Cells shrink to fit long ranges; 40px goes to the weekday labels
+  const cellSize = Math.max(6, Math.min(22, Math.floor((heatmapWidth - 40) / weeks) - 3));
+  const longRange = rolling.length > 14;
+  // Hour ticks follow the 12- or 24-hour setting
+  const formatHour = (hour: number) => i18n.formatTime(Date.UTC(2024, 0, 1, hour), 'UTC');
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('analytics.dailyHours')}</h3>
+        <p className="text-sm text-slate-500 mb-6">{i18n.t('analytics.dailyHoursHint', { hours: i18n.formatHours(standardDayHours) })}</p>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%" onResize={width => setHeatmapWidth(width)}>
+            <ScatterChart margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+              <XAxis
+                type="number"
+                dataKey="week"
+                domain={[-0.5, weeks - 0.5]}
+                ticks={Array.from({ length: weeks }, (_, week) => week)}
+                interval="preserveStartEnd"
+                axisLine={false}
+                tickLine={false}
+                tick={axisTick}
+                tickFormatter={week => i18n.formatDate(addDays(firstWeek, week * 7), { month: 'short', day: 'numeric' })}
+              />
+              <YAxis
+                type="number"
+                dataKey="weekday"
+                domain={[-0.5, 6.5]}
+                ticks={[0, 1, 2, 3, 4, 5, 6]}
+                reversed
+                width={40}
+                axisLine={false}
+                tickLine={false}
+                tick={axisTick}
+                tickFormatter={row => i18n.weekdayName((row + weekStartsOn) % 7)}
+              />
+              <Tooltip cursor={false} content={<HeatmapTooltip i18n={i18n} />} />
+              <Scatter
+                data={heatmap}
+                isAnimationActive={false}
+                shape={({ cx = 0, cy = 0, payload }: { cx?: number; cy?: number; payload?: HeatmapCell }) => (
+                  <rect
+                    x={cx - cellSize / 2}
+                    y={cy - cellSize / 2}
+                    width={cellSize}
+                    height={cellSize}
+                    rx={3}
+                    fill={getHeatColor(payload?.hours ?? 0, standardDayHours)}
+                  />
+                )}
+              />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="flex items-center justify-end gap-1 mt-4 text-xs text-slate-500">
+          <span className="mr-1">{i18n.t('analytics.less')}</span>
+          {HEAT_COLORS.map(color => <span key={color} className="w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />)}
+          <span className="ml-1">{i18n.t('analytics.more')}</span>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('analytics.rollingAverage')}</h3>
+        <p className="text-sm text-slate-500 mb-6">{i18n.t('analytics.rollingAverageHint', { days: ROLLING_WINDOW_DAYS })}</p>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rolling}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="date"
+                axisLine={false}
+                tickLine={false}
+                tick={axisTick}
+                tickFormatter={date => i18n.formatDate(date, longRange ? { month: 'short', day: 'numeric' } : { weekday: 'short' })}
+              />
+              <YAxis axisLine={false} tickLine={false} tick={axisTick} />
+              <Tooltip
+                cursor={{ fill: '#f8fafc' }}
+                contentStyle={tooltipStyle}
+                labelFormatter={date => i18n.formatDate(String(date), { weekday: 'short', month: 'short', day: 'numeric' })}
+              />
+              <Bar dataKey="hours" name={i18n.t('analytics.hours')} fill="#e0e7ff" radius={[4, 4, 0, 0]} />
+              <Line type="monotone" dataKey="average" name={i18n.t('analytics.average', { days: ROLLING_WINDOW_DAYS })} stroke="#4f46e5" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </section>
+
+      <section className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="font-bold text-slate-800 mb-1">{i18n.t('analytics.startEnd')}</h3>
+            <p className="text-sm text-slate-500">{i18n.t('analytics.startEndHint')}</p>
+          </div>
+          <div className="flex gap-6 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-full bg-emerald-500" />
+              <span className="text-slate-600">{i18n.t('analytics.start')}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-full bg-rose-500" />
+              <span className="text-slate-600">{i18n.t('analytics.end')}</span>
+            </div>
+          </div>
+        </div>
+        {distribution.length > 0 ? (
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={distribution}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="hour" axisLine={false} tickLine={false} tick={axisTick} tickFormatter={formatHour} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={axisTick} />
+                <Tooltip cursor={{ fill: '#f8fafc' }} contentStyle={tooltipStyle} labelFormatter={hour => formatHour(Number(hour))} />
+                <Bar dataKey="starts" name={i18n.t('analytics.started')} fill="#10b981" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="ends" name={i18n.t('analytics.finished')} fill="#f43f5e" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-400">{i18n.t('analytics.noShifts')}</p>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload, FileJson, FileSpreadsheet, CalendarDays, AlertCircle } from 'lucide-react';
+import { Project, PunchEntry, TimeSettings, WorkDay } from '../types';
+import {
+  DateRange, downloadFile, exportPunches, exportWorkDays, exportSessionsCalendar, exportProjectHours
+} from '../services/timesheetExport';
+import { ImportPreview, previewImport } from '../services/timesheetImport';
+import { formatPunchType } from '../services/punchAudit';
+import { Localizer } from '../services/i18n';
+import { addDays, getDayKey } from '../services/timeEngine';
+
+interface DataTransferPanelProps {
+  punches: PunchEntry[]; // Including deleted ones, for full JSON backups
+  workDays: WorkDay[];
+  timeSettings: TimeSettings;
+  projects: Project[];
+  i18n: Localizer;
+  onImport: (preview: ImportPreview) => void;
+}
+
+const inputClass = 'mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+export const DataTransferPanel: React.FC<DataTransferPanelProps> = ({ punches, workDays, timeSettings, projects, i18n, onImport }) => {
+  const today = getDayKey(Date.now(), timeSettings);
+  const [range, setRange] = useState<DateRange>({ start: addDays(today, -29), end: today });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setPreview(previewImport(file.name, await file.text(), punches, i18n));
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const exportButton = (label: string, icon: React.ReactNode, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      disabled={range.start > range.end}
+      className="flex items-center gap-2 px-4 py-2 rounded-xl border border-slate-200 text-sm font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="font-bold text-slate-800 mb-1">{i18n.t('transfer.title')}</h3>
+      <p className="text-sm text-slate-500 mb-6">
+        {i18n.t('transfer.description')}
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 max-w-md mb-4">
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('transfer.from')}</span>
+          <input type="date" value={range.start} max={range.end}
+            onChange={e => e.target.value && setRange({ ...range, start: e.target.value })} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('transfer.to')}</span>
+          <input type="date" value={range.end} min={range.start}
+            onChange={e => e.target.value && setRange({ ...range, end: e.target.value })} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-8">
+        {exportButton(i18n.t('transfer.punchesCsv'), <FileSpreadsheet className="w-4 h-4" />, () => downloadFile(exportPunches(punches, timeSettings, range, 'csv')))}
+        {exportButton(i18n.t('transfer.punchesJson'), <FileJson className="w-4 h-4" />, () => downloadFile(exportPunches(punches, timeSettings, range, 'json')))}
+        {exportButton(i18n.t('transfer.dailyCsv'), <FileSpreadsheet className="w-4 h-4" />, () => downloadFile(exportWorkDays(workDays, range, 'csv')))}
+        {exportButton(i18n.t('transfer.dailyJson'), <FileJson className="w-4 h-4" />, () => downloadFile(exportWorkDays(workDays, range, 'json')))}
+        {exportButton(i18n.t('transfer.projectsCsv'), <FileSpreadsheet className="w-4 h-4" />, () => downloadFile(exportProjectHours(punches, timeSettings, projects, range, 'csv', i18n)))}
+        {exportButton(i18n.t('transfer.sessionsIcs'), <CalendarDays className="w-4 h-4" />, () => downloadFile(exportSessionsCalendar(punches, timeSettings, range, i18n)))}
+      </div>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])}
+      />
+      {!preview && (
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all"
+        >
+          <Upload className="w-4 h-4" />
+          {i18n.t('transfer.import')}
+        </button>
+      )}
+
+      {preview && (
+        <div className="border border-slate-200 rounded-xl p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-semibold text-slate-900">{preview.fileName}</span>
+            <span className="px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 text-xs font-medium">{i18n.t('transfer.new', { count: preview.punches.length })}</span>
+            <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs font-medium">{i18n.t('transfer.duplicates', { count: preview.duplicates.length })}</span>
+            {preview.errors.length > 0 && (
+              <span className="px-2 py-0.5 rounded-full bg-rose-50 text-rose-700 text-xs font-medium">{i18n.t('transfer.invalid', { count: preview.errors.length })}</span>
+            )}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+              {preview.errors.map((err, i) => (
+                <li key={i} className="flex items-start gap-2 text-xs text-rose-600">
+                  <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                  {err.row > 0 ? i18n.t('transfer.row', { row: err.row, message: err.message }) : err.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {preview.punches.length > 0 && (
+            <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-lg">
+              <table className="w-full text-left text-xs">
+                <tbody className="divide-y divide-slate-100">
+                  {[...preview.punches].sort((a, b) => b.timestamp - a.timestamp).map(p => (
+                    <tr key={p.id}>
+                      <td className="px-3 py-1.5 text-slate-700">
+                        {i18n.formatDate(getDayKey(p.timestamp, timeSettings), { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </td>
+                      <td className="px-3 py-1.5 text-slate-700">{i18n.formatTime(p.timestamp, timeSettings.timeZone)}</td>
+                      <td className="px-3 py-1.5 text-slate-500">{formatPunchType(p, i18n)}{p.deleted && ` ${i18n.t('transfer.deleted')}`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setPreview(null)} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-50">
+              {i18n.t('app.cancel')}
+            </button>
+            <button
+              onClick={() => { onImport(preview); setPreview(null); }}
+              disabled={preview.punches.length === 0}
+              className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              {i18n.t(preview.punches.length === 1 ? 'transfer.merge.one' : 'transfer.merge.other', { count: preview.punches.length })}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
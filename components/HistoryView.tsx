@@ -0,0 +1,384 @@
+
+import React, { useMemo, useState } from 'react';
+import { Calendar, Plus, Pencil, ScrollText, ArrowLeft, AlertTriangle, Send, Check, X, Lock, MapPin, MapPinOff } from 'lucide-react';
+import { Project, PunchEntry, Timesheet, TimesheetStatus, UserProfile, WorkDay, WorkSite } from '../types';
+import { isEditedPunch, formatPunchType, isProjectPunch } from '../services/punchAudit';
+import { NO_PROJECT, getProjectLabel } from '../services/projects';
+import { PunchIssue } from '../services/punchValidation';
+import { findNearestSite, formatDistance, isOffSite } from '../services/geolocation';
+import { ScheduleException, describeException } from '../services/schedules';
+import { DayOff } from '../services/leave';
+import { TimesheetAction, getTimesheetStatus, isLockedStatus } from '../services/timesheets';
+import { addDays } from '../services/timeEngine';
+import { Localizer } from '../services/i18n';
+
+const STATUS_BADGES: Record<TimesheetStatus, string> = {
+  DRAFT: 'bg-slate-100 text-slate-600',
+  SUBMITTED: 'bg-sky-100 text-sky-800',
+  APPROVED: 'bg-emerald-100 text-emerald-800',
+  REJECTED: 'bg-rose-100 text-rose-800',
+};
+
+interface HistoryViewProps {
+  workDays: WorkDay[];
+  owner: UserProfile | null; // Set when viewing someone else's history
+  onBackToOwn: () => void;
+  timeZone: string;
+  i18n: Localizer;
+  getTargetHours: (date: string) => number; // Scheduled hours, or the standard day on weekdays without a schedule
+  deletedByDay: Record<string, PunchEntry[]>;
+  issuesByDay: Record<string, PunchIssue[]>;
+  exceptionsByDay: Record<string, ScheduleException[]>;
+  daysOffByDay: Record<string, DayOff[]>; // Holidays and approved leave
+  projects: Project[];
+  sites: WorkSite[];
+  projectHoursByDay: Record<string, Record<string, number>>;
+  onFixIssue: (issue: PunchIssue) => void;
+  profiles: UserProfile[];
+  timesheets: Timesheet[]; // The owner's
+  getWeekStart: (date: string) => string;
+  canSubmit: boolean;
+  canApprove: boolean;
+  getSubmitBlocker: (weekStart: string) => string | null;
+  onTimesheetAction: (weekStart: string, action: TimesheetAction, comment: string) => void;
+  onAddPunch: () => void;
+  onEditPunch: (punch: PunchEntry) => void;
+  onShowRevisions: (punch: PunchEntry) => void;
+}
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ workDays, owner, onBackToOwn, timeZone, i18n, getTargetHours, deletedByDay, issuesByDay, exceptionsByDay, daysOffByDay, projects, sites, projectHoursByDay, onFixIssue, profiles, timesheets, getWeekStart, canSubmit, canApprove, getSubmitBlocker, onTimesheetAction, onAddPunch, onEditPunch, onShowRevisions }) => {
+  // Days whose punches were all deleted still get a row so they can be restored,
+  // and so do scheduled days nobody showed up for and days off
+  const rows = useMemo(() => {
+    const known = new Set(workDays.map(d => d.date));
+    const extra = new Set([...Object.keys(deletedByDay), ...Object.keys(exceptionsByDay), ...Object.keys(daysOffByDay)]);
+    const emptied: WorkDay[] = [...extra]
+      .filter(date => !known.has(date))
+      .map(date => ({ date, punches: [], totalHours: 0, paidBreakHours: 0, unpaidBreakHours: 0, unaccountedHours: 0 }));
+    return [...workDays, ...emptied].sort((a, b) => b.date.localeCompare(a.date));
+  }, [workDays, deletedByDay, exceptionsByDay, daysOffByDay]);
+
+  // '' shows every day; NO_PROJECT shows days with untagged work
+  const [projectFilter, setProjectFilter] = useState('');
+  const projectHours = (date: string) => projectHoursByDay[date]?.[projectFilter] ?? 0;
+  const visibleRows = projectFilter
+    ? rows.filter(day => projectHours(day.date) > 0 ||
+      day.punches.some(p => isProjectPunch(p.type) && (p.projectId ?? NO_PROJECT) === projectFilter))
+    : rows;
+
+  const [expandedWeek, setExpandedWeek] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<{ weekStart: string; comment: string } | null>(null);
+
+  const flagged = useMemo(
+    () => new Set(Object.values(issuesByDay).flat().flatMap(issue => issue.punchIds)),
+    [issuesByDay]
+  );
+
+  const describeLocation = (p: PunchEntry) => {
+    if (!p.location) return p.locationFailure ? i18n.t(`location.failure.${p.locationFailure}`) : '';
+    const { latitude, longitude, accuracy } = p.location;
+    const nearest = findNearestSite(p.location, sites);
+    const where = nearest
+      ? i18n.t(isOffSite(p.location, sites) ? 'history.offSiteFrom' : 'history.distanceFrom', { distance: formatDistance(nearest.meters), site: nearest.site.name })
+      : '';
+    return [`${latitude.toFixed(5)}, ${longitude.toFixed(5)} (±${formatDistance(accuracy)})`, where].filter(Boolean).join('\n');
+  };
+
+  const renderPunch = (p: PunchEntry) => {
+    const edited = isEditedPunch(p) || p.manual;
+    return (
+      <span
+        key={p.id}
+        className={`inline-flex items-center gap-1 text-[10px] px-2 py-0.5 rounded border ${p.deleted ? 'bg-rose-50 text-rose-400 border-rose-100 line-through' : p.autoClosed ? 'bg-violet-50 text-violet-700 border-violet-200' : edited ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-slate-100 text-slate-600 border-slate-200'} ${flagged.has(p.id) && !p.deleted ? 'ring-1 ring-rose-400' : ''}`}
+      >
+        <button onClick={() => onEditPunch(p)} className="inline-flex items-center gap-1 hover:underline">
+          {formatPunchType(p, i18n)}{p.autoClosed && ` ${i18n.t('history.auto')}`}
+          {isProjectPunch(p.type) && p.projectId && <span title={p.task}> · {getProjectLabel(projects, p.projectId, i18n)}</span>}
+          : {i18n.formatTime(p.timestamp, timeZone)}
+          {!p.deleted && <Pencil className="w-2.5 h-2.5 opacity-50" />}
+        </button>
+        {(p.location || p.locationFailure) && (
+          <span title={describeLocation(p)}>
+            {p.location
+              ? <MapPin className={`w-3 h-3 ${isOffSite(p.location, sites) ? 'text-rose-500' : 'opacity-60'}`} />
+              : <MapPinOff className="w-3 h-3 opacity-60" />}
+          </span>
+        )}
+        {(edited || p.deleted || p.autoClosed) && (
+          <button onClick={() => onShowRevisions(p)} title={i18n.t('history.viewRevisions')} className="hover:text-slate-900">
+            <ScrollText className="w-3 h-3" />
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  const renderWeekHeader = (weekStart: string) => {
+    const sheet = timesheets.find(t => t.weekStart === weekStart);
+    const status = getTimesheetStatus(sheet);
+    const weekHours = rows
+      .filter(day => day.date >= weekStart && day.date <= addDays(weekStart, 6))
+      .reduce((acc, day) => acc + day.totalHours, 0);
+    const blocker = canSubmit && (status === 'DRAFT' || status === 'REJECTED') ? getSubmitBlocker(weekStart) : null;
+    const lastEvent = sheet?.history[sheet.history.length - 1];
+    const nameOf = (id: string) => profiles.find(p => p.id === id)?.name ?? i18n.t('app.removedProfile');
+    return (
+      <tr className="bg-slate-50/60">
+        <td colSpan={4} className="px-6 py-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+              {i18n.t('history.weekOf', { date: i18n.formatDate(weekStart, { month: 'short', day: 'numeric' }), hours: i18n.formatHours(weekHours) })}
+            </span>
+            <span className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[status]}`}>
+              {isLockedStatus(status) && <Lock className="w-3 h-3" />}
+              {i18n.t(`timesheet.${status}`)}
+            </span>
+            {status === 'REJECTED' && lastEvent?.comment && (
+              <span className="text-xs text-rose-700">"{lastEvent.comment}"</span>
+            )}
+            {sheet && (
+              <button
+                onClick={() => setExpandedWeek(expandedWeek === weekStart ? null : weekStart)}
+                title={i18n.t('history.statusHistory')}
+                className="text-slate-400 hover:text-slate-700"
+              >
+                <ScrollText className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <div className="ml-auto flex items-center gap-4">
+              {canSubmit && (status === 'DRAFT' || status === 'REJECTED') && (
+                <button
+                  onClick={() => onTimesheetAction(weekStart, 'SUBMIT', '')}
+                  disabled={!!blocker}
+                  title={blocker ?? i18n.t('history.submitHint')}
+                  className="flex items-center gap-1.5 text-sm font-semibold text-indigo-600 hover:text-indigo-700 disabled:opacity-40"
+                >
+                  <Send className="w-3.5 h-3.5" />
+                  {i18n.t(status === 'REJECTED' ? 'history.resubmit' : 'history.submit')}
+                </button>
+              )}
+              {canApprove && status === 'SUBMITTED' && rejecting?.weekStart !== weekStart && (
+                <>
+                  <button
+                    onClick={() => onTimesheetAction(weekStart, 'APPROVE', '')}
+                    className="flex items-center gap-1.5 text-sm font-semibold text-emerald-600 hover:text-emerald-700"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                    {i18n.t('history.approve')}
+                  </button>
+                  <button
+                    onClick={() => setRejecting({ weekStart, comment: '' })}
+                    className="flex items-center gap-1.5 text-sm font-semibold text-rose-600 hover:text-rose-700"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                    {i18n.t('history.reject')}
+                  </button>
+                </>
+              )}
+              {rejecting?.weekStart === weekStart && (
+                <div className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    value={rejecting.comment}
+                    onChange={e => setRejecting({ weekStart, comment: e.target.value })}
+                    placeholder={i18n.t('history.rejectPlaceholder')}
+                    className="text-sm bg-white border border-slate-200 rounded-lg px-3 py-1 w-64 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                  <button
+                    onClick={() => {
+                      onTimesheetAction(weekStart, 'REJECT', rejecting.comment);
+                      setRejecting(null);
+                    }}
+                    disabled={!rejecting.comment.trim()}
+                    className="text-sm font-semibold text-rose-600 hover:text-rose-700 disabled:opacity-40"
+                  >
+                    {i18n.t('history.reject')}
+                  </button>
+                  <button onClick={() => setRejecting(null)} className="text-sm font-semibold text-slate-400 hover:text-slate-600">
+                    {i18n.t('app.cancel')}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+          {sheet && expandedWeek === weekStart && (
+            <ul className="mt-2 space-y-1">
+              {sheet.history.map((event, i) => (
+                <li key={i} className="text-xs text-slate-500">
+                  <span className="font-semibold text-slate-700">{i18n.t(`timesheet.${event.status}`)}</span>
+                  {' '}{i18n.t('history.statusBy', { name: nameOf(event.by), at: new Date(event.at).toLocaleString(i18n.locale) })}
+                  {event.comment && <span className="text-slate-600"> · "{event.comment}"</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+        <div className="flex items-center gap-3">
+          {owner && (
+            <button onClick={onBackToOwn} title={i18n.t('history.back')} className="p-1 rounded-lg text-slate-400 hover:text-slate-900 hover:bg-slate-50">
+              <ArrowLeft className="w-4 h-4" />
+            </button>
+          )}
+          <h3 className="font-bold text-slate-800">{owner ? i18n.t('history.titleFor', { name: owner.name }) : i18n.t('history.title')}</h3>
+        </div>
+        <div className="flex items-center gap-4">
+          {projects.length > 0 && (
+            <select
+              value={projectFilter}
+              onChange={e => setProjectFilter(e.target.value)}
+              className="text-sm bg-slate-50 border-none rounded-lg focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">{i18n.t('history.allProjects')}</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.name}{project.archived ? ` ${i18n.t('history.archived')}` : ''}</option>
+              ))}
+              <option value={NO_PROJECT}>{i18n.t('punch.noProject')}</option>
+            </select>
+          )}
+          <button
+            onClick={onAddPunch}
+            className="flex items-center gap-1.5 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+          >
+            <Plus className="w-4 h-4" />
+            {i18n.t('history.addPunch')}
+          </button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('history.date')}</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('history.status')}</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('history.punches')}</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('history.totalHours')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visibleRows.map((day, index) => {
+              const weekStart = getWeekStart(day.date);
+              const startsWeek = index === 0 || getWeekStart(visibleRows[index - 1].date) !== weekStart;
+              const hasEdits = day.punches.some(p => isEditedPunch(p) || p.manual) || (deletedByDay[day.date]?.length ?? 0) > 0;
+              const autoClosed = day.punches.some(p => p.autoClosed);
+              const issues = issuesByDay[day.date] ?? [];
+              const hasErrors = issues.some(issue => issue.severity === 'error');
+              const exceptions = exceptionsByDay[day.date] ?? [];
+              const targetHours = getTargetHours(day.date);
+              const daysOff = daysOffByDay[day.date] ?? [];
+              // Leave and holidays count toward the day's target
+              const creditedHours = daysOff.reduce((acc, off) => acc + off.hours, 0);
+              const complete = day.totalHours + creditedHours >= targetHours;
+              return (
+                <React.Fragment key={day.date}>
+                  {startsWeek && renderWeekHeader(weekStart)}
+                  <tr className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center gap-3">
+                        <Calendar className="w-4 h-4 text-slate-400" />
+                        <span className="text-sm font-medium text-slate-900">
+                          {i18n.formatDate(day.date, { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        {targetHours > 0 && (day.punches.length > 0 || creditedHours > 0) && (
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${complete ? 'bg-emerald-100 text-emerald-800' : 'bg-slate-100 text-slate-800'}`}>
+                            {i18n.t(complete ? 'history.complete' : 'history.partial')}
+                          </span>
+                        )}
+                        {daysOff.map(off => (
+                          <span
+                            key={off.id}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${off.kind === 'HOLIDAY' ? 'bg-teal-100 text-teal-800' : 'bg-indigo-100 text-indigo-800'}`}
+                          >
+                            {off.leaveType ? i18n.t('history.leave', { type: i18n.t(`leave.${off.leaveType}`) }) : off.label}{off.hours > 0 && ` · ${i18n.formatHours(off.hours)}`}
+                          </span>
+                        ))}
+                        {exceptions.map(exception => (
+                          <span
+                            key={exception.id}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${exception.kind === 'NO_SHOW' ? 'bg-rose-100 text-rose-800' : exception.kind === 'UNSCHEDULED_WORK' ? 'bg-sky-100 text-sky-800' : 'bg-orange-100 text-orange-800'}`}
+                          >
+                            {describeException(exception, i18n)}
+                          </span>
+                        ))}
+                        {hasEdits && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                            {i18n.t('history.edited')}
+                          </span>
+                        )}
+                        {autoClosed && (
+                          <span
+                            title={i18n.t('history.autoClosedHint')}
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-violet-100 text-violet-800"
+                          >
+                            {i18n.t('history.autoClosed')}
+                          </span>
+                        )}
+                        {issues.length > 0 && (
+                          <span className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium ${hasErrors ? 'bg-rose-100 text-rose-800' : 'bg-amber-100 text-amber-800'}`}>
+                            <AlertTriangle className="w-3 h-3" />
+                            {i18n.t(issues.length === 1 ? 'history.issues.one' : 'history.issues.other', { count: issues.length })}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-2">
+                        {day.punches.map(renderPunch)}
+                        {(deletedByDay[day.date] ?? []).map(renderPunch)}
+                      </div>
+                      {issues.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {issues.map(issue => (
+                            <li key={issue.id} className={`text-xs ${issue.severity === 'error' ? 'text-rose-700' : 'text-amber-700'}`}>
+                              <span className="font-semibold">{issue.message}.</span>{' '}
+                              <span className="text-slate-500">{issue.suggestion}</span>{' '}
+                              <button onClick={() => onFixIssue(issue)} className="font-semibold text-indigo-600 hover:text-indigo-700 hover:underline">
+                                {i18n.t(issue.fix.action === 'ADD' ? 'history.fixAdd' : 'history.fixReview')}
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <span className="text-sm font-bold text-slate-900">{i18n.formatHours(projectFilter ? projectHours(day.date) : day.totalHours)}</span>
+                      {projectFilter && <p className="text-[10px] text-slate-400 mt-0.5">{i18n.t('history.ofTotal', { hours: i18n.formatHours(day.totalHours) })}</p>}
+                      {!projectFilter && exceptions.length > 0 && <p className="text-[10px] text-slate-400 mt-0.5">{i18n.t('history.scheduled', { hours: i18n.formatHours(targetHours) })}</p>}
+                      {day.unaccountedHours > 0 && (
+                        <p className="text-[10px] text-rose-500 mt-0.5">{i18n.t('history.notCounted', { hours: i18n.formatHours(day.unaccountedHours) })}</p>
+                      )}
+                      {(day.paidBreakHours > 0 || day.unpaidBreakHours > 0) && (
+                        <p className="text-[10px] text-slate-400 mt-0.5">
+                          {day.paidBreakHours > 0 && i18n.t('history.paidBreak', { hours: i18n.formatHours(day.paidBreakHours) })}
+                          {day.paidBreakHours > 0 && day.unpaidBreakHours > 0 && ' · '}
+                          {day.unpaidBreakHours > 0 && i18n.t('history.unpaidBreak', { hours: i18n.formatHours(day.unpaidBreakHours) })}
+                        </p>
+                      )}
+                    </td>
+                  </tr>
+                </React.Fragment>
+              );
+            })}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-6 py-12 text-center">
+                  <p className="text-slate-400">{i18n.t(projectFilter ? 'history.emptyProject' : 'history.empty')}</p>
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
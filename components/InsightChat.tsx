@@ -0,0 +1,145 @@
+
+import React, { useState } from 'react';
+import { MessageSquare, Send, ShieldCheck, Wrench } from 'lucide-react';
+import { ChatModelClient, ChatTurn, ToolCallRecord, askTimesheetQuestion } from '../services/timesheetChat';
+import { TimesheetQueryContext } from '../services/timesheetQueries';
+import { Localizer, MessageKey } from '../services/i18n';
+
+interface InsightChatProps {
+  client: ChatModelClient;
+  context: TimesheetQueryContext;
+  i18n: Localizer;
+  needsConsent: boolean; // Nothing can be asked until the user agrees to share data
+  onReviewSharing: () => void;
+}
+
+interface ChatEntry {
+  id: string;
+  question: string;
+  answer?: string;
+  toolCalls: ToolCallRecord[];
+  error?: string;
+}
+
+const EXAMPLE_QUESTIONS: MessageKey[] = ['chat.example.overtime', 'chat.example.latestStart', 'chat.example.longestDay'];
+
+const inputClass = 'flex-1 text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, value]) => `${key}: ${String(value)}`).join(', ');
+
+export const InsightChat: React.FC<InsightChatProps> = ({ client, context, i18n, needsConsent, onReviewSharing }) => {
+  const [entries, setEntries] = useState<ChatEntry[]>([]);
+  const [history, setHistory] = useState<ChatTurn[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const available = client.isAvailable();
+
+  const ask = async (question: string) => {
+    if (!question.trim() || isAsking) return;
+    const id = crypto.randomUUID();
+    setEntries(prev => [...prev, { id, question: question.trim(), toolCalls: [] }]);
+    setDraft('');
+    setIsAsking(true);
+    try {
+      const answer = await askTimesheetQuestion(client, history, question.trim(), context, i18n);
+      setHistory(answer.history);
+      setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, answer: answer.text, toolCalls: answer.toolCalls } : entry)));
+    } catch (e) {
+      console.error("Failed to answer question", e);
+      setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, error: e instanceof Error ? e.message : String(e) } : entry)));
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <MessageSquare className="w-5 h-5 text-slate-400" />
+        {i18n.t('chat.title')}
+      </h3>
+      <p className="text-sm text-slate-500 mb-6">
+        {i18n.t('chat.description')}
+      </p>
+
+      <div className="space-y-6 mb-6">
+        {entries.map(entry => (
+          <div key={entry.id} className="space-y-3">
+            <div className="flex justify-end">
+              <p className="max-w-[80%] bg-indigo-600 text-white text-sm px-4 py-2 rounded-2xl rounded-br-sm">{entry.question}</p>
+            </div>
+            <div className="max-w-[80%] space-y-2">
+              {entry.toolCalls.map((call, i) => (
+                <details key={i} className="text-xs bg-slate-50 border border-slate-100 rounded-xl px-3 py-2">
+                  <summary className={`cursor-pointer flex items-center gap-2 font-mono ${call.failed ? 'text-rose-600' : 'text-slate-600'}`}>
+                    <Wrench className="w-3.5 h-3.5" />
+                    {call.name}({formatArgs(call.args)})
+                  </summary>
+                  <pre className="mt-2 text-slate-600 whitespace-pre-wrap">{JSON.stringify(call.result, null, 2)}</pre>
+                </details>
+              ))}
+              {entry.answer && (
+                <p className="bg-slate-100 text-slate-800 text-sm px-4 py-2 rounded-2xl rounded-bl-sm">{entry.answer}</p>
+              )}
+              {entry.error && <p className="text-sm text-rose-600">{entry.error}</p>}
+              {!entry.answer && !entry.error && <p className="text-sm text-slate-400">{i18n.t('chat.lookingUp')}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {entries.length === 0 && !needsConsent && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {EXAMPLE_QUESTIONS.map(key => i18n.t(key)).map(question => (
+            <button
+              key={question}
+              onClick={() => ask(question)}
+              disabled={!available || isAsking}
+              className="text-sm px-3 py-1.5 rounded-full bg-indigo-50 text-indigo-600 hover:bg-indigo-100 disabled:opacity-50"
+            >
+              {question}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {needsConsent ? (
+        <div className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-xl border border-slate-100">
+          <p className="text-sm text-slate-600">{i18n.t('chat.needsConsent')}</p>
+          <button
+            onClick={onReviewSharing}
+            className="flex-shrink-0 flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            {i18n.t('chat.reviewSharing')}
+          </button>
+        </div>
+      ) : (
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            ask(draft);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            placeholder={i18n.t(available ? 'chat.placeholder' : 'chat.offline')}
+            disabled={!available}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!available || isAsking || !draft.trim()}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-xl font-semibold transition-all disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            {i18n.t('chat.ask')}
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,153 @@
+
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ArrowDownRight, ArrowUpRight, Columns2 } from 'lucide-react';
+import { InsightReport, TimeSettings } from '../types';
+import { compareRecommendations, formatReportRange } from '../services/insightHistory';
+import { Localizer } from '../services/i18n';
+import { getDayKey } from '../services/timeEngine';
+
+interface InsightHistoryProps {
+  reports: InsightReport[]; // One person's, newest first
+  selectedId: string | undefined;
+  settings: TimeSettings;
+  i18n: Localizer;
+  onSelect: (id: string) => void;
+}
+
+const formatCreated = (timestamp: number, settings: TimeSettings, i18n: Localizer) =>
+  `${i18n.formatDate(getDayKey(timestamp, settings), { month: 'short', day: 'numeric' })}, ${i18n.formatTime(timestamp, settings.timeZone)}`;
+
+interface ReportColumnProps {
+  report: InsightReport;
+  settings: TimeSettings;
+  i18n: Localizer;
+  highlighted: string[]; // Recommendations the other report doesn't have
+  tone: 'added' | 'dropped';
+}
+
+const ReportColumn: React.FC<ReportColumnProps> = ({ report, settings, i18n, highlighted, tone }) => (
+  <div className="space-y-4">
+    <div>
+      <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">{formatCreated(report.createdAt, settings, i18n)}</p>
+      <p className="text-sm text-slate-500">{formatReportRange(report, i18n.locale)} · {i18n.t(`insightSource.${report.source}`)}</p>
+    </div>
+    <p className="text-3xl font-bold text-indigo-600">{report.insight.productivityScore}</p>
+    <p className="text-sm text-slate-600 leading-relaxed">{report.insight.summary}</p>
+    <ul className="space-y-2">
+      {report.insight.recommendations.map((rec, i) => (
+        <li
+          key={i}
+          className={`text-sm p-3 rounded-xl border ${highlighted.includes(rec)
+            ? tone === 'added' ? 'bg-emerald-50 border-emerald-100 text-emerald-800' : 'bg-rose-50 border-rose-100 text-rose-800'
+            : 'bg-slate-50 border-slate-100 text-slate-700'}`}
+        >
+          {rec}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export const InsightHistory: React.FC<InsightHistoryProps> = ({ reports, selectedId, settings, i18n, onSelect }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Picking a third report replaces the first one picked
+  const toggleCompare = (id: string) =>
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)));
+
+  const compared = reports
+    .filter(r => compareIds.includes(r.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const changes = compared.length === 2 ? compareRecommendations(compared[0], compared[1]) : null;
+  const scoreChange = compared.length === 2
+    ? compared[1].insight.productivityScore - compared[0].insight.productivityScore
+    : 0;
+
+  const chartData = [...reports].reverse().map(r => ({
+    createdAt: r.createdAt,
+    score: r.insight.productivityScore,
+  }));
+
+  if (reports.length === 0) return null;
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+          <h3 className="font-bold text-slate-800 mb-1">{i18n.t('insightHistory.scoreTitle')}</h3>
+          <p className="text-sm text-slate-500 mb-6">{i18n.t('insightHistory.scoreHint')}</p>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis
+                  dataKey="createdAt"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 12, fill: '#94a3b8' }}
+                  tickFormatter={createdAt => i18n.formatDate(getDayKey(createdAt, settings), { month: 'short', day: 'numeric' })}
+                />
+                <YAxis domain={[0, 100]} axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                <Tooltip
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                  labelFormatter={createdAt => formatCreated(Number(createdAt), settings, i18n)}
+                />
+                <Line type="monotone" dataKey="score" name={i18n.t('insightHistory.score')} stroke="#4f46e5" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+          <h3 className="font-bold text-slate-800 mb-1">{i18n.t('insightHistory.pastTitle')}</h3>
+          <p className="text-sm text-slate-500 mb-6">{i18n.t('insightHistory.pastHint')}</p>
+          <ul className="divide-y divide-slate-100 max-h-56 overflow-y-auto">
+            {reports.map(r => (
+              <li key={r.id} className="flex items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(r.id)}
+                  onChange={() => toggleCompare(r.id)}
+                  title={i18n.t('insightHistory.compare')}
+                  className="rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                <button onClick={() => onSelect(r.id)} className="flex-1 flex items-center gap-3 text-left">
+                  <div className="flex-1">
+                    <p className={`text-sm font-semibold ${r.id === selectedId ? 'text-indigo-600' : 'text-slate-900'}`}>
+                      {formatCreated(r.createdAt, settings, i18n)}
+                    </p>
+                    <p className="text-xs text-slate-500">{formatReportRange(r, i18n.locale)}</p>
+                  </div>
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600">
+                    {i18n.t(`insightSource.${r.source}`)}
+                  </span>
+                  <span className="w-10 text-right font-bold text-slate-900">{r.insight.productivityScore}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+
+      {compared.length === 2 && changes && (
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+              <Columns2 className="w-5 h-5 text-slate-400" />
+              {i18n.t('insightHistory.comparison')}
+            </h3>
+            <span className={`flex items-center gap-1 text-sm font-semibold ${scoreChange >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+              {scoreChange >= 0 ? <ArrowUpRight className="w-4 h-4" /> : <ArrowDownRight className="w-4 h-4" />}
+              {i18n.t('insightHistory.points', { change: `${scoreChange > 0 ? '+' : ''}${scoreChange}` })}
+            </span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <ReportColumn report={compared[0]} settings={settings} i18n={i18n} highlighted={changes.dropped} tone="dropped" />
+            <ReportColumn report={compared[1]} settings={settings} i18n={i18n} highlighted={changes.added} tone="added" />
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
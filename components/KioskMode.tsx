@@ -0,0 +1,308 @@
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Clock, Delete, QrCode, LogIn, LogOut, Coffee, Play, Lock, X } from 'lucide-react';
+import { BreakCategory, KioskSettings, PunchStatus, PunchType, UserProfile } from '../types';
+import { QrScanner, isQrScanningSupported } from './QrScanner';
+import {
+  LockoutState, clearFailures, findProfileByBadge, findProfileByPin, hashExitCode,
+  isLockedOut, loadLockout, registerFailure, saveLockout
+} from '../services/kiosk';
+import { ALLOWED_PUNCHES } from '../services/timeEngine';
+import { Localizer, MessageKey } from '../services/i18n';
+
+interface KioskModeProps {
+  profiles: UserProfile[];
+  settings: KioskSettings;
+  timeZone: string;
+  i18n: Localizer;
+  getStatus: (userId: string) => PunchStatus;
+  onPunch: (userId: string, type: PunchType, breakCategory?: BreakCategory) => Promise<boolean>;
+  onExit: () => void;
+}
+
+type Stage =
+  | { kind: 'identify' }
+  | { kind: 'scan' }
+  | { kind: 'choose'; profile: UserProfile }
+  | { kind: 'done'; profile: UserProfile; status: PunchStatus }
+  | { kind: 'exit' };
+
+// The kiosk has no project picker; switching projects is done from the app
+type KioskPunchType = Exclude<PunchType, 'SWITCH'>;
+
+const ACTIONS: Record<KioskPunchType, { label: MessageKey; icon: React.ReactNode; className: string }> = {
+  IN: { label: 'punch.IN', icon: <LogIn className="w-8 h-8" />, className: 'bg-indigo-600 hover:bg-indigo-500' },
+  OUT: { label: 'punch.OUT', icon: <LogOut className="w-8 h-8" />, className: 'bg-rose-600 hover:bg-rose-500' },
+  BREAK_START: { label: 'kiosk.startBreak', icon: <Coffee className="w-8 h-8" />, className: 'bg-amber-500 hover:bg-amber-400' },
+  BREAK_END: { label: 'punch.endBreak', icon: <Play className="w-8 h-8" />, className: 'bg-emerald-600 hover:bg-emerald-500' },
+};
+
+// The status a punch leaves the employee in, before App state catches up
+const STATUS_AFTER: Record<PunchType, PunchStatus> = {
+  IN: 'PUNCHED_IN',
+  OUT: 'PUNCHED_OUT',
+  BREAK_START: 'ON_BREAK',
+  BREAK_END: 'PUNCHED_IN',
+  SWITCH: 'PUNCHED_IN',
+};
+
+// Unfinished identification is abandoned after this long
+const IDLE_RESET_MS = 20 * 1000;
+
+interface KeypadProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  disabled: boolean;
+  i18n: Localizer;
+}
+
+const Keypad: React.FC<KeypadProps> = ({ value, onChange, onSubmit, disabled, i18n }) => (
+  <div className="w-full max-w-xs">
+    <div className="flex justify-center gap-3 h-6 mb-8">
+      {Array.from({ length: Math.max(4, value.length) }, (_, i) => (
+        <span key={i} className={`w-4 h-4 rounded-full ${i < value.length ? 'bg-white' : 'bg-white/20'}`} />
+      ))}
+    </div>
+    <div className="grid grid-cols-3 gap-4">
+      {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(digit => (
+        <button
+          key={digit}
+          disabled={disabled || value.length >= 8}
+          onClick={() => onChange(value + digit)}
+          className="h-20 rounded-2xl bg-white/10 hover:bg-white/20 text-3xl font-semibold disabled:opacity-30"
+        >
+          {digit}
+        </button>
+      ))}
+      <button
+        disabled={disabled || value.length === 0}
+        onClick={() => onChange(value.slice(0, -1))}
+        className="h-20 rounded-2xl bg-white/5 hover:bg-white/10 flex items-center justify-center disabled:opacity-30"
+      >
+        <Delete className="w-7 h-7" />
+      </button>
+      <button
+        disabled={disabled || value.length >= 8}
+        onClick={() => onChange(value + '0')}
+        className="h-20 rounded-2xl bg-white/10 hover:bg-white/20 text-3xl font-semibold disabled:opacity-30"
+      >
+        0
+      </button>
+      <button
+        disabled={disabled || value.length < 4}
+        onClick={onSubmit}
+        className="h-20 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-lg font-bold disabled:opacity-30"
+      >
+        {i18n.t('kiosk.ok')}
+      </button>
+    </div>
+  </div>
+);
+
+export const KioskMode: React.FC<KioskModeProps> = ({ profiles, settings, timeZone, i18n, getStatus, onPunch, onExit }) => {
+  const [stage, setStage] = useState<Stage>({ kind: 'identify' });
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [lockout, setLockout] = useState<LockoutState>(loadLockout);
+  const [now, setNow] = useState(Date.now());
+
+  const locked = isLockedOut(lockout, now);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  const reset = useCallback(() => {
+    setStage({ kind: 'identify' });
+    setCode('');
+    setMessage(null);
+  }, []);
+
+  // Confirmations clear after `resetSeconds`, anything else after a longer idle period
+  useEffect(() => {
+    if (stage.kind === 'identify') return;
+    const delay = stage.kind === 'done' ? settings.resetSeconds * 1000 : IDLE_RESET_MS;
+    const timer = window.setTimeout(reset, delay);
+    return () => window.clearTimeout(timer);
+  }, [stage, code, settings.resetSeconds, reset]);
+
+  const updateLockout = (next: LockoutState) => {
+    setLockout(next);
+    saveLockout(next);
+  };
+
+  const fail = (text: MessageKey) => {
+    const next = registerFailure(lockout, settings);
+    updateLockout(next);
+    setCode('');
+    setMessage(i18n.t(next.lockedUntil ? 'kiosk.lockedOut' : text));
+  };
+
+  const submitPin = async () => {
+    if (locked) return;
+    const profile = await findProfileByPin(profiles, code);
+    if (!profile) {
+      fail('kiosk.wrongPin');
+      return;
+    }
+    updateLockout(clearFailures());
+    setCode('');
+    setMessage(null);
+    setStage({ kind: 'choose', profile });
+  };
+
+  const submitExitCode = async () => {
+    if (locked) return;
+    if (settings.exitCodeHash && await hashExitCode(code) === settings.exitCodeHash) {
+      updateLockout(clearFailures());
+      onExit();
+    } else {
+      fail('kiosk.wrongExitCode');
+    }
+  };
+
+  const handleScan = useCallback((payload: string) => {
+    const profile = findProfileByBadge(profiles, payload);
+    if (profile) {
+      setMessage(null);
+      setStage({ kind: 'choose', profile });
+    } else {
+      setMessage(i18n.t('kiosk.unknownBadge'));
+      setStage({ kind: 'identify' });
+    }
+  }, [profiles, i18n]);
+
+  const punch = async (profile: UserProfile, type: PunchType) => {
+    const accepted = await onPunch(profile.id, type, type === 'BREAK_START' ? 'UNPAID' : undefined);
+    if (accepted) {
+      setStage({ kind: 'done', profile, status: STATUS_AFTER[type] });
+    } else {
+      setMessage(i18n.t('kiosk.punchFailed'));
+      setStage({ kind: 'choose', profile });
+    }
+  };
+
+  const secondsLeft = lockout.lockedUntil ? Math.ceil((lockout.lockedUntil - now) / 1000) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900 text-white flex flex-col">
+      <header className="flex items-center justify-between p-6">
+        <div className="flex items-center gap-2">
+          <div className="bg-indigo-600 p-1.5 rounded-lg">
+            <Clock className="w-6 h-6 text-white" />
+          </div>
+          <span className="text-xl font-bold tracking-tight">{i18n.t('kiosk.title')}</span>
+        </div>
+        <div className="text-right">
+          <p className="text-3xl font-bold tabular-nums">
+            {i18n.formatTime(now, timeZone)}
+          </p>
+          <p className="text-sm text-slate-400">
+            {new Date(now).toLocaleDateString(i18n.locale, { weekday: 'long', month: 'long', day: 'numeric', timeZone })}
+          </p>
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center p-6 gap-8">
+        {stage.kind === 'identify' && (
+          <>
+            <h1 className="text-3xl font-bold">{i18n.t('kiosk.enterPin')}</h1>
+            {locked ? (
+              <div className="flex flex-col items-center gap-3 text-rose-300">
+                <Lock className="w-12 h-12" />
+                <p>{i18n.t('kiosk.lockedFor', { seconds: secondsLeft })}</p>
+              </div>
+            ) : (
+              <Keypad value={code} onChange={setCode} onSubmit={submitPin} disabled={locked} i18n={i18n} />
+            )}
+            {isQrScanningSupported() && !locked && (
+              <button
+                onClick={() => { setMessage(null); setStage({ kind: 'scan' }); }}
+                className="flex items-center gap-2 text-indigo-300 hover:text-white font-semibold"
+              >
+                <QrCode className="w-5 h-5" />
+                {i18n.t('kiosk.scanInstead')}
+              </button>
+            )}
+          </>
+        )}
+
+        {stage.kind === 'scan' && (
+          <>
+            <h1 className="text-3xl font-bold">{i18n.t('kiosk.holdBadge')}</h1>
+            <QrScanner onDetect={handleScan} i18n={i18n} />
+            <button onClick={reset} className="text-slate-400 hover:text-white font-semibold">{i18n.t('kiosk.pinInstead')}</button>
+          </>
+        )}
+
+        {stage.kind === 'choose' && (
+          <>
+            <div className="text-center">
+              <h1 className="text-4xl font-bold">{i18n.t('kiosk.hi', { name: stage.profile.name })}</h1>
+              <p className="text-slate-400 mt-2">{i18n.t(`kiosk.currently.${getStatus(stage.profile.id)}`)}</p>
+            </div>
+            <div className="flex flex-wrap justify-center gap-4">
+              {ALLOWED_PUNCHES[getStatus(stage.profile.id)].filter((type): type is KioskPunchType => type !== 'SWITCH').map(type => (
+                <button
+                  key={type}
+                  onClick={() => punch(stage.profile, type)}
+                  className={`flex flex-col items-center gap-3 w-48 py-8 rounded-3xl font-bold text-xl transition-all active:scale-95 ${ACTIONS[type].className}`}
+                >
+                  {ACTIONS[type].icon}
+                  {i18n.t(ACTIONS[type].label)}
+                </button>
+              ))}
+            </div>
+            <button onClick={reset} className="text-slate-400 hover:text-white font-semibold">{i18n.t('kiosk.notYou')}</button>
+          </>
+        )}
+
+        {stage.kind === 'done' && (
+          <div className="text-center animate-in zoom-in-95 duration-300">
+            <h1 className="text-4xl font-bold mb-4">{i18n.t('kiosk.thanks', { name: stage.profile.name })}</h1>
+            <p className="text-2xl text-slate-300">
+              {i18n.t('kiosk.nowStatus')} <span className="font-bold text-white">{i18n.t(`status.${stage.status}`)}</span>
+            </p>
+            <p className="text-slate-500 mt-8">{i18n.t('kiosk.recordedAt', { time: i18n.formatTime(now, timeZone) })}</p>
+          </div>
+        )}
+
+        {stage.kind === 'exit' && (
+          <>
+            <h1 className="text-3xl font-bold">{i18n.t('kiosk.exitCode')}</h1>
+            {locked ? (
+              <div className="flex flex-col items-center gap-3 text-rose-300">
+                <Lock className="w-12 h-12" />
+                <p>{i18n.t('kiosk.lockedFor', { seconds: secondsLeft })}</p>
+              </div>
+            ) : (
+              <Keypad value={code} onChange={setCode} onSubmit={submitExitCode} disabled={locked} i18n={i18n} />
+            )}
+            <button onClick={reset} className="text-slate-400 hover:text-white font-semibold">{i18n.t('kiosk.back')}</button>
+          </>
+        )}
+
+        {message && <p className="text-rose-300 font-medium">{message}</p>}
+      </main>
+
+      {stage.kind === 'identify' && (
+        <button
+          onClick={() => { setCode(''); setMessage(null); setStage({ kind: 'exit' }); }}
+          className="absolute bottom-4 right-4 p-2 text-slate-600 hover:text-slate-400"
+          title={i18n.t('kiosk.exit')}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      )}
+    </div>
+  );
+};
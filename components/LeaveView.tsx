@@ -0,0 +1,218 @@
+
+import React, { useState } from 'react';
+import { CalendarCheck, CalendarX, Send } from 'lucide-react';
+import { Holiday, LeaveRequest, LeaveStatus, LeaveType, UserProfile } from '../types';
+import {
+  LEAVE_TYPES, LeaveBalance, LeaveDraft, createLeaveRequest, decideLeaveRequest, findLeaveConflict
+} from '../services/leave';
+import { getInitials } from '../services/profiles';
+import { Localizer } from '../services/i18n';
+
+interface LeaveViewProps {
+  profile: UserProfile;
+  profiles: UserProfile[];
+  requests: LeaveRequest[]; // Everyone's
+  balances: LeaveBalance[]; // The active profile's
+  holidays: Holiday[];
+  today: string;
+  i18n: Localizer;
+  getLeaveHours: (userId: string, draft: LeaveDraft) => number;
+  onChange: (requests: LeaveRequest[]) => void;
+}
+
+const STATUS_BADGES: Record<LeaveStatus, string> = {
+  PENDING: 'bg-amber-100 text-amber-800',
+  APPROVED: 'bg-emerald-100 text-emerald-800',
+  DENIED: 'bg-rose-100 text-rose-800',
+  CANCELLED: 'bg-slate-100 text-slate-600',
+};
+
+const inputClass = 'mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const formatRange = (start: string, end: string, i18n: Localizer) => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  return start === end ? i18n.formatDate(start, options) : `${i18n.formatDate(start, options)} – ${i18n.formatDate(end, options)}`;
+};
+
+export const LeaveView: React.FC<LeaveViewProps> = ({ profile, profiles, requests, balances, holidays, today, i18n, getLeaveHours, onChange }) => {
+  const [type, setType] = useState<LeaveType>('VACATION');
+  const [start, setStart] = useState(today);
+  const [end, setEnd] = useState(today);
+  const [hoursPerDay, setHoursPerDay] = useState('');
+  const [note, setNote] = useState('');
+
+  const draft: LeaveDraft = {
+    type,
+    start,
+    end: end < start ? start : end,
+    hoursPerDay: hoursPerDay ? Math.max(0, parseFloat(hoursPerDay)) || null : null,
+    note,
+  };
+  const hours = start ? getLeaveHours(profile.id, draft) : 0;
+  const conflict = start ? findLeaveConflict(requests, profile.id, draft) : undefined;
+  const balance = balances.find(b => b.type === type);
+  const overdrawn = !!balance && hours > balance.available - balance.pending;
+
+  const own = requests.filter(r => r.userId === profile.id).sort((a, b) => b.start.localeCompare(a.start));
+  // Managers decide on everyone's requests but their own
+  const toDecide = profile.role === 'MANAGER'
+    ? requests.filter(r => r.status === 'PENDING' && r.userId !== profile.id).sort((a, b) => a.start.localeCompare(b.start))
+    : [];
+  const upcomingHolidays = holidays.filter(h => h.date >= today).slice(0, 6);
+
+  const submit = () => {
+    if (!start || conflict || hours <= 0) return;
+    onChange([...requests, createLeaveRequest(profile.id, draft)]);
+    setHoursPerDay('');
+    setNote('');
+  };
+
+  const decide = (id: string, status: Exclude<LeaveStatus, 'PENDING'>) =>
+    onChange(decideLeaveRequest(requests, id, status, profile.id));
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      {balances.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {balances.map(b => (
+            <div key={b.type} className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+              <p className="text-sm font-medium text-slate-500">{i18n.t(`leave.${b.type}`)}</p>
+              <h4 className={`text-2xl font-bold mt-1 ${b.available < 0 ? 'text-rose-600' : 'text-slate-900'}`}>{i18n.formatHours(b.available)}</h4>
+              <p className="text-xs text-slate-400 mt-2">
+                {i18n.t('leaveView.earnedUsed', { earned: i18n.formatHours(b.accrued), used: i18n.formatHours(b.used) })}
+                {b.booked > 0 && ` · ${i18n.t('leaveView.booked', { hours: i18n.formatHours(b.booked) })}`}
+                {b.pending > 0 && ` · ${i18n.t('leaveView.pending', { hours: i18n.formatHours(b.pending) })}`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('leaveView.requestTitle')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('leaveView.requestHint')}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('leaveView.type')}</span>
+            <select value={type} onChange={e => setType(e.target.value as LeaveType)} className={inputClass}>
+              {LEAVE_TYPES.map(t => <option key={t} value={t}>{i18n.t(`leave.${t}`)}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('leaveView.from')}</span>
+            <input type="date" value={start} onChange={e => setStart(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('leaveView.to')}</span>
+            <input type="date" value={draft.end} min={start} onChange={e => setEnd(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('leaveView.hoursPerDay')}</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={hoursPerDay}
+              placeholder={i18n.t('leaveView.fullDay')}
+              onChange={e => setHoursPerDay(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <label className="block mt-6">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('leaveView.note')}</span>
+          <input value={note} onChange={e => setNote(e.target.value)} className={inputClass} />
+        </label>
+        <div className="flex items-center justify-between gap-4 mt-6">
+          <p className={`text-sm ${conflict ? 'text-rose-600' : overdrawn ? 'text-amber-600' : 'text-slate-500'}`}>
+            {conflict
+              ? i18n.t(conflict.status === 'APPROVED' ? 'leaveView.conflictApproved' : 'leaveView.conflictPending', { range: formatRange(conflict.start, conflict.end, i18n) })
+              : hours <= 0
+                ? i18n.t('leaveView.noHours')
+                : i18n.t(overdrawn ? 'leaveView.hoursOverdrawn' : 'leaveView.hours', { hours: i18n.formatHours(hours), type: i18n.t(`leave.${type}`) })}
+          </p>
+          <button
+            onClick={submit}
+            disabled={!start || !!conflict || hours <= 0}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            {i18n.t('leaveView.request')}
+          </button>
+        </div>
+      </section>
+
+      {toDecide.length > 0 && (
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+          <h3 className="font-bold text-slate-800 mb-6">{i18n.t('leaveView.toDecide')}</h3>
+          <ul className="divide-y divide-slate-100">
+            {toDecide.map(r => {
+              const requester = profiles.find(p => p.id === r.userId);
+              return (
+                <li key={r.id} className="flex items-center gap-3 py-3">
+                  <div className="w-9 h-9 rounded-full bg-slate-100 text-slate-600 flex items-center justify-center text-sm font-semibold">
+                    {getInitials(requester?.name ?? '?')}
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-semibold text-slate-900">
+                      {requester?.name ?? i18n.t('app.removedProfile')} · {i18n.t(`leave.${r.type}`)} · {i18n.formatHours(getLeaveHours(r.userId, r))}
+                    </p>
+                    <p className="text-xs text-slate-500">{formatRange(r.start, r.end, i18n)}{r.note && ` · ${r.note}`}</p>
+                  </div>
+                  <button onClick={() => decide(r.id, 'APPROVED')} className="flex items-center gap-1 text-sm font-semibold text-emerald-600 hover:text-emerald-700">
+                    <CalendarCheck className="w-4 h-4" />
+                    {i18n.t('leaveView.approve')}
+                  </button>
+                  <button onClick={() => decide(r.id, 'DENIED')} className="flex items-center gap-1 text-sm font-semibold text-rose-600 hover:text-rose-700">
+                    <CalendarX className="w-4 h-4" />
+                    {i18n.t('leaveView.deny')}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <section className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+          <h3 className="font-bold text-slate-800 mb-6">{i18n.t('leaveView.mine')}</h3>
+          <ul className="divide-y divide-slate-100">
+            {own.map(r => (
+              <li key={r.id} className="flex items-center gap-3 py-3">
+                <div className="flex-1">
+                  <p className="text-sm font-semibold text-slate-900">{i18n.t(`leave.${r.type}`)} · {i18n.formatHours(getLeaveHours(r.userId, r))}</p>
+                  <p className="text-xs text-slate-500">{formatRange(r.start, r.end, i18n)}{r.note && ` · ${r.note}`}</p>
+                </div>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[r.status]}`}>
+                  {i18n.t(`leaveStatus.${r.status}`)}
+                </span>
+                {(r.status === 'PENDING' || (r.status === 'APPROVED' && r.start > today)) && (
+                  <button onClick={() => decide(r.id, 'CANCELLED')} className="text-sm font-semibold text-slate-400 hover:text-rose-600">
+                    {i18n.t('app.cancel')}
+                  </button>
+                )}
+              </li>
+            ))}
+            {own.length === 0 && <p className="text-sm text-slate-400">{i18n.t('leaveView.noRequests')}</p>}
+          </ul>
+        </section>
+
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+          <h3 className="font-bold text-slate-800 mb-6">{i18n.t('leaveView.holidays')}</h3>
+          <ul className="space-y-3">
+            {upcomingHolidays.map(h => (
+              <li key={h.id} className="flex items-center justify-between text-sm">
+                <span className="font-semibold text-slate-900">{h.name}</span>
+                <span className="text-slate-500">{i18n.formatDate(h.date, { weekday: 'short', month: 'short', day: 'numeric' })}</span>
+              </li>
+            ))}
+            {upcomingHolidays.length === 0 && <p className="text-sm text-slate-400">{i18n.t('leaveView.noHolidays')}</p>}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+};
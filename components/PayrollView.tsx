@@ -0,0 +1,139 @@
+
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Clock, Flame, Zap, Wallet, AlertTriangle } from 'lucide-react';
+import { PayRules, Timesheet, WorkDay } from '../types';
+import { StatCard } from './StatCard';
+import { computePayrollSummary, formatCurrency, getPayPeriod, getWorkweekStart, shiftPayPeriod } from '../services/payRules';
+import { addDays } from '../services/timeEngine';
+import { Localizer } from '../services/i18n';
+
+interface PayrollViewProps {
+  workDays: WorkDay[]; // Built from rounded punches
+  rules: PayRules;
+  timesheets: Timesheet[]; // The same person's
+  today: string;
+  i18n: Localizer;
+}
+
+export const PayrollView: React.FC<PayrollViewProps> = ({ workDays, rules, timesheets, today, i18n }) => {
+  const [period, setPeriod] = useState(() => getPayPeriod(today, rules));
+
+  // Re-anchor when the period type changes under us
+  const activePeriod = useMemo(() => {
+    const aligned = getPayPeriod(period.start, rules);
+    return aligned.start === period.start && aligned.end === period.end ? period : aligned;
+  }, [period, rules]);
+
+  const summary = useMemo(
+    () => computePayrollSummary(workDays, rules, activePeriod),
+    [workDays, rules, activePeriod]
+  );
+  const money = (amount: number) => formatCurrency(amount, rules.currency);
+  const formatShortDate = (dateKey: string) => i18n.formatDate(dateKey, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  // Workweeks of the period with worked hours that haven't been signed off yet
+  const unapprovedWeeks = useMemo(() => {
+    const weeks = new Set(summary.days.filter(d => d.workedHours > 0).map(d => getWorkweekStart(d.date, rules)));
+    return [...weeks].filter(weekStart => !timesheets.some(t => t.weekStart === weekStart && t.status === 'APPROVED'));
+  }, [summary, rules, timesheets]);
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between bg-white p-4 rounded-2xl shadow-sm border border-slate-200">
+        <button
+          onClick={() => setPeriod(shiftPayPeriod(activePeriod, -1, rules))}
+          className="p-2 rounded-lg text-slate-500 hover:bg-slate-50 hover:text-slate-900"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <div className="text-center">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('payroll.period')}</p>
+          <p className="font-semibold text-slate-900">
+            {formatShortDate(summary.periodStart)} – {formatShortDate(summary.periodEnd)}
+          </p>
+        </div>
+        <button
+          onClick={() => setPeriod(shiftPayPeriod(activePeriod, 1, rules))}
+          disabled={activePeriod.end >= today}
+          className="p-2 rounded-lg text-slate-500 hover:bg-slate-50 hover:text-slate-900 disabled:opacity-30"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      {unapprovedWeeks.length > 0 && (
+        <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 p-4 rounded-2xl">
+          <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-900">
+            <span className="font-semibold">{i18n.t('payroll.unapproved')}</span>{' '}
+            {i18n.t('payroll.unapprovedWeeks', {
+              weeks: unapprovedWeeks.map(weekStart => `${formatShortDate(weekStart)} – ${formatShortDate(addDays(weekStart, 6))}`).join(', '),
+            })}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard label={i18n.t('payroll.regular')} value={i18n.formatHours(summary.regularHours)} icon={<Clock className="w-5 h-5" />} />
+        <StatCard label={i18n.t('payroll.overtimeRate', { multiplier: rules.overtimeMultiplier })} value={i18n.formatHours(summary.overtimeHours)} icon={<Flame className="w-5 h-5" />} />
+        <StatCard label={i18n.t('payroll.doubleTimeRate', { multiplier: rules.doubleTimeMultiplier })} value={i18n.formatHours(summary.doubleTimeHours)} icon={<Zap className="w-5 h-5" />} />
+        <StatCard label={i18n.t('payroll.grossPay')} value={money(summary.grossPay)} icon={<Wallet className="w-5 h-5" />} />
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('history.date')}</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('payroll.worked')}</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('payroll.regular')}</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('payroll.overtime')}</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('payroll.doubleTime')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {summary.days.map(day => (
+                <tr key={day.date} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                    {i18n.formatDate(day.date, { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-slate-600">{i18n.formatHours(day.workedHours)}</td>
+                  <td className="px-6 py-4 text-right text-sm text-slate-600">{i18n.formatHours(day.regularHours)}</td>
+                  <td className={`px-6 py-4 text-right text-sm ${day.overtimeHours > 0 ? 'font-semibold text-amber-600' : 'text-slate-400'}`}>{i18n.formatHours(day.overtimeHours)}</td>
+                  <td className={`px-6 py-4 text-right text-sm ${day.doubleTimeHours > 0 ? 'font-semibold text-rose-600' : 'text-slate-400'}`}>{i18n.formatHours(day.doubleTimeHours)}</td>
+                </tr>
+              ))}
+              {summary.days.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center">
+                    <p className="text-slate-400">{i18n.t('payroll.empty')}</p>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+            {summary.days.length > 0 && (
+              <tfoot className="bg-slate-50 border-t border-slate-200">
+                <tr>
+                  <td className="px-6 py-4 text-sm font-bold text-slate-900">{i18n.t('payroll.pay')}</td>
+                  <td className="px-6 py-4 text-right text-sm text-slate-500">{money(rules.hourlyRate)}/h</td>
+                  <td className="px-6 py-4 text-right text-sm font-semibold text-slate-900">{money(summary.regularPay)}</td>
+                  <td className="px-6 py-4 text-right text-sm font-semibold text-slate-900">{money(summary.overtimePay)}</td>
+                  <td className="px-6 py-4 text-right text-sm font-semibold text-slate-900">{money(summary.doubleTimePay)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {rules.roundingIncrement > 0 && (
+        <p className="text-xs text-slate-400">
+          {rules.roundingGraceMinutes > 0
+            ? i18n.t('payroll.roundingGrace', { increment: rules.roundingIncrement, grace: rules.roundingGraceMinutes })
+            : i18n.t('payroll.rounding', { increment: rules.roundingIncrement })}
+        </p>
+      )}
+    </div>
+  );
+};
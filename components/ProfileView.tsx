@@ -0,0 +1,271 @@
+
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { UserPlus, Trash2, Check, KeyRound, QrCode, CalendarClock, MapPin } from 'lucide-react';
+import { UserProfile, UserRole } from '../types';
+import { createProfile, getInitials } from '../services/profiles';
+import { createBadgeToken, findProfileByPin, getBadgePayload, hashPin, isValidPin } from '../services/kiosk';
+import { Localizer } from '../services/i18n';
+import { ScheduleEditor } from './ScheduleEditor';
+
+interface ProfileViewProps {
+  profiles: UserProfile[];
+  activeUserId: string;
+  punchCounts: Record<string, number>;
+  today: string;
+  i18n: Localizer;
+  onSwitch: (id: string) => void;
+  onChange: (profiles: UserProfile[]) => void;
+}
+
+const inputClass = 'mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// <input type="date"> values are calendar dates in the viewer's zone
+const toDateInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+export const ProfileView: React.FC<ProfileViewProps> = ({ profiles, activeUserId, punchCounts, today, i18n, onSwitch, onChange }) => {
+  const [newName, setNewName] = useState('');
+  const [newEmail, setNewEmail] = useState('');
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [badgeImage, setBadgeImage] = useState<string | null>(null);
+  const active = profiles.find(p => p.id === activeUserId);
+  const badgePayload = active ? getBadgePayload(active) : null;
+
+  useEffect(() => {
+    setPin('');
+    setPinError(null);
+  }, [activeUserId]);
+
+  useEffect(() => {
+    setBadgeImage(null);
+    if (!badgePayload) return;
+    let cancelled = false;
+    QRCode.toDataURL(badgePayload, { width: 240, margin: 1 })
+      .then(url => !cancelled && setBadgeImage(url))
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [badgePayload]);
+
+  const updateActive = (changes: Partial<UserProfile>) =>
+    onChange(profiles.map(p => (p.id === activeUserId ? { ...p, ...changes } : p)));
+
+  // Kiosks identify people by PIN alone, so two profiles can't share one
+  const savePin = async () => {
+    if (!active || !isValidPin(pin)) return;
+    if (await findProfileByPin(profiles.filter(p => p.id !== active.id), pin)) {
+      setPinError(i18n.t('profile.pinTaken'));
+      return;
+    }
+    updateActive({ pinHash: await hashPin(pin, active) });
+    setPin('');
+    setPinError(null);
+  };
+
+  const addProfile = () => {
+    if (!newName.trim()) return;
+    onChange([...profiles, createProfile(newName, i18n, newEmail)]);
+    setNewName('');
+    setNewEmail('');
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      {active && (
+        <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-14 h-14 rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center text-lg font-bold">
+              {getInitials(active.name)}
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-900 text-lg">{active.name}</h3>
+              <p className="text-sm text-slate-500">{active.email || i18n.t('profile.noEmail')}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <label className="block">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('profile.name')}</span>
+              <input value={active.name} onChange={e => updateActive({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('profile.email')}</span>
+              <input type="email" value={active.email} onChange={e => updateActive({ email: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('profile.joined')}</span>
+              <input
+                type="date"
+                value={toDateInput(active.joinedAt)}
+                onChange={e => e.target.value && updateActive({ joinedAt: fromDateInput(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('profile.role')}</span>
+              <select
+                value={active.role}
+                onChange={e => updateActive({ role: e.target.value as UserRole })}
+                className={inputClass}
+              >
+                <option value="EMPLOYEE">{i18n.t('role.EMPLOYEE')}</option>
+                <option value="MANAGER">{i18n.t('role.MANAGER')}</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-3 text-sm font-medium text-slate-700 md:col-span-2">
+              <input
+                type="checkbox"
+                checked={!!active.requiresLocation}
+                onChange={e => updateActive({ requiresLocation: e.target.checked })}
+                className="rounded text-indigo-600 focus:ring-indigo-500"
+              />
+              <MapPin className="w-4 h-4 text-slate-400" />
+              {i18n.t('profile.requiresLocation')}
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-8 pt-6 border-t border-slate-100">
+            <div>
+              <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+                <KeyRound className="w-4 h-4" />
+                {i18n.t('profile.pin')}
+              </span>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={pin}
+                  placeholder={i18n.t(active.pinHash ? 'profile.pinSet' : 'profile.pinHint')}
+                  onChange={e => { setPin(e.target.value.replace(/\D/g, '').slice(0, 8)); setPinError(null); }}
+                  className={inputClass}
+                />
+                <button
+                  onClick={savePin}
+                  disabled={!isValidPin(pin)}
+                  className="mt-1 px-2 text-sm font-semibold text-indigo-600 hover:text-indigo-700 disabled:opacity-40"
+                >
+                  {i18n.t('app.save')}
+                </button>
+              </div>
+              {pinError && <p className="mt-1 text-xs text-rose-600">{pinError}</p>}
+              {active.pinHash && !pinError && (
+                <button
+                  onClick={() => updateActive({ pinHash: undefined })}
+                  className="mt-2 text-xs font-semibold text-slate-400 hover:text-rose-600"
+                >
+                  {i18n.t('profile.removePin')}
+                </button>
+              )}
+            </div>
+
+            <div>
+              <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+                <QrCode className="w-4 h-4" />
+                {i18n.t('profile.badge')}
+              </span>
+              {badgeImage && (
+                <img src={badgeImage} alt={i18n.t('profile.badgeAlt', { name: active.name })} className="mt-2 w-32 h-32 rounded-lg border border-slate-200" />
+              )}
+              <div className="flex gap-4 mt-2">
+                <button
+                  onClick={() => updateActive({ badgeToken: createBadgeToken() })}
+                  className="text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+                >
+                  {i18n.t(active.badgeToken ? 'profile.replaceBadge' : 'profile.createBadge')}
+                </button>
+                {badgeImage && (
+                  <a href={badgeImage} download={`${active.name || 'badge'}-badge.png`} className="text-sm font-semibold text-slate-500 hover:text-slate-700">
+                    {i18n.t('profile.download')}
+                  </a>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-slate-400">{i18n.t('profile.replaceHint')}</p>
+            </div>
+          </div>
+
+          <div className="mt-8 pt-6 border-t border-slate-100">
+            <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider mb-4">
+              <CalendarClock className="w-4 h-4" />
+              {i18n.t('profile.schedule')}
+            </span>
+            <ScheduleEditor key={active.id} schedule={active.schedule} today={today} i18n={i18n} onChange={schedule => updateActive({ schedule })} />
+          </div>
+        </section>
+      )}
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('profile.listTitle')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('profile.listHint')}
+        </p>
+
+        <ul className="divide-y divide-slate-100 mb-6">
+          {profiles.map(profile => {
+            const count = punchCounts[profile.id] ?? 0;
+            const isActive = profile.id === activeUserId;
+            return (
+              <li key={profile.id} className="flex items-center gap-3 py-3">
+                <div className="w-9 h-9 rounded-full bg-slate-100 text-slate-600 flex items-center justify-center text-sm font-semibold">
+                  {getInitials(profile.name)}
+                </div>
+                <div className="flex-1">
+                  <p className="text-sm font-semibold text-slate-900">{profile.name}</p>
+                  <p className="text-xs text-slate-500">{i18n.t(count === 1 ? 'profile.punches.one' : 'profile.punches.other', { count })}</p>
+                </div>
+                {isActive ? (
+                  <span className="flex items-center gap-1 text-xs font-semibold text-emerald-600">
+                    <Check className="w-4 h-4" />
+                    {i18n.t('profile.active')}
+                  </span>
+                ) : (
+                  <>
+                    <button onClick={() => onSwitch(profile.id)} className="text-sm font-semibold text-indigo-600 hover:text-indigo-700">
+                      {i18n.t('profile.switch')}
+                    </button>
+                    <button
+                      onClick={() => onChange(profiles.filter(p => p.id !== profile.id))}
+                      disabled={count > 0}
+                      title={i18n.t(count > 0 ? 'profile.cannotRemove' : 'profile.remove')}
+                      className="p-1 text-slate-400 hover:text-rose-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('profile.name')}</span>
+            <input value={newName} onChange={e => setNewName(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('profile.email')}</span>
+            <input type="email" value={newEmail} onChange={e => setNewEmail(e.target.value)} className={inputClass} />
+          </label>
+          <button
+            onClick={addProfile}
+            disabled={!newName.trim()}
+            className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all disabled:opacity-50"
+          >
+            <UserPlus className="w-4 h-4" />
+            {i18n.t('profile.add')}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
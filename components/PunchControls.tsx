@@ -0,0 +1,130 @@
+
+import React, { useEffect, useState } from 'react';
+import { LogIn, LogOut, Coffee, Play, ArrowRightLeft } from 'lucide-react';
+import { BreakCategory, Project, PunchStatus, PunchType } from '../types';
+import { PunchDraft } from '../services/punchAudit';
+import { Localizer } from '../services/i18n';
+
+export type PunchTag = Pick<PunchDraft, 'projectId' | 'task'>;
+
+interface PunchControlsProps {
+  status: PunchStatus;
+  projects: Project[]; // Only the ones that can still be picked
+  current: PunchTag; // The open session's project and task, or the last ones used
+  i18n: Localizer;
+  disabled: boolean; // Until the punch store has opened, when a punch couldn't be saved
+  onPunch: (type: PunchType, breakCategory?: BreakCategory, tag?: PunchTag) => void;
+}
+
+export const PunchControls: React.FC<PunchControlsProps> = ({ status, projects, current, i18n, disabled, onPunch }) => {
+  const [breakCategory, setBreakCategory] = useState<BreakCategory>('UNPAID');
+  const [projectId, setProjectId] = useState(current.projectId ?? '');
+  const [task, setTask] = useState(current.task ?? '');
+
+  // Follow the open session, e.g. after a switch made in another tab
+  useEffect(() => {
+    setProjectId(current.projectId ?? '');
+    setTask(current.task ?? '');
+  }, [current.projectId, current.task]);
+
+  // An archived project can't be picked again
+  const selected = projects.some(p => p.id === projectId) ? projectId : '';
+  const tag: PunchTag = { projectId: selected || undefined, task: task.trim() || undefined };
+  const title = disabled ? i18n.t('punch.unavailable') : undefined;
+  const changed = (tag.projectId ?? '') !== (current.projectId ?? '') || (tag.task ?? '') !== (current.task ?? '');
+
+  const projectPicker = projects.length > 0 && status !== 'ON_BREAK' && (
+    <div className="flex items-center bg-white border border-slate-200 rounded-xl shadow-sm">
+      <select
+        value={selected}
+        onChange={e => setProjectId(e.target.value)}
+        className="text-sm bg-transparent border-none rounded-l-xl pl-3 py-3 text-slate-600 max-w-[10rem] focus:ring-2 focus:ring-indigo-500"
+      >
+        <option value="">{i18n.t('punch.noProject')}</option>
+        {projects.map(project => (
+          <option key={project.id} value={project.id}>{project.name}</option>
+        ))}
+      </select>
+      <input
+        value={task}
+        onChange={e => setTask(e.target.value)}
+        placeholder={i18n.t('punch.task')}
+        className="text-sm bg-transparent border-none border-l border-slate-200 px-3 py-3 w-36 text-slate-600 focus:ring-2 focus:ring-indigo-500"
+      />
+      {status === 'PUNCHED_IN' && (
+        <button
+          onClick={() => onPunch('SWITCH', undefined, tag)}
+          disabled={disabled || !changed}
+          title={title ?? i18n.t('punch.switchHint')}
+          className="flex items-center gap-2 text-indigo-600 hover:bg-indigo-50 px-4 py-3 rounded-r-xl font-semibold transition-all active:scale-95 disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          <ArrowRightLeft className="w-5 h-5" />
+          {i18n.t('punch.switch')}
+        </button>
+      )}
+    </div>
+  );
+
+  if (status === 'PUNCHED_OUT') {
+    return (
+      <>
+        {projectPicker}
+        <button
+          onClick={() => onPunch('IN', undefined, tag)}
+          disabled={disabled}
+          title={title}
+          className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-xl font-semibold shadow-lg shadow-indigo-200 transition-all active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          <LogIn className="w-5 h-5" />
+          {i18n.t('punch.IN')}
+        </button>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {projectPicker}
+      {status === 'ON_BREAK' ? (
+        <button
+          onClick={() => onPunch('BREAK_END')}
+          disabled={disabled}
+          title={title}
+          className="flex items-center gap-2 bg-amber-500 hover:bg-amber-600 text-white px-6 py-3 rounded-xl font-semibold shadow-lg shadow-amber-200 transition-all active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          <Play className="w-5 h-5" />
+          {i18n.t('punch.endBreak')}
+        </button>
+      ) : (
+        <div className="flex items-center bg-white border border-slate-200 rounded-xl shadow-sm">
+          <select
+            value={breakCategory}
+            onChange={e => setBreakCategory(e.target.value as BreakCategory)}
+            className="text-sm bg-transparent border-none rounded-l-xl pl-3 py-3 text-slate-600 focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="UNPAID">{i18n.t('punch.unpaidBreak')}</option>
+            <option value="PAID">{i18n.t('punch.paidBreak')}</option>
+          </select>
+          <button
+            onClick={() => onPunch('BREAK_START', breakCategory)}
+            disabled={disabled}
+            title={title}
+            className="flex items-center gap-2 text-amber-600 hover:bg-amber-50 px-4 py-3 rounded-r-xl font-semibold transition-all active:scale-95 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <Coffee className="w-5 h-5" />
+            {i18n.t('punch.break')}
+          </button>
+        </div>
+      )}
+      <button
+        onClick={() => onPunch('OUT')}
+        disabled={disabled}
+        title={title}
+        className="flex items-center gap-2 bg-rose-600 hover:bg-rose-700 text-white px-6 py-3 rounded-xl font-semibold shadow-lg shadow-rose-200 transition-all active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
+      >
+        <LogOut className="w-5 h-5" />
+        {i18n.t('punch.OUT')}
+      </button>
+    </>
+  );
+};
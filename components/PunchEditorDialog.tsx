@@ -0,0 +1,185 @@
+
+import React, { useState } from 'react';
+import { X, Trash2, RotateCcw, Lock } from 'lucide-react';
+import { BreakCategory, Project, PunchEntry, PunchType } from '../types';
+import { PunchDraft, PUNCH_TYPES, isProjectPunch } from '../services/punchAudit';
+import { Localizer } from '../services/i18n';
+import { getZonedParts, zonedTimeToTimestamp } from '../services/timeEngine';
+
+interface PunchEditorDialogProps {
+  punch?: PunchEntry; // Omitted when adding a new punch
+  draft?: PunchDraft; // Pre-fills a new punch, e.g. a suggested fix
+  timeZone: string;
+  projects: Project[];
+  i18n: Localizer;
+  getLockMessage: (timestamp: number) => string | null; // Set for times inside a submitted or approved week
+  onSave: (draft: PunchDraft, reason: string) => void;
+  onDelete: (reason: string) => void;
+  onRestore: (reason: string) => void;
+  onClose: () => void;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// <input type="datetime-local"> holds wall-clock time, read in the configured zone
+const toInputValue = (timestamp: number, timeZone: string) => {
+  const p = getZonedParts(timestamp, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+const fromInputValue = (value: string, timeZone: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return NaN;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return zonedTimeToTimestamp(year, month, day, hour, minute, timeZone);
+};
+
+export const PunchEditorDialog: React.FC<PunchEditorDialogProps> = ({ punch, draft, timeZone, projects, i18n, getLockMessage, onSave, onDelete, onRestore, onClose }) => {
+  const initial = punch ?? draft;
+  const [type, setType] = useState<PunchType>(initial?.type ?? 'IN');
+  const [breakCategory, setBreakCategory] = useState<BreakCategory>(initial?.breakCategory ?? 'UNPAID');
+  const [projectId, setProjectId] = useState(initial?.projectId ?? '');
+  const [task, setTask] = useState(initial?.task ?? '');
+  const [time, setTime] = useState(toInputValue(initial?.timestamp ?? Date.now(), timeZone));
+  const [reason, setReason] = useState('');
+
+  const timestamp = fromInputValue(time, timeZone);
+  const hasReason = reason.trim().length > 0;
+  // The punch can't leave a locked week, nor be moved into one
+  const lockMessage = (punch && getLockMessage(punch.timestamp)) || (!Number.isNaN(timestamp) && getLockMessage(timestamp)) || null;
+  const isValid = hasReason && !Number.isNaN(timestamp) && timestamp <= Date.now() && !lockMessage;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-bold text-slate-900">{i18n.t(punch ? 'editor.editTitle' : 'editor.addTitle')}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {PUNCH_TYPES.map(option => (
+              <button
+                key={option}
+                onClick={() => setType(option)}
+                className={`py-2 rounded-xl text-sm font-semibold border transition-all ${type === option ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+              >
+                {i18n.t(`punch.${option}`)}
+              </button>
+            ))}
+          </div>
+
+          {type === 'BREAK_START' && (
+            <label className="block">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('editor.breakType')}</span>
+              <select
+                value={breakCategory}
+                onChange={e => setBreakCategory(e.target.value as BreakCategory)}
+                className="mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                <option value="UNPAID">{i18n.t('editor.unpaidBreak')}</option>
+                <option value="PAID">{i18n.t('editor.paidBreak')}</option>
+              </select>
+            </label>
+          )}
+
+          {isProjectPunch(type) && projects.length > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('editor.project')}</span>
+                <select
+                  value={projectId}
+                  onChange={e => setProjectId(e.target.value)}
+                  className="mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                  <option value="">{i18n.t('punch.noProject')}</option>
+                  {projects.filter(p => !p.archived || p.id === projectId).map(project => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('editor.task')}</span>
+                <input
+                  value={task}
+                  onChange={e => setTask(e.target.value)}
+                  placeholder={i18n.t('editor.optional')}
+                  className="mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </label>
+            </div>
+          )}
+
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('editor.time')}</span>
+            <input
+              type="datetime-local"
+              value={time}
+              max={toInputValue(Date.now(), timeZone)}
+              onChange={e => setTime(e.target.value)}
+              className="mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('editor.reason')}</span>
+            <textarea
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              rows={2}
+              placeholder={i18n.t('editor.reasonPlaceholder')}
+              className="mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+            />
+          </label>
+        </div>
+
+        {lockMessage && (
+          <p className="flex items-center gap-2 mt-4 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+            <Lock className="w-4 h-4 flex-shrink-0" />
+            {lockMessage}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between mt-6">
+          {punch && (
+            punch.deleted ? (
+              <button
+                onClick={() => onRestore(reason)}
+                disabled={!hasReason || !!lockMessage}
+                className="flex items-center gap-1.5 text-sm font-semibold text-emerald-600 hover:text-emerald-700 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                {i18n.t('editor.restore')}
+              </button>
+            ) : (
+              <button
+                onClick={() => onDelete(reason)}
+                disabled={!hasReason || !!lockMessage}
+                className="flex items-center gap-1.5 text-sm font-semibold text-rose-600 hover:text-rose-700 disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                {i18n.t('editor.delete')}
+              </button>
+            )
+          )}
+          <button
+            onClick={() => onSave({
+              type,
+              timestamp,
+              breakCategory: type === 'BREAK_START' ? breakCategory : undefined,
+              projectId: isProjectPunch(type) && projectId ? projectId : undefined,
+              task: isProjectPunch(type) ? task : undefined,
+            }, reason)}
+            disabled={!isValid || punch?.deleted}
+            className="ml-auto bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all disabled:opacity-50"
+          >
+            {i18n.t('app.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
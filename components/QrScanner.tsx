@@ -0,0 +1,82 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Localizer, MessageKey } from '../services/i18n';
+
+interface QrScannerProps {
+  onDetect: (payload: string) => void;
+  i18n: Localizer;
+}
+
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<Array<{ rawValue: string }>>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 400;
+
+// The Barcode Detection API isn't in every browser or in the DOM typings yet
+const getDetectorClass = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const isQrScanningSupported = () =>
+  !!getDetectorClass() && !!navigator.mediaDevices?.getUserMedia;
+
+export const QrScanner: React.FC<QrScannerProps> = ({ onDetect, i18n }) => {
+  const video = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  useEffect(() => {
+    const Detector = getDetectorClass();
+    if (!Detector) {
+      setError('scanner.unsupported');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const scan = async () => {
+      if (stopped || !video.current) return;
+      try {
+        const [code] = await detector.detect(video.current);
+        if (code && !stopped) {
+          onDetect(code.rawValue);
+          return;
+        }
+      } catch {
+        // Frames can fail to decode while the camera warms up
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' } })
+      .then(async media => {
+        if (stopped || !video.current) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        video.current.srcObject = media;
+        await video.current.play();
+        scan();
+      })
+      .catch(() => setError('scanner.denied'));
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [onDetect]);
+
+  if (error) {
+    return <p className="text-rose-300 text-center py-12">{i18n.t(error)}</p>;
+  }
+
+  return (
+    <video ref={video} muted playsInline className="w-full max-w-sm aspect-square object-cover rounded-2xl bg-black" />
+  );
+};
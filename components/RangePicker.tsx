@@ -0,0 +1,79 @@
+
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { AnalyticsRange, RANGE_KINDS, RangeKind, createCustomRange, getPeriodRange, shiftRange } from '../services/analytics';
+import { Localizer } from '../services/i18n';
+
+interface RangePickerProps {
+  range: AnalyticsRange;
+  today: string;
+  weekStartsOn: number;
+  i18n: Localizer;
+  onChange: (range: AnalyticsRange) => void;
+}
+
+const inputClass = 'text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+export const RangePicker: React.FC<RangePickerProps> = ({ range, today, weekStartsOn, i18n, onChange }) => {
+  // Switching to Custom starts from whatever was showing
+  const selectKind = (kind: RangeKind) =>
+    onChange(kind === 'CUSTOM' ? createCustomRange(range.start, range.end) : getPeriodRange(kind, range.start > today ? today : range.start, weekStartsOn));
+
+  const formatShortDate = (dateKey: string) =>
+    i18n.formatDate(dateKey, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 bg-white p-4 rounded-2xl shadow-sm border border-slate-200">
+      <div className="flex bg-slate-100 p-1 rounded-xl">
+        {RANGE_KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => selectKind(kind)}
+            className={`px-4 py-1.5 rounded-lg text-sm font-semibold transition-all ${range.kind === kind ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+          >
+            {i18n.t(`range.${kind}`)}
+          </button>
+        ))}
+      </div>
+
+      {range.kind === 'CUSTOM' ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={range.start}
+            max={today}
+            onChange={e => e.target.value && onChange(createCustomRange(e.target.value, range.end))}
+            className={inputClass}
+          />
+          <span className="text-slate-400">–</span>
+          <input
+            type="date"
+            value={range.end}
+            min={range.start}
+            onChange={e => e.target.value && onChange(createCustomRange(range.start, e.target.value))}
+            className={inputClass}
+          />
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onChange(shiftRange(range, -1))}
+            className="p-2 rounded-lg text-slate-500 hover:bg-slate-50 hover:text-slate-900"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <p className="font-semibold text-slate-900 min-w-[14rem] text-center">
+            {formatShortDate(range.start)} – {formatShortDate(range.end)}
+          </p>
+          <button
+            onClick={() => onChange(shiftRange(range, 1))}
+            disabled={range.end >= today}
+            className="p-2 rounded-lg text-slate-500 hover:bg-slate-50 hover:text-slate-900 disabled:opacity-30"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { PunchEntry, PunchRevisionAction } from '../types';
+import { formatPunchType } from '../services/punchAudit';
+import { Localizer } from '../services/i18n';
+
+interface RevisionLogDialogProps {
+  punch: PunchEntry;
+  timeZone: string;
+  i18n: Localizer;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<PunchRevisionAction, string> = {
+  CREATED: 'bg-indigo-50 text-indigo-600',
+  EDITED: 'bg-amber-50 text-amber-600',
+  DELETED: 'bg-rose-50 text-rose-600',
+  RESTORED: 'bg-emerald-50 text-emerald-600',
+};
+
+export const RevisionLogDialog: React.FC<RevisionLogDialogProps> = ({ punch, timeZone, i18n, onClose }) => {
+  const formatDateTime = (timestamp: number) =>
+    `${new Date(timestamp).toLocaleDateString(i18n.locale, { month: 'short', day: 'numeric', timeZone })}, ${i18n.formatTime(timestamp, timeZone)}`;
+
+  const revisions = [...(punch.revisions ?? [])].reverse();
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-bold text-slate-900">{i18n.t('revisions.title')}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t(punch.deleted ? 'revisions.currentDeleted' : 'revisions.current', {
+            punch: formatPunchType(punch, i18n),
+            time: formatDateTime(punch.timestamp),
+          })}
+        </p>
+
+        <ol className="space-y-3 max-h-96 overflow-y-auto">
+          {revisions.map((rev, i) => (
+            <li key={i} className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+              <div className="flex items-center justify-between mb-2">
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${ACTION_STYLES[rev.action]}`}>
+                  {i18n.t(`revisions.${rev.action}`)}
+                </span>
+                <span className="text-xs text-slate-400">{formatDateTime(rev.at)}</span>
+              </div>
+              <p className="text-sm text-slate-700">{rev.reason}</p>
+              {rev.previous && rev.action === 'EDITED' && (
+                <p className="text-xs text-slate-500 mt-1">
+                  {i18n.t('revisions.previous', { punch: formatPunchType(rev.previous, i18n), time: formatDateTime(rev.previous.timestamp) })}
+                </p>
+              )}
+            </li>
+          ))}
+          {revisions.length === 0 && (
+            <li className="text-center py-8 text-sm text-slate-400">{i18n.t('revisions.none')}</li>
+          )}
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+
+import React, { useState } from 'react';
+import { CalendarClock, Plus, X } from 'lucide-react';
+import { ShiftBlock, WorkSchedule } from '../types';
+import { createSchedule, getBlockHours, getWeekStart } from '../services/schedules';
+import { Localizer } from '../services/i18n';
+
+interface ScheduleEditorProps {
+  schedule?: WorkSchedule;
+  today: string;
+  i18n: Localizer;
+  onChange: (schedule: WorkSchedule | undefined) => void;
+}
+
+const MAX_ROTATION_WEEKS = 4;
+
+const inputClass = 'mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const timeInputClass = 'text-sm bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, today, i18n, onChange }) => {
+  const [weekIndex, setWeekIndex] = useState(0);
+
+  if (!schedule) {
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-slate-500">{i18n.t('schedule.none')}</p>
+        <button
+          onClick={() => onChange(createSchedule(today))}
+          className="flex items-center gap-1.5 text-sm font-semibold text-indigo-600 hover:text-indigo-700 whitespace-nowrap"
+        >
+          <CalendarClock className="w-4 h-4" />
+          {i18n.t('schedule.add')}
+        </button>
+      </div>
+    );
+  }
+
+  const week = Math.min(weekIndex, schedule.weeks.length - 1);
+  const days = schedule.weeks[week];
+  const weekHours = days.flat().reduce((acc, block) => acc + getBlockHours(block), 0);
+
+  const updateDay = (weekday: number, blocks: ShiftBlock[]) =>
+    onChange({
+      ...schedule,
+      weeks: schedule.weeks.map((w, i) => (i === week ? w.map((d, j) => (j === weekday ? blocks : d)) : w)),
+    });
+
+  // New rotation weeks start as a copy of the last one
+  const setRotationLength = (length: number) => {
+    const weeks = schedule.weeks.slice(0, length);
+    while (weeks.length < length) weeks.push(weeks[weeks.length - 1].map(d => [...d]));
+    onChange({ ...schedule, weeks });
+    setWeekIndex(Math.min(week, length - 1));
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('schedule.startsOn')}</span>
+          <input
+            type="date"
+            value={schedule.startsOn}
+            onChange={e => e.target.value && onChange({ ...schedule, startsOn: getWeekStart(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('schedule.rotation')}</span>
+          <select
+            value={schedule.weeks.length}
+            onChange={e => setRotationLength(Number(e.target.value))}
+            className={inputClass}
+          >
+            {Array.from({ length: MAX_ROTATION_WEEKS }, (_, i) => (
+              <option key={i} value={i + 1}>{i === 0 ? i18n.t('schedule.everyWeek') : i18n.t('schedule.repeats', { count: i + 1 })}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('schedule.grace')}</span>
+          <input
+            type="number"
+            min={0}
+            value={schedule.graceMinutes}
+            onChange={e => onChange({ ...schedule, graceMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {schedule.weeks.length > 1 && (
+        <div className="flex gap-2 mb-4">
+          {schedule.weeks.map((_, i) => (
+            <button
+              key={i}
+              onClick={() => setWeekIndex(i)}
+              className={`px-3 py-1 rounded-lg text-sm font-semibold ${i === week ? 'bg-indigo-50 text-indigo-600' : 'text-slate-500 hover:bg-slate-50'}`}
+            >
+              {i18n.t('schedule.week', { number: i + 1 })}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ul className="divide-y divide-slate-100">
+        {days.map((blocks, weekday) => (
+          <li key={weekday} className="flex items-center gap-4 py-2">
+            <span className="w-10 text-sm font-semibold text-slate-700">{i18n.weekdayName(weekday, 'short')}</span>
+            <div className="flex-1 flex flex-wrap items-center gap-2">
+              {blocks.length === 0 && <span className="text-sm text-slate-400">{i18n.t('schedule.off')}</span>}
+              {blocks.map((block, i) => (
+                <span key={i} className="inline-flex items-center gap-1">
+                  <input
+                    type="time"
+                    value={block.start}
+                    onChange={e => e.target.value && updateDay(weekday, blocks.map((b, j) => (j === i ? { ...b, start: e.target.value } : b)))}
+                    className={timeInputClass}
+                  />
+                  <span className="text-slate-400">–</span>
+                  <input
+                    type="time"
+                    value={block.end}
+                    onChange={e => e.target.value && updateDay(weekday, blocks.map((b, j) => (j === i ? { ...b, end: e.target.value } : b)))}
+                    className={timeInputClass}
+                  />
+                  <button
+                    onClick={() => updateDay(weekday, blocks.filter((_, j) => j !== i))}
+                    title={i18n.t('schedule.removeShift')}
+                    className="p-1 text-slate-400 hover:text-rose-600"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <button
+              onClick={() => updateDay(weekday, [...blocks, blocks.length > 0 ? { start: '13:00', end: '17:00' } : { start: '09:00', end: '17:00' }])}
+              title={i18n.t(blocks.length > 0 ? 'schedule.addSplit' : 'schedule.addShift')}
+              className="p-1 text-indigo-600 hover:text-indigo-700"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between mt-4">
+        <p className="text-sm text-slate-500">
+          {schedule.weeks.length > 1
+            ? i18n.t('schedule.hoursInWeek', { hours: i18n.formatHours(weekHours), number: week + 1 })
+            : i18n.t('schedule.hoursPerWeek', { hours: i18n.formatHours(weekHours) })}
+        </p>
+        <button onClick={() => onChange(undefined)} className="text-sm font-semibold text-slate-400 hover:text-rose-600">
+          {i18n.t('schedule.remove')}
+        </button>
+      </div>
+    </div>
+  );
+};
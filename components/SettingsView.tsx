@@ -0,0 +1,785 @@
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Globe, Moon, Monitor, Bell, Plus, Archive, ArchiveRestore, Upload, Trash2, ShieldCheck, Cloud, MapPin, LocateFixed,
+  Languages, Clock3, Timer, CalendarDays
+} from 'lucide-react';
+import {
+  AiSettings, AiSharingLevel, AppSettings, ClockFormat, DisplaySettings, DurationFormat, KioskSettings, LeavePolicy, LeaveType, PayPeriodType, PayRules, Project,
+  LocationSettings, ReminderSettings, RoundingIncrement, SyncSettings, TimeSettings, WorkSite
+} from '../types';
+import { getSystemTimeZone } from '../services/timeEngine';
+import { hashExitCode, isValidPin } from '../services/kiosk';
+import { requestNotificationPermission } from '../services/reminders';
+import { createProject } from '../services/projects';
+import { LEAVE_TYPES, createHoliday, importHolidays } from '../services/leave';
+import { parseCalendar } from '../services/icalendar';
+import { GeolocationSource, createWorkSite } from '../services/geolocation';
+import { AI_SHARING_LEVELS } from '../services/aiPrivacy';
+import { CLOCK_FORMATS, DURATION_FORMATS, LANGUAGES, LANGUAGE_LABELS, Localizer, isLanguage } from '../services/i18n';
+
+interface SettingsViewProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onStartKiosk: () => void;
+  geolocation: GeolocationSource;
+  i18n: Localizer;
+}
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+const inputClass = 'mt-1 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+interface NumberFieldProps {
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+  step?: number;
+  optional?: string; // Placeholder for an empty input, which means "off"
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step = 1, optional }) => (
+  <label className="block">
+    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{label}</span>
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value ?? ''}
+      placeholder={optional}
+      onChange={e => {
+        const parsed = parseFloat(e.target.value);
+        if (Number.isNaN(parsed)) {
+          if (optional !== undefined) onChange(null);
+        } else {
+          onChange(Math.max(0, parsed));
+        }
+      }}
+      className={inputClass}
+    />
+  </label>
+);
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onChange, onStartKiosk, geolocation, i18n }) => {
+  const [exitCode, setExitCode] = useState('');
+  const [newProjectName, setNewProjectName] = useState('');
+  const [newClient, setNewClient] = useState('');
+  const [newHolidayDate, setNewHolidayDate] = useState('');
+  const [newHolidayName, setNewHolidayName] = useState('');
+  const [siteDraft, setSiteDraft] = useState({ name: '', latitude: '', longitude: '', radius: '150' });
+  const [siteLookup, setSiteLookup] = useState<string | null>(null);
+  const [holidayImport, setHolidayImport] = useState<{ ok: boolean; message: string } | null>(null);
+  const holidayFile = useRef<HTMLInputElement>(null);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(
+    typeof Notification === 'undefined' ? 'denied' : Notification.permission
+  );
+  const off = i18n.t('settings.off');
+  const display = settings.display;
+  const updateDisplay = (changes: Partial<DisplaySettings>) => onChange({ ...settings, display: { ...display, ...changes } });
+  const timeSettings = settings.time;
+  const onTimeSettingsChange = (time: TimeSettings) => onChange({ ...settings, time });
+  const rules = settings.payRules;
+  const updateRules = (changes: Partial<PayRules>) => onChange({ ...settings, payRules: { ...rules, ...changes } });
+  const kiosk = settings.kiosk;
+  const updateKiosk = (changes: Partial<KioskSettings>) => onChange({ ...settings, kiosk: { ...kiosk, ...changes } });
+  const updateProject = (id: string, changes: Partial<Project>) =>
+    onChange({ ...settings, projects: settings.projects.map(p => (p.id === id ? { ...p, ...changes } : p)) });
+
+  const addProject = () => {
+    if (!newProjectName.trim()) return;
+    onChange({ ...settings, projects: [...settings.projects, createProject(newProjectName, newClient, settings.projects)] });
+    setNewProjectName('');
+    setNewClient('');
+  };
+
+  const updateLeavePolicy = (type: LeaveType, changes: Partial<LeavePolicy>) =>
+    onChange({ ...settings, leave: { ...settings.leave, [type]: { ...settings.leave[type], ...changes } } });
+
+  const addHoliday = () => {
+    if (!newHolidayDate) return;
+    const holidays = [...settings.holidays, createHoliday(newHolidayDate, newHolidayName, i18n)];
+    onChange({ ...settings, holidays: holidays.sort((a, b) => a.date.localeCompare(b.date)) });
+    setNewHolidayDate('');
+    setNewHolidayName('');
+  };
+
+  const handleHolidayFile = async (file: File) => {
+    try {
+      const result = importHolidays(settings.holidays, parseCalendar(await file.text(), timeSettings.timeZone), i18n);
+      onChange({ ...settings, holidays: result.holidays });
+      const added = i18n.t(result.added === 1 ? 'settings.holidaysAdded.one' : 'settings.holidaysAdded.other', { count: result.added });
+      setHolidayImport({
+        ok: true,
+        message: result.skipped > 0 ? i18n.t('settings.holidaysSkipped', { added, skipped: result.skipped }) : `${added}.`,
+      });
+    } catch {
+      setHolidayImport({ ok: false, message: i18n.t('settings.holidaysUnreadable') });
+    }
+    if (holidayFile.current) holidayFile.current.value = '';
+  };
+
+  const reminders = settings.reminders;
+  const updateReminders = (changes: Partial<ReminderSettings>) =>
+    onChange({ ...settings, reminders: { ...reminders, ...changes } });
+
+  const location = settings.location;
+  const updateLocation = (changes: Partial<LocationSettings>) => onChange({ ...settings, location: { ...location, ...changes } });
+  const updateSite = (id: string, changes: Partial<WorkSite>) =>
+    updateLocation({ sites: location.sites.map(site => (site.id === id ? { ...site, ...changes } : site)) });
+
+  const draftLatitude = parseFloat(siteDraft.latitude);
+  const draftLongitude = parseFloat(siteDraft.longitude);
+  const draftRadius = parseFloat(siteDraft.radius);
+  const isSiteDraftValid = Math.abs(draftLatitude) <= 90 && Math.abs(draftLongitude) <= 180 && draftRadius > 0;
+
+  const addSite = () => {
+    if (!isSiteDraftValid) return;
+    updateLocation({ sites: [...location.sites, createWorkSite(siteDraft.name, draftLatitude, draftLongitude, draftRadius, i18n)] });
+    setSiteDraft({ name: '', latitude: '', longitude: '', radius: siteDraft.radius });
+  };
+
+  const useCurrentPosition = async () => {
+    setSiteLookup(i18n.t('settings.locating'));
+    const reading = await geolocation.read();
+    if ('failure' in reading) {
+      setSiteLookup(i18n.t(`location.failure.${reading.failure}`));
+      return;
+    }
+    const { latitude, longitude, accuracy } = reading.location;
+    setSiteDraft(draft => ({ ...draft, latitude: latitude.toFixed(6), longitude: longitude.toFixed(6) }));
+    setSiteLookup(i18n.t('settings.accuracy', { meters: accuracy }));
+  };
+
+  const updateSync = (changes: Partial<SyncSettings>) => onChange({ ...settings, sync: { ...settings.sync, ...changes } });
+
+  const ai = settings.ai;
+  const updateAi = (changes: Partial<AiSettings>) => onChange({ ...settings, ai: { ...ai, ...changes } });
+  // Agreeing to share less doesn't cover sharing more, so that asks again
+  const changeSharingLevel = (sharingLevel: AiSharingLevel) => updateAi({
+    sharingLevel,
+    ...(AI_SHARING_LEVELS.indexOf(sharingLevel) > AI_SHARING_LEVELS.indexOf(ai.sharingLevel) && { consentedAt: null }),
+  });
+
+  const saveExitCode = async () => {
+    if (!isValidPin(exitCode)) return;
+    updateKiosk({ exitCodeHash: await hashExitCode(exitCode) });
+    setExitCode('');
+  };
+
+  const timeZones = useMemo(() => {
+    const zones = Intl.supportedValuesOf?.('timeZone') ?? [];
+    return zones.includes(timeSettings.timeZone) ? zones : [timeSettings.timeZone, ...zones];
+  }, [timeSettings.timeZone]);
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('display.title')}</h3>
+        <p className="text-sm text-slate-500 mb-6">{i18n.t('display.description')}</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <label className="block">
+            <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              <Languages className="w-4 h-4" />
+              {i18n.t('display.language')}
+            </span>
+            <select
+              value={display.language}
+              onChange={e => isLanguage(e.target.value) && updateDisplay({ language: e.target.value })}
+              className="mt-2 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {LANGUAGES.map(language => (
+                <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              <CalendarDays className="w-4 h-4" />
+              {i18n.t('display.weekStart')}
+            </span>
+            <select
+              value={timeSettings.weekStartsOn}
+              onChange={e => onTimeSettingsChange({ ...timeSettings, weekStartsOn: Number(e.target.value) })}
+              className="mt-2 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {Array.from({ length: 7 }, (_, weekday) => (
+                <option key={weekday} value={weekday}>{i18n.weekdayName(weekday, 'long')}</option>
+              ))}
+            </select>
+            <span className="block mt-1 text-xs text-slate-400">{i18n.t('display.weekStartHint')}</span>
+          </label>
+
+          <label className="block">
+            <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              <Clock3 className="w-4 h-4" />
+              {i18n.t('display.clock')}
+            </span>
+            <select
+              value={display.clock}
+              onChange={e => updateDisplay({ clock: e.target.value as ClockFormat })}
+              className="mt-2 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {CLOCK_FORMATS.map(clock => (
+                <option key={clock} value={clock}>{i18n.t(`display.clock.${clock}`)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              <Timer className="w-4 h-4" />
+              {i18n.t('display.duration')}
+            </span>
+            <select
+              value={display.durationFormat}
+              onChange={e => updateDisplay({ durationFormat: e.target.value as DurationFormat })}
+              className="mt-2 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {DURATION_FORMATS.map(format => (
+                <option key={format} value={format}>{i18n.t(`display.duration.${format}`)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.time')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.timeHint')}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <label className="block">
+            <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              <Globe className="w-4 h-4" />
+              {i18n.t('settings.timeZone')}
+            </span>
+            <select
+              value={timeSettings.timeZone}
+              onChange={e => onTimeSettingsChange({ ...timeSettings, timeZone: e.target.value })}
+              className="mt-2 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>
+                  {zone}{zone === getSystemTimeZone() ? ` ${i18n.t('settings.thisDevice')}` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              <Moon className="w-4 h-4" />
+              {i18n.t('settings.dayStart')}
+            </span>
+            <select
+              value={timeSettings.dayRolloverHour}
+              onChange={e => onTimeSettingsChange({ ...timeSettings, dayRolloverHour: Number(e.target.value) })}
+              className="mt-2 w-full text-sm bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {Array.from({ length: 13 }, (_, hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}{hour === 0 ? ` ${i18n.t('settings.midnight')}` : ''}
+                </option>
+              ))}
+            </select>
+            <span className="block mt-1 text-xs text-slate-400">
+          {i18n.t('settings.dayStartHint')}
+            </span>
+          </label>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.payRules')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.payRulesHint')}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <NumberField label={i18n.t('settings.standardDay')} value={rules.standardDayHours} step={0.5}
+            onChange={v => updateRules({ standardDayHours: v ?? 0 })} />
+          <NumberField label={i18n.t('settings.dailyOvertime')} value={rules.dailyOvertimeHours} step={0.5} optional={off}
+            onChange={v => updateRules({ dailyOvertimeHours: v })} />
+          <NumberField label={i18n.t('settings.dailyDoubleTime')} value={rules.dailyDoubleTimeHours} step={0.5} optional={off}
+            onChange={v => updateRules({ dailyDoubleTimeHours: v })} />
+          <NumberField label={i18n.t('settings.weeklyOvertime')} value={rules.weeklyOvertimeHours} step={0.5} optional={off}
+            onChange={v => updateRules({ weeklyOvertimeHours: v })} />
+          <NumberField label={i18n.t('settings.overtimeMultiplier')} value={rules.overtimeMultiplier} step={0.25}
+            onChange={v => updateRules({ overtimeMultiplier: v ?? 1 })} />
+          <NumberField label={i18n.t('settings.doubleTimeMultiplier')} value={rules.doubleTimeMultiplier} step={0.25}
+            onChange={v => updateRules({ doubleTimeMultiplier: v ?? 1 })} />
+          <NumberField label={i18n.t('settings.hourlyRate')} value={rules.hourlyRate} step={0.01}
+            onChange={v => updateRules({ hourlyRate: v ?? 0 })} />
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.currency')}</span>
+            <input
+              value={rules.currency}
+              maxLength={3}
+              onChange={e => updateRules({ currency: e.target.value.toUpperCase() })}
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.rounding')}</span>
+            <select
+              value={rules.roundingIncrement}
+              onChange={e => updateRules({ roundingIncrement: Number(e.target.value) as RoundingIncrement })}
+              className={inputClass}
+            >
+              <option value={0}>{i18n.t('settings.rounding.0')}</option>
+              <option value={5}>{i18n.t('settings.rounding.5')}</option>
+              <option value={6}>{i18n.t('settings.rounding.6')}</option>
+              <option value={15}>{i18n.t('settings.rounding.15')}</option>
+            </select>
+          </label>
+          <NumberField label={i18n.t('settings.roundingGrace')} value={rules.roundingGraceMinutes}
+            onChange={v => updateRules({ roundingGraceMinutes: v ?? 0 })} />
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.payPeriod')}</span>
+            <select
+              value={rules.payPeriod}
+              onChange={e => updateRules({ payPeriod: e.target.value as PayPeriodType })}
+              className={inputClass}
+            >
+              <option value="WEEKLY">{i18n.t('settings.payPeriod.WEEKLY')}</option>
+              <option value="BIWEEKLY">{i18n.t('settings.payPeriod.BIWEEKLY')}</option>
+              <option value="SEMIMONTHLY">{i18n.t('settings.payPeriod.SEMIMONTHLY')}</option>
+              <option value="MONTHLY">{i18n.t('settings.payPeriod.MONTHLY')}</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.periodStart')}</span>
+            <input
+              type="date"
+              value={rules.payPeriodAnchor}
+              onChange={e => e.target.value && updateRules({ payPeriodAnchor: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.projects')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.projectsHint')}
+        </p>
+
+        {settings.projects.length > 0 && (
+          <ul className="divide-y divide-slate-100 mb-6">
+            {settings.projects.map(project => (
+              <li key={project.id} className={`flex items-center gap-3 py-3 ${project.archived ? 'opacity-50' : ''}`}>
+                <input
+                  type="color"
+                  value={project.color}
+                  onChange={e => updateProject(project.id, { color: e.target.value })}
+                  title={i18n.t('settings.chartColor')}
+                  className="w-8 h-8 rounded cursor-pointer border-none bg-transparent"
+                />
+                <input
+                  value={project.name}
+                  onChange={e => updateProject(project.id, { name: e.target.value })}
+                  className="flex-1 text-sm font-semibold text-slate-900 bg-transparent border-none rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500"
+                />
+                <input
+                  value={project.client}
+                  placeholder={i18n.t('settings.client')}
+                  onChange={e => updateProject(project.id, { client: e.target.value })}
+                  className="flex-1 text-sm text-slate-500 bg-transparent border-none rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500"
+                />
+                <button
+                  onClick={() => updateProject(project.id, { archived: !project.archived })}
+                  className="flex items-center gap-1 text-sm font-semibold text-slate-500 hover:text-slate-700"
+                >
+                  {project.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  {i18n.t(project.archived ? 'settings.restore' : 'settings.archive')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.projectName')}</span>
+            <input value={newProjectName} onChange={e => setNewProjectName(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.client')}</span>
+            <input value={newClient} onChange={e => setNewClient(e.target.value)} className={inputClass} />
+          </label>
+          <button
+            onClick={addProject}
+            disabled={!newProjectName.trim()}
+            className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            {i18n.t('settings.add')}
+          </button>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.leave')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.leaveHint')}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4 mb-8">
+          {LEAVE_TYPES.map(type => (
+            <div key={type} className="grid grid-cols-[6rem_1fr_1fr] gap-3 items-end">
+              <span className="pb-2 text-sm font-semibold text-slate-700">{i18n.t(`leave.${type}`)}</span>
+              <NumberField
+                label={i18n.t('settings.accrual')}
+                value={settings.leave[type].accrualHours}
+                step={0.01}
+                optional={off}
+                onChange={accrualHours => updateLeavePolicy(type, { accrualHours })}
+              />
+              <NumberField
+                label={i18n.t('settings.cap')}
+                value={settings.leave[type].maxBalance}
+                optional={off}
+                onChange={maxBalance => updateLeavePolicy(type, { maxBalance })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.holidays')}</span>
+          <input
+            ref={holidayFile}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={e => e.target.files?.[0] && handleHolidayFile(e.target.files[0])}
+          />
+          <button
+            onClick={() => holidayFile.current?.click()}
+            className="flex items-center gap-1.5 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+          >
+            <Upload className="w-4 h-4" />
+            {i18n.t('settings.importCalendar')}
+          </button>
+        </div>
+        {holidayImport && (
+          <p className={`text-xs mb-2 ${holidayImport.ok ? 'text-emerald-600' : 'text-rose-600'}`}>{holidayImport.message}</p>
+        )}
+        {settings.holidays.length > 0 ? (
+          <ul className="divide-y divide-slate-100 mb-6 max-h-64 overflow-y-auto">
+            {settings.holidays.map(holiday => (
+              <li key={holiday.id} className="flex items-center gap-3 py-2">
+                <span className="w-32 text-sm text-slate-500">
+                  {i18n.formatDate(holiday.date, { month: 'short', day: 'numeric', year: 'numeric' })}
+                </span>
+                <span className="flex-1 text-sm font-semibold text-slate-900">{holiday.name}</span>
+                <button
+                  onClick={() => onChange({ ...settings, holidays: settings.holidays.filter(h => h.id !== holiday.id) })}
+                  title={i18n.t('settings.removeHoliday')}
+                  className="p-1 text-slate-400 hover:text-rose-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-400 mb-6">{i18n.t('settings.noHolidays')}</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.date')}</span>
+            <input type="date" value={newHolidayDate} onChange={e => setNewHolidayDate(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.name')}</span>
+            <input value={newHolidayName} onChange={e => setNewHolidayName(e.target.value)} className={inputClass} />
+          </label>
+          <button
+            onClick={addHoliday}
+            disabled={!newHolidayDate}
+            className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            {i18n.t('settings.add')}
+          </button>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.reminders')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.remindersHint')}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <NumberField label={i18n.t('settings.shiftReminder')} value={reminders.shiftLengthHours} step={0.5} optional={off}
+            onChange={v => updateReminders({ shiftLengthHours: v || null })} />
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.endOfDay')}</span>
+            <input
+              type="time"
+              value={reminders.endOfDayTime ?? ''}
+              onChange={e => updateReminders({ endOfDayTime: e.target.value || null })}
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.autoClose')}</span>
+            <input
+              type="time"
+              value={reminders.autoCloseTime ?? ''}
+              onChange={e => updateReminders({ autoCloseTime: e.target.value || null })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center gap-3 mt-6 text-sm">
+          <Bell className="w-4 h-4 text-slate-400" />
+          {notificationPermission === 'granted' ? (
+            <span className="text-emerald-600 font-medium">{i18n.t('settings.notificationsOn')}</span>
+          ) : notificationPermission === 'denied' ? (
+            <span className="text-slate-500">{i18n.t('settings.notificationsBlocked')}</span>
+          ) : (
+            <button
+              onClick={() => requestNotificationPermission().then(setNotificationPermission)}
+              className="font-semibold text-indigo-600 hover:text-indigo-700"
+            >
+              {i18n.t('settings.allowNotifications')}
+            </button>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.ai')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.aiHint')}
+        </p>
+
+        <label className="flex items-center gap-3 text-sm font-medium text-slate-700 mb-6">
+          <input
+            type="checkbox"
+            checked={ai.enabled}
+            onChange={e => updateAi({ enabled: e.target.checked })}
+            className="rounded text-indigo-600 focus:ring-indigo-500"
+          />
+          {i18n.t('settings.aiEnabled')}
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.aiSharing')}</span>
+            <select
+              value={ai.sharingLevel}
+              disabled={!ai.enabled}
+              onChange={e => changeSharingLevel(e.target.value as AiSharingLevel)}
+              className={inputClass}
+            >
+              {AI_SHARING_LEVELS.map(level => (
+                <option key={level} value={level}>{i18n.t(`ai.${level}`)}</option>
+              ))}
+            </select>
+            <span className="block text-xs text-slate-400 mt-1">{i18n.t(`ai.desc.${ai.sharingLevel}`)}</span>
+          </label>
+          <div className="flex items-center gap-3 text-sm">
+            <ShieldCheck className="w-4 h-4 text-slate-400" />
+            {ai.consentedAt === null ? (
+              <span className="text-slate-500">{i18n.t('settings.aiConsentPending')}</span>
+            ) : (
+              <>
+                <span className="text-slate-500">{i18n.t('settings.aiConsented', { date: new Date(ai.consentedAt).toLocaleDateString(i18n.locale) })}</span>
+                <button
+                  onClick={() => updateAi({ consentedAt: null })}
+                  className="font-semibold text-rose-600 hover:text-rose-700"
+                >
+                  {i18n.t('settings.aiWithdraw')}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.location')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.locationHint')}
+        </p>
+
+        <label className="flex items-center gap-3 text-sm font-medium text-slate-700 mb-6">
+          <input
+            type="checkbox"
+            checked={location.stampPunches}
+            onChange={e => updateLocation({ stampPunches: e.target.checked })}
+            className="rounded text-indigo-600 focus:ring-indigo-500"
+          />
+          <MapPin className="w-4 h-4 text-slate-400" />
+          {i18n.t('settings.stampPunches')}
+        </label>
+
+        {location.sites.length > 0 && (
+          <ul className="divide-y divide-slate-100 mb-6">
+            {location.sites.map(site => (
+              <li key={site.id} className="flex items-center gap-3 py-3">
+                <input
+                  value={site.name}
+                  onChange={e => updateSite(site.id, { name: e.target.value })}
+                  className="flex-1 text-sm font-semibold text-slate-900 bg-transparent border-none rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500"
+                />
+                <span className="text-sm text-slate-500 font-mono">{site.latitude.toFixed(5)}, {site.longitude.toFixed(5)}</span>
+                <label className="flex items-center gap-1 text-sm text-slate-500">
+                  <input
+                    type="number"
+                    min={1}
+                    value={site.radiusMeters}
+                    onChange={e => updateSite(site.id, { radiusMeters: Math.max(1, Number(e.target.value)) })}
+                    className="w-20 text-sm bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                  m
+                </label>
+                <label className="flex items-center gap-1 text-sm text-slate-500">
+                  <input
+                    type="checkbox"
+                    checked={!!site.requiresLocation}
+                    onChange={e => updateSite(site.id, { requiresLocation: e.target.checked })}
+                    className="rounded text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {i18n.t('settings.siteRequired')}
+                </label>
+                <button
+                  onClick={() => updateLocation({ sites: location.sites.filter(s => s.id !== site.id) })}
+                  title={i18n.t('settings.removeSite')}
+                  className="p-1 text-slate-400 hover:text-rose-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto_auto] gap-3 items-end">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.siteName')}</span>
+            <input value={siteDraft.name} onChange={e => setSiteDraft({ ...siteDraft, name: e.target.value })} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.coordinates')}</span>
+            <div className="flex gap-2">
+              <input value={siteDraft.latitude} placeholder="52.5200" onChange={e => setSiteDraft({ ...siteDraft, latitude: e.target.value })} className={inputClass} />
+              <input value={siteDraft.longitude} placeholder="13.4050" onChange={e => setSiteDraft({ ...siteDraft, longitude: e.target.value })} className={inputClass} />
+            </div>
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.radius')}</span>
+            <input type="number" min={1} value={siteDraft.radius} onChange={e => setSiteDraft({ ...siteDraft, radius: e.target.value })} className={inputClass} />
+          </label>
+          <button
+            onClick={useCurrentPosition}
+            title={i18n.t('settings.useHere')}
+            className="flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+          >
+            <LocateFixed className="w-4 h-4" />
+            {i18n.t('settings.here')}
+          </button>
+          <button
+            onClick={addSite}
+            disabled={!isSiteDraftValid}
+            className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-xl font-semibold transition-all disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            {i18n.t('settings.add')}
+          </button>
+        </div>
+        {siteLookup && <p className="text-xs text-slate-500 mt-2">{siteLookup}</p>}
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.sync')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.syncHint')}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+            <input
+              type="checkbox"
+              checked={settings.sync.enabled}
+              onChange={e => updateSync({ enabled: e.target.checked })}
+              className="rounded text-indigo-600 focus:ring-indigo-500"
+            />
+            <Cloud className="w-4 h-4 text-slate-400" />
+            {i18n.t('settings.syncEnabled')}
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('settings.syncEndpoint')}</span>
+            {/* Applied on blur, so a half-typed address is never synced with */}
+            <input
+              key={settings.sync.endpoint}
+              defaultValue={settings.sync.endpoint}
+              onBlur={e => e.target.value.trim() && updateSync({ endpoint: e.target.value.trim() })}
+              placeholder="/api/sync"
+              className={inputClass}
+            />
+          </label>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-1">{i18n.t('settings.kiosk')}</h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {i18n.t('settings.kioskHint')}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+              {i18n.t(kiosk.exitCodeHash ? 'settings.changeExitCode' : 'settings.exitCode')}
+            </span>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                inputMode="numeric"
+                value={exitCode}
+                placeholder={i18n.t('profile.pinHint')}
+                onChange={e => setExitCode(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                className={inputClass}
+              />
+              <button
+                onClick={saveExitCode}
+                disabled={!isValidPin(exitCode)}
+                className="mt-1 px-2 text-sm font-semibold text-indigo-600 hover:text-indigo-700 disabled:opacity-40"
+              >
+                {i18n.t('app.save')}
+              </button>
+            </div>
+          </label>
+          <NumberField label={i18n.t('settings.maxAttempts')} value={kiosk.maxAttempts}
+            onChange={v => updateKiosk({ maxAttempts: Math.max(1, Math.round(v ?? 1)) })} />
+          <NumberField label={i18n.t('settings.lockout')} value={kiosk.lockoutSeconds}
+            onChange={v => updateKiosk({ lockoutSeconds: v ?? 0 })} />
+          <NumberField label={i18n.t('settings.resetAfter')} value={kiosk.resetSeconds}
+            onChange={v => updateKiosk({ resetSeconds: Math.max(1, v ?? 1) })} />
+        </div>
+
+        <button
+          onClick={onStartKiosk}
+          disabled={!kiosk.exitCodeHash}
+          title={kiosk.exitCodeHash ? undefined : i18n.t('settings.exitCodeFirst')}
+          className="mt-6 flex items-center gap-2 bg-slate-900 hover:bg-slate-800 text-white px-5 py-2.5 rounded-xl font-semibold transition-all disabled:opacity-50"
+        >
+          <Monitor className="w-4 h-4" />
+          {i18n.t('settings.launchKiosk')}
+        </button>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { CloudAlert, CloudCheck, CloudOff, RefreshCw } from 'lucide-react';
+import { SyncState, SyncStatus } from '../services/syncClient';
+import { Localizer } from '../services/i18n';
+
+interface SyncIndicatorProps {
+  state: SyncState;
+  timeZone: string;
+  i18n: Localizer;
+  onSyncNow: () => void;
+}
+
+const STATUS_STYLES: Record<SyncStatus, string> = {
+  SYNCED: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  SYNCING: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  OFFLINE: 'bg-slate-100 text-slate-600 border-slate-200',
+  ERROR: 'bg-rose-50 text-rose-700 border-rose-200',
+};
+
+const describe = (state: SyncState, { t }: Localizer) => {
+  const queued = state.pending > 0 ? ` · ${t('sync.queued', { count: state.pending })}` : '';
+  switch (state.status) {
+    case 'SYNCING': return t('sync.syncing');
+    case 'OFFLINE': return `${t('sync.offline')}${queued}`;
+    case 'ERROR': return `${t('sync.failed')}${queued}`;
+    default: return `${t(state.lastSyncedAt ? 'sync.synced' : 'sync.never')}${queued}`;
+  }
+};
+
+export const SyncIndicator: React.FC<SyncIndicatorProps> = ({ state, timeZone, i18n, onSyncNow }) => {
+  const Icon = state.status === 'OFFLINE' ? CloudOff : state.status === 'ERROR' ? CloudAlert : state.status === 'SYNCING' ? RefreshCw : CloudCheck;
+  const title = [
+    state.error,
+    state.lastSyncedAt && i18n.t('sync.lastSynced', { time: i18n.formatTime(state.lastSyncedAt, timeZone) }),
+    i18n.t('sync.syncNow'),
+  ].filter(Boolean).join('\n');
+
+  return (
+    <button
+      onClick={onSyncNow}
+      disabled={state.status === 'SYNCING'}
+      title={title}
+      className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-sm font-medium transition-all ${STATUS_STYLES[state.status]}`}
+    >
+      <Icon className={`w-4 h-4 ${state.status === 'SYNCING' ? 'animate-spin' : ''}`} />
+      {describe(state, i18n)}
+    </button>
+  );
+};
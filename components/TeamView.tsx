@@ -0,0 +1,114 @@
+
+import React from 'react';
+import { ChevronRight, AlertTriangle, Send } from 'lucide-react';
+import { PunchStatus, TeamMemberSummary } from '../types';
+import { getInitials } from '../services/profiles';
+import { Localizer } from '../services/i18n';
+
+interface TeamViewProps {
+  members: TeamMemberSummary[];
+  timeZone: string;
+  i18n: Localizer;
+  onViewHistory: (userId: string) => void;
+}
+
+const STATUS_BADGES: Record<PunchStatus, string> = {
+  PUNCHED_IN: 'bg-emerald-100 text-emerald-800',
+  ON_BREAK: 'bg-amber-100 text-amber-800',
+  PUNCHED_OUT: 'bg-slate-100 text-slate-600',
+};
+
+export const TeamView: React.FC<TeamViewProps> = ({ members, timeZone, i18n, onViewHistory }) => {
+  const onDuty = members.filter(m => m.status !== 'PUNCHED_OUT').length;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-in slide-in-from-bottom-4 duration-500">
+      <div className="px-6 py-4 border-b border-slate-200">
+        <h3 className="font-bold text-slate-800">{i18n.t('nav.team')}</h3>
+        <p className="text-sm text-slate-500">{i18n.t('team.onDutyCount', { count: onDuty, total: members.length })}</p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('team.member')}</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">{i18n.t('team.status')}</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('team.hoursWeek')}</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('team.missingPunches')}</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('team.issues')}</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">{i18n.t('team.toApprove')}</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {members.map(({ profile, status, lastPunch, hoursThisWeek, missingPunchCount, issueCount, unaccountedHours, submittedTimesheets }) => (
+              <tr key={profile.id} className="hover:bg-slate-50 transition-colors">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex items-center gap-3">
+                    <div className="w-9 h-9 rounded-full bg-slate-100 text-slate-600 flex items-center justify-center text-sm font-semibold">
+                      {getInitials(profile.name)}
+                    </div>
+                    <div>
+                      <p className="text-sm font-semibold text-slate-900">{profile.name}</p>
+                      <p className="text-xs text-slate-500">{profile.email}</p>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[status]}`}>
+                    {i18n.t(`status.${status}`)}
+                  </span>
+                  {lastPunch && (
+                    <span className="ml-2 text-xs text-slate-400">{i18n.t('team.since', { time: i18n.formatTime(lastPunch.timestamp, timeZone) })}</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right whitespace-nowrap">
+                  <span className="text-sm font-bold text-slate-900">{i18n.formatHours(hoursThisWeek)}</span>
+                  {unaccountedHours > 0 && (
+                    <p className="text-[10px] text-rose-500 mt-0.5">{i18n.t('team.notCounted', { hours: i18n.formatHours(unaccountedHours) })}</p>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right whitespace-nowrap">
+                  {missingPunchCount > 0 ? (
+                    <span className="inline-flex items-center gap-1 text-sm font-semibold text-rose-600">
+                      <AlertTriangle className="w-4 h-4" />
+                      {missingPunchCount}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-slate-400">0</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right whitespace-nowrap">
+                  {issueCount > 0 ? (
+                    <span className="text-sm font-semibold text-amber-600">{issueCount}</span>
+                  ) : (
+                    <span className="text-sm text-slate-400">0</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right whitespace-nowrap">
+                  {submittedTimesheets > 0 ? (
+                    <span className="inline-flex items-center gap-1 text-sm font-semibold text-sky-600">
+                      <Send className="w-4 h-4" />
+                      {i18n.t(submittedTimesheets === 1 ? 'team.weeks.one' : 'team.weeks.other', { count: submittedTimesheets })}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-slate-400">0</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right">
+                  <button
+                    onClick={() => onViewHistory(profile.id)}
+                    className="inline-flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+                  >
+                    {i18n.t('nav.history')}
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
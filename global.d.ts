@@ -1,12 +1,12 @@
 
 /**
- * Extending the NodeJS namespace to include the API_KEY environment variable.
- * Since 'process' is likely already defined in the global scope (e.g., by Vite or node types),
- * we use interface merging on NodeJS.ProcessEnv to add our custom environment variable.
- * This avoids redeclaration conflicts.
+ * Extending the NodeJS namespace with the environment variables read by the server.
+ * They are never bundled into the browser build, which talks to the server over /api instead.
+ * We use interface merging on NodeJS.ProcessEnv to avoid redeclaration conflicts.
  */
 declare namespace NodeJS {
   interface ProcessEnv {
-    API_KEY: string;
+    GEMINI_API_KEY?: string;
+    PORT?: string;
   }
 }
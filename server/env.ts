@@ -0,0 +1,8 @@
+
+// Loaded before anything reads process.env. The file is optional: without it
+// the server runs without AI features and still serves sync (see README)
+try {
+  process.loadEnvFile('.env.local');
+} catch (e) {
+  if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+}
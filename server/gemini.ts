@@ -0,0 +1,99 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { AIInsight, AiSharingLevel } from "../types";
+import { InsightPayload } from "../services/aiPrivacy";
+import { LANGUAGE_NAMES } from "../services/i18n";
+import { parseInsight } from "../services/insights";
+import { ChatInstructionOptions, ChatPart, ChatTurn, buildChatInstruction } from "../services/timesheetChat";
+import { TIMESHEET_TOOLS } from "../services/timesheetQueries";
+
+const MODEL = "gemini-3-flash-preview";
+
+export const hasApiKey = () => !!process.env.GEMINI_API_KEY;
+
+const getClient = () => new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+
+// The user picks how much is shared, so the prompt says what the data does and doesn't contain
+const DATA_DESCRIPTIONS: Record<AiSharingLevel, string> = {
+  AGGREGATES: `Each day has only its totals and number of breaks; punch times are not shared.
+    Don't guess at start or end times.`,
+  HOURLY: `Each day lists its punches (IN, OUT, BREAK_START, BREAK_END, SWITCH) with local times
+    rounded to the nearest hour, so judge timing only to the hour.`,
+  FULL: `Each day lists its punches (IN, OUT, BREAK_START, BREAK_END, SWITCH) with exact local times.`,
+};
+
+export const getWorkInsights = async ({ sharingLevel, language, workDays }: InsightPayload): Promise<AIInsight> => {
+  const prompt = `
+    Analyze the following work log data for a user. Provide a summary of their work habits,
+    recommendations for better work-life balance or productivity, and a productivity score (0-100).
+
+    Data: ${JSON.stringify(workDays)}
+
+    ${DATA_DESCRIPTIONS[sharingLevel]} totalHours counts worked time including paid breaks;
+    paidBreakHours and unpaidBreakHours are the time spent on breaks.
+
+    Focus on:
+    - Consistency of work hours.
+    - Potential burnout (working too long).
+    - Regularity of breaks: whether breaks are taken, how long they are, and long stretches without one.
+
+    Write the summary and recommendations in ${LANGUAGE_NAMES[language]}.
+  `;
+
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING },
+          recommendations: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          },
+          productivityScore: { type: Type.NUMBER }
+        },
+        required: ["summary", "recommendations", "productivityScore"]
+      }
+    }
+  });
+
+  // The schema is a request, not a guarantee
+  return parseInsight(JSON.parse(response.text || '{}'));
+};
+
+/**
+ * One chat round for the timesheet questions. The instruction and tools are
+ * built here, and the client only sends the settings they need and turns the
+ * server has checked.
+ */
+export const generateChatTurn = async (instruction: ChatInstructionOptions, contents: ChatTurn[]): Promise<ChatTurn> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents,
+    config: {
+      systemInstruction: buildChatInstruction(instruction),
+      tools: [{
+        functionDeclarations: TIMESHEET_TOOLS.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parametersJsonSchema: tool.parameters
+        }))
+      }]
+    }
+  });
+
+  // Thought parts are the model's own reasoning, not part of the answer
+  const parts: ChatPart[] = (response.candidates?.[0]?.content?.parts ?? [])
+    .filter(part => !part.thought && (part.text || part.functionCall))
+    .map(part => ({
+      ...(part.text && { text: part.text }),
+      ...(part.functionCall && {
+        functionCall: { id: part.functionCall.id, name: part.functionCall.name ?? '', args: part.functionCall.args ?? {} }
+      }),
+      ...(part.thoughtSignature && { thoughtSignature: part.thoughtSignature })
+    }));
+  return { role: 'model', parts };
+};
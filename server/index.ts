@@ -0,0 +1,194 @@
+
+import "./env";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AI_SHARING_LEVELS, InsightPayload, SharedWorkDay, readSharedWorkDay } from "../services/aiPrivacy";
+import { isLanguage } from "../services/i18n";
+import { SYNC_BATCH_SIZE } from "../services/punchSync";
+import { ChatInstructionOptions, isValidChatTurn } from "../services/timesheetChat";
+import { isValidTimeZone } from "../services/timeEngine";
+import { generateChatTurn, getWorkInsights, hasApiKey } from "./gemini";
+import { createRateLimiter } from "./rateLimit";
+import { createSyncStore } from "./syncStore";
+
+const PORT = Number(process.env.PORT) || 3001;
+const SYNC_FILE = process.env.SYNC_FILE || '.punchpro-sync.json';
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_WORK_DAYS = 400;
+const MAX_CHAT_TURNS = 60;
+
+// Per user, and a looser one per address so switching users doesn't get around it
+const userLimiter = createRateLimiter(10, 60 * 1000);
+const addressLimiter = createRateLimiter(30, 60 * 1000);
+
+const syncStore = createSyncStore(SYNC_FILE);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > MAX_BODY_BYTES) {
+      reject(new HttpError(413, "Request is too large"));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request is too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkRateLimit = (req: IncomingMessage) => {
+  const address = req.socket.remoteAddress ?? 'unknown';
+  const header = req.headers['x-punchpro-user'];
+  const user = typeof header === 'string' && header ? header : address;
+  // The address only pays for requests its user was allowed, so one busy user can't use up the others' share
+  const result = userLimiter.take(`${address}:${user}`);
+  const limited = result.allowed ? addressLimiter.take(address) : result;
+  if (!limited.allowed) {
+    const seconds = Math.ceil(limited.retryAfterMs / 1000);
+    throw new HttpError(429, `Too many requests, try again in ${seconds}s`, { 'Retry-After': String(seconds) });
+  }
+};
+
+interface Route {
+  gemini?: boolean; // Needs the API key and counts toward the rate limits
+  handle: (req: IncomingMessage, url: URL) => Promise<unknown>;
+}
+
+const handleInsights = async (body: unknown) => {
+  if (!isRecord(body) || !Array.isArray(body.workDays)) throw new HttpError(400, "workDays must be an array");
+  if (!AI_SHARING_LEVELS.includes(body.sharingLevel as InsightPayload['sharingLevel'])) {
+    throw new HttpError(400, "sharingLevel is missing or unknown");
+  }
+  if (!isLanguage(body.language)) throw new HttpError(400, "language is missing or unknown");
+  if (body.workDays.length > MAX_WORK_DAYS) throw new HttpError(413, `Send at most ${MAX_WORK_DAYS} work days`);
+  const sharingLevel = body.sharingLevel as InsightPayload['sharingLevel'];
+  const workDays = body.workDays.map(day => readSharedWorkDay(day, sharingLevel));
+  if (!workDays.every((day): day is SharedWorkDay => day !== null)) {
+    throw new HttpError(400, "workDays may only hold work days as the app shares them at this sharing level");
+  }
+  return getWorkInsights({ sharingLevel, language: body.language, workDays });
+};
+
+// Only the settings the instruction is built from; the instruction itself is the server's
+const readChatInstruction = (value: unknown): ChatInstructionOptions => {
+  if (!isRecord(value)) throw new HttpError(400, "instruction must be an object");
+  const { today, timeZone, weekStartsOn, standardDayHours, sharingLevel, language } = value;
+  if (typeof today !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(today)) throw new HttpError(400, "today must be YYYY-MM-DD");
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) throw new HttpError(400, "timeZone is not a known time zone");
+  if (!Number.isInteger(weekStartsOn) || (weekStartsOn as number) < 0 || (weekStartsOn as number) > 6) {
+    throw new HttpError(400, "weekStartsOn must be 0-6");
+  }
+  if (typeof standardDayHours !== 'number' || !(standardDayHours > 0 && standardDayHours <= 24)) {
+    throw new HttpError(400, "standardDayHours must be between 0 and 24");
+  }
+  const level = sharingLevel as ChatInstructionOptions['sharingLevel'];
+  if (!AI_SHARING_LEVELS.includes(level)) throw new HttpError(400, "sharingLevel is missing or unknown");
+  if (!isLanguage(language)) throw new HttpError(400, "language is missing or unknown");
+  return { today, timeZone, weekStartsOn: weekStartsOn as number, standardDayHours, sharingLevel: level, language };
+};
+
+const handleChat = async (body: unknown) => {
+  if (!isRecord(body) || !Array.isArray(body.contents)) throw new HttpError(400, "contents must be an array");
+  const instruction = readChatInstruction(body.instruction);
+  if (body.contents.length > MAX_CHAT_TURNS) throw new HttpError(413, `Send at most ${MAX_CHAT_TURNS} turns`);
+  const contents = body.contents;
+  if (!contents.every(isValidChatTurn)) {
+    throw new HttpError(400, "contents may only hold questions, answers and calls to the timesheet tools");
+  }
+  if (contents[0]?.role !== 'user' || contents[contents.length - 1].role !== 'user') {
+    throw new HttpError(400, "contents must start and end with a user turn");
+  }
+  return generateChatTurn(instruction, contents);
+};
+
+const handlePush = async (body: unknown) => {
+  if (!isRecord(body) || !Array.isArray(body.punches)) throw new HttpError(400, "punches must be an array");
+  if (body.punches.length > SYNC_BATCH_SIZE) throw new HttpError(413, `Send at most ${SYNC_BATCH_SIZE} punches at a time`);
+  try {
+    return syncStore.push(body.punches);
+  } catch (e) {
+    throw new HttpError(400, e instanceof Error ? e.message : String(e));
+  }
+};
+
+const handlePull = async (url: URL) => {
+  const since = Number(url.searchParams.get('since') ?? 0);
+  if (!Number.isInteger(since) || since < 0) throw new HttpError(400, "since must be a cursor from an earlier response");
+  return syncStore.pull(since);
+};
+
+// Keyed by method and path
+const ROUTES: Record<string, Route> = {
+  'GET /api/health': { handle: async () => ({ ok: true, gemini: hasApiKey() }) },
+  'POST /api/insights': { gemini: true, handle: async req => handleInsights(await readJson(req)) },
+  'POST /api/chat': { gemini: true, handle: async req => handleChat(await readJson(req)) },
+  'GET /api/sync/punches': { handle: async (_, url) => handlePull(url) },
+  'POST /api/sync/punches': { handle: async req => handlePush(await readJson(req)) },
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = ROUTES[`${req.method} ${url.pathname}`];
+    if (!route) {
+      const allowed = ['GET', 'POST'].filter(method => ROUTES[`${method} ${url.pathname}`]);
+      if (allowed.length === 0) throw new HttpError(404, "Not found");
+      throw new HttpError(405, `Use ${allowed.join(' or ')}`, { Allow: allowed.join(', ') });
+    }
+    if (!route.gemini) {
+      sendJson(res, 200, await route.handle(req, url));
+      return;
+    }
+
+    if (!hasApiKey()) throw new HttpError(503, "Gemini is not configured on the server");
+    checkRateLimit(req);
+    let result: unknown;
+    try {
+      result = await route.handle(req, url);
+    } catch (e) {
+      if (e instanceof HttpError) throw e;
+      console.error("Gemini request failed", e);
+      throw new HttpError(502, "Gemini could not answer the request");
+    }
+    sendJson(res, 200, result);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      sendJson(res, e.status, { error: e.message }, e.headers);
+    } else {
+      console.error("Request failed", e);
+      sendJson(res, 500, { error: "Something went wrong on the server" });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`PunchPro server listening on http://localhost:${PORT}${hasApiKey() ? '' : ' (GEMINI_API_KEY is not set)'}`);
+});
@@ -0,0 +1,37 @@
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (key: string, now?: number) => RateLimitResult;
+}
+
+/**
+ * Sliding-window limiter: at most `limit` requests per key in any
+ * `windowMs`. Keys that go quiet are forgotten on the next request.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const requests = new Map<string, number[]>();
+
+  const prune = (now: number) => {
+    requests.forEach((times, key) => {
+      const recent = times.filter(t => t > now - windowMs);
+      if (recent.length === 0) requests.delete(key);
+      else requests.set(key, recent);
+    });
+  };
+
+  return {
+    take: (key, now = Date.now()) => {
+      prune(now);
+      const recent = requests.get(key) ?? [];
+      if (recent.length >= limit) {
+        return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+      }
+      requests.set(key, [...recent, now]);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,75 @@
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { PunchEntry } from "../types";
+import { isValidPunch } from "../services/punchAudit";
+import { SYNC_BATCH_SIZE, SyncResponse, mergePunchVersions } from "../services/punchSync";
+
+interface StoredPunch {
+  punch: PunchEntry;
+  seq: number; // Position in the change feed; bumped on every change
+}
+
+interface SyncFile {
+  seq: number;
+  punches: StoredPunch[];
+}
+
+export interface SyncStore {
+  push: (punches: PunchEntry[]) => SyncResponse;
+  pull: (since: number) => SyncResponse;
+}
+
+/**
+ * The reference server's punch store: every punch with the sequence number
+ * of its last change, kept in memory and written to `file` after each push.
+ */
+export const createSyncStore = (file: string): SyncStore => {
+  const punches = new Map<string, StoredPunch>();
+  let seq = 0;
+
+  if (existsSync(file)) {
+    const saved = JSON.parse(readFileSync(file, 'utf8')) as SyncFile;
+    // Punches stored before validation covered every field are never served again
+    saved.punches.filter(stored => isValidPunch(stored.punch)).forEach(stored => punches.set(stored.punch.id, stored));
+    seq = saved.seq;
+  }
+
+  // Written aside and renamed, so a crash never leaves half a file
+  const persist = () => {
+    const data: SyncFile = { seq, punches: [...punches.values()] };
+    writeFileSync(`${file}.tmp`, JSON.stringify(data));
+    renameSync(`${file}.tmp`, file);
+  };
+
+  return {
+    push: (incoming) => {
+      const invalid = incoming.filter(p => !isValidPunch(p));
+      if (invalid.length > 0) throw new Error(`${invalid.length} of the punches are not valid`);
+
+      let changed = false;
+      const stored = incoming.map(punch => {
+        const current = punches.get(punch.id);
+        const merged = current ? mergePunchVersions(current.punch, punch) : punch;
+        if (!current || JSON.stringify(merged) !== JSON.stringify(current.punch)) {
+          punches.set(punch.id, { punch: merged, seq: ++seq });
+          changed = true;
+        }
+        return merged;
+      });
+      if (changed) persist();
+      return { punches: stored, cursor: seq };
+    },
+
+    pull: (since) => {
+      const changes = [...punches.values()]
+        .filter(stored => stored.seq > since)
+        .sort((a, b) => a.seq - b.seq);
+      const page = changes.slice(0, SYNC_BATCH_SIZE);
+      return {
+        punches: page.map(stored => stored.punch),
+        cursor: page.length > 0 ? page[page.length - 1].seq : Math.max(since, seq),
+        more: changes.length > page.length,
+      };
+    },
+  };
+};
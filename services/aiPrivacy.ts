@@ -0,0 +1,126 @@
+
+import { AiSettings, AiSharingLevel, BreakCategory, Language, PunchType, WorkDay } from "../types";
+import { PUNCH_TYPES } from "./punchAudit";
+import { getZonedParts } from "./timeEngine";
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  enabled: true,
+  sharingLevel: 'AGGREGATES',
+  consentedAt: null,
+};
+
+export const AI_SHARING_LEVELS: AiSharingLevel[] = ['AGGREGATES', 'HOURLY', 'FULL'];
+
+export interface SharedPunch {
+  type: PunchType;
+  time: string; // Local HH:MM; HH:00 when rounded, so 24:00 is the end of the day
+  breakCategory?: BreakCategory;
+  task?: string;
+}
+
+export interface SharedWorkDay {
+  date: string;
+  totalHours: number;
+  paidBreakHours: number;
+  unpaidBreakHours: number;
+  breaks: number;
+  punches?: SharedPunch[]; // Left out when only aggregates are shared
+}
+
+// Exactly what goes to the server for an insight request
+export interface InsightPayload {
+  sharingLevel: AiSharingLevel;
+  language: Language; // The insight is written in it
+  workDays: SharedWorkDay[];
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Whether AI features may be used at all right now
+export const canUseAi = (ai: AiSettings) => ai.enabled && ai.consentedAt !== null;
+
+const sharePunches = (day: WorkDay, level: AiSharingLevel, timeZone: string): SharedPunch[] =>
+  day.punches.map(punch => {
+    const { hour, minute } = getZonedParts(punch.timestamp, timeZone);
+    if (level === 'HOURLY') {
+      return {
+        type: punch.type,
+        time: `${pad(Math.round((hour * 60 + minute) / 60))}:00`,
+        ...(punch.breakCategory && { breakCategory: punch.breakCategory }),
+      };
+    }
+    return {
+      type: punch.type,
+      time: `${pad(hour)}:${pad(minute)}`,
+      ...(punch.breakCategory && { breakCategory: punch.breakCategory }),
+      ...(punch.task && { task: punch.task }),
+    };
+  });
+
+/**
+ * Cuts work days down to the chosen sharing level. IDs, user IDs and the
+ * revision log are never shared; they say nothing about work habits.
+ */
+export const buildInsightPayload = (
+  workDays: WorkDay[],
+  level: AiSharingLevel,
+  timeZone: string,
+  language: Language
+): InsightPayload => ({
+  sharingLevel: level,
+  language,
+  workDays: workDays.map(day => ({
+    date: day.date,
+    totalHours: day.totalHours,
+    paidBreakHours: day.paidBreakHours,
+    unpaidBreakHours: day.unpaidBreakHours,
+    breaks: day.punches.filter(p => p.type === 'BREAK_START').length,
+    ...(level !== 'AGGREGATES' && { punches: sharePunches(day, level, timeZone) }),
+  })),
+});
+
+// Bounds on what a shared day can hold; a DST day has 25 hours
+const MAX_DAY_HOURS = 25;
+const MAX_SHARED_PUNCHES = 100;
+const MAX_SHARED_TASK_LENGTH = 200;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isHours = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= MAX_DAY_HOURS;
+
+const readSharedPunch = (value: unknown, level: AiSharingLevel): SharedPunch | null => {
+  if (!isRecord(value)) return null;
+  const { type, time, breakCategory, task } = value;
+  if (!PUNCH_TYPES.includes(type as PunchType)) return null;
+  const timePattern = level === 'HOURLY' ? /^([01]\d|2[0-4]):00$/ : /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (typeof time !== 'string' || !timePattern.test(time)) return null;
+  if (breakCategory !== undefined && breakCategory !== 'PAID' && breakCategory !== 'UNPAID') return null;
+  // Tasks are only shared in full
+  if (task !== undefined && (level !== 'FULL' || typeof task !== 'string' || task.length > MAX_SHARED_TASK_LENGTH)) return null;
+  return {
+    type: type as PunchType,
+    time,
+    ...(breakCategory !== undefined && { breakCategory }),
+    ...(task !== undefined && { task }),
+  };
+};
+
+/**
+ * A work day as buildInsightPayload shares it at `level`, copied without
+ * any other keys, or null when it couldn't have come from there. Used by
+ * the server, since whatever passes ends up in the prompt.
+ */
+export const readSharedWorkDay = (value: unknown, level: AiSharingLevel): SharedWorkDay | null => {
+  if (!isRecord(value)) return null;
+  const { date, totalHours, paidBreakHours, unpaidBreakHours, breaks, punches } = value;
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  if (!isHours(totalHours) || !isHours(paidBreakHours) || !isHours(unpaidBreakHours)) return null;
+  if (!Number.isInteger(breaks) || (breaks as number) < 0 || (breaks as number) > MAX_SHARED_PUNCHES) return null;
+  const day: SharedWorkDay = { date, totalHours, paidBreakHours, unpaidBreakHours, breaks: breaks as number };
+  if (level === 'AGGREGATES') return punches === undefined ? day : null;
+  if (!Array.isArray(punches) || punches.length > MAX_SHARED_PUNCHES) return null;
+  const shared = punches.map(punch => readSharedPunch(punch, level));
+  return shared.every((punch): punch is SharedPunch => punch !== null) ? { ...day, punches: shared } : null;
+};
@@ -0,0 +1,198 @@
+
+import { PunchEntry, TimeSettings, WorkDay } from "../types";
+import { getWeekStart, getWeekday } from "./schedules";
+import { addDays, buildSessions, daysBetween, getDayKey, getZonedParts, parseDateKey, toDateKey } from "./timeEngine";
+
+export type RangeKind = 'WEEK' | 'MONTH' | 'QUARTER' | 'CUSTOM';
+
+export interface AnalyticsRange {
+  kind: RangeKind;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface DailyHours {
+  date: string;
+  hours: number;
+}
+
+export interface PeriodSummary {
+  totalHours: number;
+  daysWorked: number; // Days with hours that weren't leave or a holiday
+  averageDailyHours: number; // Per day worked
+}
+
+export interface Trend {
+  value: string;
+  isUp: boolean;
+}
+
+export interface HeatmapCell extends DailyHours {
+  week: number; // Column, counted from the week the range starts in
+  weekday: number; // Row, 0 = the first day of the week
+}
+
+export interface HourBucket {
+  hour: number;
+  starts: number; // Days whose first session started in this hour
+  ends: number; // Days whose last session ended in this hour
+}
+
+export interface DayBoundary {
+  start: number;
+  end: number;
+  open: boolean; // The last session is still running, so `end` is now
+}
+
+export interface RollingAverage extends DailyHours {
+  average: number;
+}
+
+export const RANGE_KINDS: RangeKind[] = ['WEEK', 'MONTH', 'QUARTER', 'CUSTOM'];
+
+export const ROLLING_WINDOW_DAYS = 7;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// First of the month `months` away from the month `dateKey` is in
+const addMonths = (dateKey: string, months: number) => {
+  const { year, month } = parseDateKey(dateKey);
+  const index = year * 12 + (month - 1) + months;
+  return toDateKey(Math.floor(index / 12), (index % 12) + 1, 1);
+};
+
+// The calendar week, month or quarter `dateKey` falls in
+export const getPeriodRange = (kind: Exclude<RangeKind, 'CUSTOM'>, dateKey: string, weekStartsOn = 0): AnalyticsRange => {
+  if (kind === 'WEEK') {
+    const start = getWeekStart(dateKey, weekStartsOn);
+    return { kind, start, end: addDays(start, 6) };
+  }
+  const { month } = parseDateKey(dateKey);
+  const length = kind === 'MONTH' ? 1 : 3;
+  const start = addMonths(dateKey, -((month - 1) % length));
+  return { kind, start, end: addDays(addMonths(start, length), -1) };
+};
+
+export const createCustomRange = (start: string, end: string): AnalyticsRange =>
+  ({ kind: 'CUSTOM', start, end: end < start ? start : end });
+
+// Calendar periods move by whole periods; custom ranges by their own length
+export const shiftRange = (range: AnalyticsRange, steps: number): AnalyticsRange => {
+  if (range.kind === 'CUSTOM') {
+    const length = daysBetween(range.start, range.end) + 1;
+    return createCustomRange(addDays(range.start, steps * length), addDays(range.end, steps * length));
+  }
+  if (range.kind === 'WEEK') return { kind: 'WEEK', start: addDays(range.start, steps * 7), end: addDays(range.end, steps * 7) };
+  return getPeriodRange(range.kind, addMonths(range.start, steps * (range.kind === 'MONTH' ? 1 : 3)));
+};
+
+/**
+ * The part of `range` that has happened by `today`, and the same number of
+ * days from the start of the period before it, so a week in progress isn't
+ * compared with a whole one. Null when the range hasn't started yet.
+ */
+export const getComparisonRanges = (range: AnalyticsRange, today: string) => {
+  if (range.start > today) return null;
+  const currentEnd = range.end < today ? range.end : today;
+  const previous = shiftRange(range, -1);
+  const previousEnd = addDays(previous.start, daysBetween(range.start, currentEnd));
+  return {
+    current: { start: range.start, end: currentEnd },
+    previous: { start: previous.start, end: previousEnd < previous.end ? previousEnd : previous.end },
+  };
+};
+
+// Every day from `start` to `end` inclusive, days without work included
+export const getDailyHours = (workDays: WorkDay[], start: string, end: string): DailyHours[] => {
+  const hours = new Map(workDays.map(d => [d.date, d.totalHours]));
+  const days: DailyHours[] = [];
+  for (let i = 0; i <= daysBetween(start, end); i++) {
+    const date = addDays(start, i);
+    days.push({ date, hours: hours.get(date) ?? 0 });
+  }
+  return days;
+};
+
+// Leave and holidays would drag the average down, so they aren't days worked
+export const summarizePeriod = (daily: DailyHours[], daysOff: ReadonlySet<string>): PeriodSummary => {
+  const totalHours = daily.reduce((acc, d) => acc + d.hours, 0);
+  const worked = daily.filter(d => d.hours > 0 && !daysOff.has(d.date));
+  const workedHours = worked.reduce((acc, d) => acc + d.hours, 0);
+  return {
+    totalHours: parseFloat(totalHours.toFixed(1)),
+    daysWorked: worked.length,
+    averageDailyHours: worked.length > 0 ? parseFloat((workedHours / worked.length).toFixed(1)) : 0,
+  };
+};
+
+// Change from the previous period; nothing to compare against without one
+export const getTrend = (current: number, previous: number): Trend | undefined => {
+  if (previous <= 0) return undefined;
+  const change = Math.round(((current - previous) / previous) * 100);
+  return { value: `${change > 0 ? '+' : ''}${change}%`, isUp: change >= 0 };
+};
+
+export const buildHeatmap = (daily: DailyHours[], weekStartsOn = 0): HeatmapCell[] => {
+  if (daily.length === 0) return [];
+  const firstWeek = getWeekStart(daily[0].date, weekStartsOn);
+  return daily.map(day => ({
+    ...day,
+    week: Math.floor(daysBetween(firstWeek, day.date) / 7),
+    weekday: (getWeekday(day.date) - weekStartsOn + 7) % 7,
+  }));
+};
+
+// First punch-in and last punch-out of each work day from `start` to `end`
+export const getDayBoundaries = (
+  punches: PunchEntry[],
+  settings: TimeSettings,
+  start: string,
+  end: string,
+  now: number = Date.now()
+): Map<string, DayBoundary> => {
+  const days = new Map<string, DayBoundary>();
+  buildSessions(punches, settings, now).forEach(session => {
+    const date = getDayKey(session.start, settings);
+    if (date < start || date > end) return;
+    const day = days.get(date);
+    if (!day) {
+      days.set(date, { start: session.start, end: session.end, open: session.open });
+    } else if (session.end > day.end) {
+      days.set(date, { ...day, end: session.end, open: session.open });
+    }
+  });
+  return days;
+};
+
+/**
+ * When each work day from `start` to `end` began and finished, counted by
+ * hour of the day. Days still in progress have no end yet.
+ */
+export const getStartEndDistribution = (
+  punches: PunchEntry[],
+  settings: TimeSettings,
+  start: string,
+  end: string,
+  now: number = Date.now()
+): HourBucket[] => {
+  const buckets: HourBucket[] = Array.from({ length: 24 }, (_, hour) => ({ hour, starts: 0, ends: 0 }));
+  getDayBoundaries(punches, settings, start, end, now).forEach(day => {
+    buckets[getZonedParts(day.start, settings.timeZone).hour].starts++;
+    if (!day.open) buckets[getZonedParts(day.end, settings.timeZone).hour].ends++;
+  });
+
+  // Trim quiet hours at either end, keeping one hour of margin
+  const busy = buckets.filter(b => b.starts > 0 || b.ends > 0).map(b => b.hour);
+  if (busy.length === 0) return [];
+  return buckets.slice(Math.max(0, Math.min(...busy) - 1), Math.min(24, Math.max(...busy) + 2));
+};
+
+/**
+ * Average of each day and the `window - 1` days before it. `daily` has to
+ * start that many days early; those lead-in days aren't returned.
+ */
+export const getRollingAverage = (daily: DailyHours[], window: number = ROLLING_WINDOW_DAYS): RollingAverage[] =>
+  daily.slice(window - 1).map((day, i) => ({
+    ...day,
+    average: round2(daily.slice(i, i + window).reduce((acc, d) => acc + d.hours, 0) / window),
+  }));
@@ -1,52 +1,60 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { WorkDay, AIInsight } from "../types";
-
-export const getWorkInsights = async (workData: WorkDay[]): Promise<AIInsight> => {
-  // Directly using process.env.API_KEY as it is managed by the environment
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const prompt = `
-    Analyze the following work log data for a user. Provide a summary of their work habits, 
-    recommendations for better work-life balance or productivity, and a productivity score (0-100).
-    
-    Data: ${JSON.stringify(workData)}
-    
-    Focus on:
-    - Consistency of work hours.
-    - Potential burnout (working too long).
-    - Regularity of breaks.
-  `;
+import { AIInsight, AiSettings, TimeSettings } from "../types";
+import { InsightPayload, buildInsightPayload, canUseAi } from "./aiPrivacy";
+import { Localizer } from "./i18n";
+import { InsightProvider, parseInsight } from "./insights";
+import { ChatModelClient, ChatTurn } from "./timesheetChat";
 
+// Gemini calls go through the app's server, which holds the API key
+const postToServer = async (path: string, userId: string, body: unknown, i18n: Localizer): Promise<unknown> => {
+  let response: Response;
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            recommendations: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            },
-            productivityScore: { type: Type.NUMBER }
-          },
-          required: ["summary", "recommendations", "productivityScore"]
-        }
-      }
+    response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-PunchPro-User': userId },
+      body: JSON.stringify(body),
     });
+  } catch {
+    throw new Error(i18n.t('insights.unreachable'));
+  }
 
-    const result = JSON.parse(response.text || '{}');
-    return result as AIInsight;
-  } catch (error) {
-    console.error("Gemini Insight Error:", error);
-    return {
-      summary: "We couldn't generate insights at this moment. Keep up the good work!",
-      recommendations: ["Ensure you take regular breaks", "Log your punches consistently"],
-      productivityScore: 0
-    };
+  const data: unknown = await response.json().catch(() => null);
+  const message = typeof data === 'object' && data !== null && 'error' in data ? String(data.error) : null;
+  if (response.status === 429) {
+    const seconds = Number(response.headers.get('Retry-After'));
+    throw new Error(seconds > 0 ? i18n.t('insights.rateLimited.wait', { seconds }) : i18n.t('insights.rateLimited'));
   }
+  if (response.status === 503 || (response.status >= 500 && !message)) {
+    throw new Error(message ?? i18n.t('insights.serverUnavailable'));
+  }
+  if (!response.ok) throw new Error(message ?? i18n.t('insights.serverStatus', { status: response.status }));
+  return data;
 };
+
+export const getWorkInsights = async (userId: string, payload: InsightPayload, i18n: Localizer): Promise<AIInsight> => {
+  const data = await postToServer('/api/insights', userId, payload, i18n);
+  // Checked again here; the server is only a pass-through
+  return parseInsight(data);
+};
+
+// Sends only what the sharing level allows, and nothing before consent
+export const createGeminiInsightProvider = (
+  userId: string,
+  ai: AiSettings,
+  time: TimeSettings,
+  i18n: Localizer
+): InsightProvider => ({
+  source: 'GEMINI',
+  label: 'Gemini',
+  isAvailable: () => canUseAi(ai) && navigator.onLine,
+  getInsights: workDays => getWorkInsights(userId, buildInsightPayload(workDays, ai.sharingLevel, time.timeZone, i18n.language), i18n),
+});
+
+// Answers timesheet questions with function calling; the chat runs the calls locally
+export const createGeminiChatClient = (userId: string, ai: AiSettings, i18n: Localizer): ChatModelClient => ({
+  isAvailable: () => canUseAi(ai) && navigator.onLine,
+  generate: async ({ instruction, contents }) => {
+    const data = await postToServer('/api/chat', userId, { instruction, contents }, i18n);
+    return data as ChatTurn;
+  },
+});
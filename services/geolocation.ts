@@ -0,0 +1,117 @@
+
+import { LocationFailure, LocationSettings, PunchLocation, UserProfile, WorkSite } from "../types";
+import { Localizer } from "./i18n";
+
+export type LocationReading = { location: PunchLocation } | { failure: LocationFailure };
+
+/**
+ * Where punches get their position from. Never rejects: a declined or failed
+ * lookup is a reading too, and the punch goes ahead without a location.
+ * Tests can pass `createFakeGeolocation` instead of the browser's.
+ */
+export interface GeolocationSource {
+  read: () => Promise<LocationReading>;
+}
+
+export interface SiteDistance {
+  site: WorkSite;
+  meters: number;
+}
+
+export const DEFAULT_LOCATION_SETTINGS: LocationSettings = {
+  stampPunches: false,
+  sites: [],
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// A punch waits at most this long for a position
+const LOOKUP_TIMEOUT_MS = 8000;
+
+export const browserGeolocation: GeolocationSource = {
+  read: () => new Promise(resolve => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve({ failure: 'UNAVAILABLE' });
+      return;
+    }
+    // getCurrentPosition's own timeout doesn't run while the permission prompt is open
+    const timer = setTimeout(() => resolve({ failure: 'TIMEOUT' }), LOOKUP_TIMEOUT_MS);
+    const settle = (reading: LocationReading) => {
+      clearTimeout(timer);
+      resolve(reading);
+    };
+    navigator.geolocation.getCurrentPosition(
+      position => settle({
+        location: {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: Math.round(position.coords.accuracy),
+        },
+      }),
+      error => settle({
+        failure: error.code === error.PERMISSION_DENIED ? 'DENIED' : error.code === error.TIMEOUT ? 'TIMEOUT' : 'UNAVAILABLE',
+      }),
+      { enableHighAccuracy: true, timeout: LOOKUP_TIMEOUT_MS, maximumAge: 60 * 1000 }
+    );
+  }),
+};
+
+// Hands out the given readings in turn, repeating the last one
+export const createFakeGeolocation = (readings: LocationReading[]): GeolocationSource => {
+  let next = 0;
+  return {
+    read: async () => readings[Math.min(next++, readings.length - 1)] ?? { failure: 'UNAVAILABLE' },
+  };
+};
+
+// Great-circle distance with the haversine formula
+export const distanceMeters = (a: Pick<PunchLocation, 'latitude' | 'longitude'>, b: Pick<PunchLocation, 'latitude' | 'longitude'>) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const findNearestSite = (location: PunchLocation, sites: WorkSite[]): SiteDistance | null =>
+  sites.reduce<SiteDistance | null>((nearest, site) => {
+    const meters = distanceMeters(location, site);
+    return !nearest || meters < nearest.meters ? { site, meters } : nearest;
+  }, null);
+
+/**
+ * Whether a position is clearly outside every site. The reported accuracy
+ * counts in the punch's favor, so a vague fix at the fence isn't flagged.
+ * Without any sites configured nothing is off site.
+ */
+export const isOffSite = (location: PunchLocation, sites: WorkSite[]): boolean =>
+  sites.length > 0 && sites.every(site => distanceMeters(location, site) > site.radiusMeters + location.accuracy);
+
+/**
+ * The sites a person's punches are checked against: every site when everyone
+ * or this person is located, otherwise only the sites that require it.
+ */
+export const getCheckedSites = (location: LocationSettings, profile?: Pick<UserProfile, 'requiresLocation'> | null): WorkSite[] =>
+  location.stampPunches || profile?.requiresLocation ? location.sites : location.sites.filter(site => site.requiresLocation);
+
+// Whether a punch has to ask the device where it is; a site can't be checked without a position
+export const needsLocation = (location: LocationSettings, profile?: Pick<UserProfile, 'requiresLocation'> | null): boolean =>
+  location.stampPunches || !!profile?.requiresLocation || location.sites.some(site => site.requiresLocation);
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${parseFloat((meters / 1000).toFixed(1))} km`;
+
+export const createWorkSite = (
+  name: string,
+  latitude: number,
+  longitude: number,
+  radiusMeters: number,
+  i18n: Localizer
+): WorkSite => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || i18n.t('site.defaultName'),
+  latitude,
+  longitude,
+  radiusMeters,
+});
@@ -0,0 +1,1282 @@
+
+import { ClockFormat, DisplaySettings, DurationFormat, Language } from "../types";
+import { addDays, formatClockTime, formatDateKey } from "./timeEngine";
+
+const EN = {
+  'app.loading': 'Loading…',
+  'app.dismiss': 'Dismiss',
+
+  'storage.UPGRADE_BLOCKED': 'Waiting for another PunchPro tab running an older version. Close or reload your other PunchPro tabs to continue.',
+  'storage.CLOSED_FOR_UPGRADE': 'PunchPro was updated in another tab. Reload this tab; changes made here are not saved until then.',
+  'storage.RECOVERED': "Your saved data couldn't be read, so it was backed up before the database was rebuilt. Download the backup to keep it; its punches can be imported back under Export & Import in Settings.",
+  'storage.FALLBACK': "Your saved data couldn't be opened. It was left untouched, and new changes are kept in this browser's local storage for now.",
+  'storage.reload': 'Reload',
+  'storage.downloadBackup': 'Download backup',
+
+  'nav.dashboard': 'Dashboard',
+  'nav.history': 'History',
+  'nav.payroll': 'Payroll',
+  'nav.team': 'Team',
+  'nav.leave': 'Time Off',
+  'nav.insights': 'AI Insights',
+  'nav.insightsShort': 'Insights',
+  'nav.settings': 'Settings',
+  'nav.profile': 'Profile',
+
+  'title.dashboard': 'Performance Overview',
+  'title.history': 'Work History',
+  'title.payroll': 'Payroll Summary',
+  'title.team': 'Team Overview',
+  'title.leave': 'Time Off',
+  'title.profile': 'Profile',
+  'title.settings': 'Settings',
+  'title.insights': 'Smart Insights',
+
+  'role.MANAGER': 'Manager',
+  'role.EMPLOYEE': 'Employee',
+
+  'status.PUNCHED_IN': 'On Duty',
+  'status.ON_BREAK': 'On Break',
+  'status.PUNCHED_OUT': 'Away',
+
+  'punch.IN': 'Punch In',
+  'punch.OUT': 'Punch Out',
+  'punch.BREAK_START': 'Break Start',
+  'punch.BREAK_END': 'Break End',
+  'punch.SWITCH': 'Switch Project',
+  'punch.paid': 'paid',
+  'punch.unpaid': 'unpaid',
+  'punch.noProject': 'No project',
+  'punch.task': 'Task (optional)',
+  'punch.switch': 'Switch',
+  'punch.switchHint': 'Switch project without punching out',
+  'punch.break': 'Break',
+  'punch.endBreak': 'End Break',
+  'punch.paidBreak': 'Paid',
+  'punch.unpaidBreak': 'Unpaid',
+
+  'range.WEEK': 'Week',
+  'range.MONTH': 'Month',
+  'range.QUARTER': 'Quarter',
+  'range.CUSTOM': 'Custom',
+
+  'dashboard.issues.one': '{count} punch issue needs attention.',
+  'dashboard.issues.other': '{count} punch issues need attention.',
+  'dashboard.issuesHint': 'Missing or out-of-order punches can leave hours uncounted.',
+  'dashboard.review': 'Review',
+  'dashboard.totalHours': 'Total Hours ({period})',
+  'dashboard.customPeriod': 'Range',
+  'dashboard.dailyAverage': 'Daily Average',
+  'dashboard.status': 'Active Status',
+  'dashboard.activityByProject': 'Activity by Project',
+  'dashboard.scheduled': 'Scheduled',
+  'dashboard.recentActivity': 'Recent Activity',
+  'dashboard.noActivity': 'No recent activity',
+
+  'analytics.dailyHours': 'Daily Hours',
+  'analytics.dailyHoursHint': 'Each square is a day, darker as it gets closer to a full {hours} day.',
+  'analytics.less': 'Less',
+  'analytics.more': 'More',
+  'analytics.rollingAverage': 'Rolling Average',
+  'analytics.rollingAverageHint': 'Hours per day averaged over the last {days} days, rest days included.',
+  'analytics.hours': 'Hours',
+  'analytics.average': '{days}-day average',
+  'analytics.startEnd': 'Start & End Times',
+  'analytics.startEndHint': 'How many days began and finished in each hour.',
+  'analytics.start': 'Start',
+  'analytics.end': 'End',
+  'analytics.started': 'Started',
+  'analytics.finished': 'Finished',
+  'analytics.noShifts': 'No shifts in this range.',
+
+  'team.onDutyCount': '{count} of {total} on duty right now',
+  'team.member': 'Member',
+  'team.status': 'Status',
+  'team.hoursWeek': 'Hours (Week)',
+  'team.missingPunches': 'Missing Punches',
+  'team.issues': 'All Issues',
+  'team.toApprove': 'To Approve',
+  'team.since': 'since {time}',
+  'team.notCounted': '+{hours} not counted (open shift)',
+  'team.weeks.one': '{count} week',
+  'team.weeks.other': '{count} weeks',
+
+  'sync.syncing': 'Syncing…',
+  'sync.offline': 'Offline',
+  'sync.failed': 'Sync failed',
+  'sync.synced': 'Synced',
+  'sync.never': 'Not synced yet',
+  'sync.queued': '{count} queued',
+  'sync.lastSynced': 'Last synced {time}',
+  'sync.syncNow': 'Click to sync now',
+
+  'insights.title': 'AI Workplace Assistant',
+  'insights.intro': 'Get personalized recommendations based on your work patterns to optimize your productivity and well-being.',
+  'insights.analyzing': 'Analyzing Work Patterns...',
+  'insights.generate': 'Generate New Insights',
+  'insights.sharing': 'Sharing: {level}',
+  'insights.aiOff': 'AI is off, local analysis only',
+  'insights.summary': 'Summary',
+  'insights.workDays': 'Work days {range}',
+  'insights.reused': 'Reused, the punches behind it are unchanged',
+  'insights.fallback': '{reason}, so these come from your punch data alone.',
+  'insights.score': '{score}% Score',
+  'insights.recommendations': 'Recommendations',
+
+  'ai.AGGREGATES': 'Daily totals only',
+  'ai.HOURLY': 'Times rounded to the hour',
+  'ai.FULL': 'Full detail',
+
+  'display.title': 'Display & Language',
+  'display.description': 'How the app talks to you and shows dates, times and hours. AI insights are written in the chosen language too.',
+  'display.language': 'Language',
+  'display.clock': 'Time Format',
+  'display.clock.12H': '12-hour (2:30 PM)',
+  'display.clock.24H': '24-hour (14:30)',
+  'display.duration': 'Durations',
+  'display.duration.DECIMAL': 'Decimal hours (7.83h)',
+  'display.duration.HOURS_MINUTES': 'Hours and minutes (7:50)',
+  'display.weekStart': 'First Day of the Week',
+  'display.weekStartHint': 'Weekly stats and charts follow calendar weeks starting on this day. Payroll weeks keep the pay period anchor.',
+
+  'punchChip.IN': 'IN',
+  'punchChip.OUT': 'OUT',
+  'punchChip.SWITCH': 'SWITCH',
+  'punchChip.BREAK_START': 'BREAK',
+  'punchChip.BREAK_END': 'BACK',
+  'punchChip.breakPaid': 'BREAK (Paid)',
+  'punchChip.breakUnpaid': 'BREAK (Unpaid)',
+
+  'timesheet.DRAFT': 'Draft',
+  'timesheet.SUBMITTED': 'Submitted',
+  'timesheet.APPROVED': 'Approved',
+  'timesheet.REJECTED': 'Rejected',
+  'timesheet.lock.APPROVED': "This week's timesheet is approved, so its punches can't change.",
+  'timesheet.lock.SUBMITTED': "This week's timesheet is submitted; it has to be rejected before its punches can change.",
+  'timesheet.blocker.running': 'The week is still running.',
+  'timesheet.blocker.issues.one': 'Fix {count} punch issue first.',
+  'timesheet.blocker.issues.other': 'Fix {count} punch issues first.',
+  'timesheet.blocker.open': 'A shift from this week is still open.',
+
+  'leave.VACATION': 'Vacation',
+  'leave.SICK': 'Sick',
+  'leave.PERSONAL': 'Personal',
+  'leave.UNPAID': 'Unpaid',
+
+  'ai.desc.AGGREGATES': 'Worked and break hours per day. No punch times.',
+  'ai.desc.HOURLY': 'Daily totals plus each punch, with its time rounded to the nearest hour.',
+  'ai.desc.FULL': 'Daily totals plus each punch at its exact minute, with break types and task notes.',
+  'insightSource.GEMINI': 'Gemini',
+  'insightSource.LOCAL': 'Local analyzer',
+
+  'exception.LATE_ARRIVAL': 'Late {duration}',
+  'exception.EARLY_DEPARTURE': 'Left {duration} early',
+  'exception.NO_SHOW': 'No-show',
+  'exception.UNSCHEDULED_WORK': 'Unscheduled {duration}',
+
+  'location.failure.DENIED': 'Location access was declined',
+  'location.failure.UNAVAILABLE': 'The device could not find its location',
+  'location.failure.TIMEOUT': 'Finding the location took too long',
+
+  'issue.duplicate': 'Two punches at the same time',
+  'issue.duplicate.fix': 'Delete the duplicate or correct its time.',
+  'issue.consecutiveIn': 'Punched in again without punching out',
+  'issue.consecutiveIn.fix': 'Add the missing OUT for the earlier shift; until then it counts for nothing.',
+  'issue.orphanOut': 'Punched out without punching in',
+  'issue.orphanOut.fix': 'Add the missing IN, or delete this OUT if it was a mistake.',
+  'issue.orphanSwitch': 'Project switch outside a shift',
+  'issue.breakOutside': 'Break punch outside a shift',
+  'issue.breakNotStarted': 'Break ended without starting',
+  'issue.breakTwice': 'Break started twice',
+  'issue.addInOrDelete': 'Add the missing IN or delete this punch.',
+  'issue.deleteOrRetype': 'Delete this punch or correct its type.',
+  'issue.longShift.closed': 'Shift lasted {hours}',
+  'issue.longShift.open': 'Shift has been running for {hours}',
+  'issue.longShift.checkOut': 'Check the punch-out time.',
+  'issue.longShift.punchOut': 'Punch out, or add the OUT that was missed.',
+  'issue.openSession': 'Shift left open for {days} days',
+  'issue.openSession.fix': "Add the missing OUT; until then up to {hours} of this shift don't count toward your hours.",
+  'issue.offSite': 'Punched {distance} from {site}',
+  'issue.offSite.fix': 'Check that this was meant to be off site.',
+  'issue.noLocation': 'Punched without a location',
+
+  'reminder.shiftLength.title': 'Still punched in?',
+  'reminder.shiftLength.body': "Your shift has been running for {duration}. Don't forget to punch out.",
+  'reminder.endOfDay.title': 'End of day',
+  'reminder.endOfDay.body': "It's past {time} and you're still punched in.",
+
+  'app.close': 'Close',
+  'app.cancel': 'Cancel',
+  'app.save': 'Save',
+  'app.remove': 'Remove',
+  'app.removedProfile': 'Removed profile',
+
+  'consent.title': 'Sharing Data With Gemini',
+  'consent.intro': 'AI insights and timesheet questions are answered by Google Gemini. Choose how much of your punch data it may see. Nothing is sent until you agree, and you can change this or turn AI off in Settings.',
+  'consent.preview.one': 'Next Insight Request ({count} day)',
+  'consent.preview.other': 'Next Insight Request ({count} days)',
+  'consent.decline': 'Use Local Analysis Only',
+  'consent.accept': 'Agree and Share',
+
+  'revisions.title': 'Revision Log',
+  'revisions.current': 'Currently {punch} at {time}',
+  'revisions.currentDeleted': 'Currently {punch} at {time} (deleted)',
+  'revisions.CREATED': 'CREATED',
+  'revisions.EDITED': 'EDITED',
+  'revisions.DELETED': 'DELETED',
+  'revisions.RESTORED': 'RESTORED',
+  'revisions.previous': 'Was {punch} at {time}',
+  'revisions.none': 'This punch has never been changed.',
+
+  'editor.editTitle': 'Edit Punch',
+  'editor.addTitle': 'Add Missed Punch',
+  'editor.breakType': 'Break Type',
+  'editor.unpaidBreak': 'Unpaid (e.g. lunch)',
+  'editor.paidBreak': 'Paid (e.g. short rest break)',
+  'editor.project': 'Project',
+  'editor.task': 'Task',
+  'editor.optional': 'Optional',
+  'editor.time': 'Time',
+  'editor.reason': 'Reason',
+  'editor.reasonPlaceholder': 'e.g. Forgot to punch out before leaving',
+  'editor.restore': 'Restore',
+  'editor.delete': 'Delete',
+
+  'transfer.title': 'Export & Import',
+  'transfer.description': 'Move your timesheet between browsers or into a payroll spreadsheet.',
+  'transfer.from': 'From',
+  'transfer.to': 'To',
+  'transfer.punchesCsv': 'Punches CSV',
+  'transfer.punchesJson': 'Punches JSON',
+  'transfer.dailyCsv': 'Daily Summary CSV',
+  'transfer.dailyJson': 'Daily Summary JSON',
+  'transfer.projectsCsv': 'Project Hours CSV',
+  'transfer.sessionsIcs': 'Sessions Calendar (.ics)',
+  'transfer.import': 'Import Punches (CSV or JSON)',
+  'transfer.new': '{count} new',
+  'transfer.duplicates': '{count} duplicates skipped',
+  'transfer.invalid': '{count} invalid',
+  'transfer.row': 'Row {row}: {message}',
+  'transfer.deleted': '(deleted)',
+  'transfer.merge.one': 'Merge {count} Punch',
+  'transfer.merge.other': 'Merge {count} Punches',
+
+  'import.unknownType': 'Unknown punch type "{value}"',
+  'import.invalidTimestamp': 'Invalid timestamp "{value}"',
+  'import.futureTimestamp': 'Timestamp is in the future',
+  'import.unknownBreak': 'Unknown break category "{value}"',
+  'import.jsonShape': 'JSON file must contain an array of punches or a "punches" array',
+  'import.empty': 'The file is empty',
+  'import.csvColumns': 'CSV file needs at least "type" and "timestamp" columns',
+  'import.unreadable': 'Could not read the file',
+  'import.notAPunch': 'Not a punch record',
+
+  'insightHistory.scoreTitle': 'Score Over Time',
+  'insightHistory.scoreHint': 'Productivity score of every report generated so far.',
+  'insightHistory.score': 'Score',
+  'insightHistory.pastTitle': 'Past Reports',
+  'insightHistory.pastHint': 'Open one to read it again, or tick two to compare them.',
+  'insightHistory.compare': 'Compare',
+  'insightHistory.comparison': 'Comparison',
+  'insightHistory.points': '{change} points',
+
+  'chat.title': 'Ask About Your Timesheet',
+  'chat.description': 'Answers are worked out from your punches by the app; the model only picks what to look up.',
+  'chat.example.overtime': 'How much overtime did I do last month?',
+  'chat.example.latestStart': 'Which weekday do I start latest?',
+  'chat.example.longestDay': 'What was my longest day this year?',
+  'chat.lookingUp': 'Looking it up…',
+  'chat.needsConsent': 'Questions are answered with Gemini. Choose what it may see before asking.',
+  'chat.reviewSharing': 'Review Data Sharing',
+  'chat.placeholder': 'Ask a question…',
+  'chat.offline': 'Questions need a connection',
+  'chat.ask': 'Ask',
+
+  'project.deleted': 'Deleted project',
+
+  'history.title': 'Daily Log',
+  'history.titleFor': "{name}'s Daily Log",
+  'history.back': 'Back to my history',
+  'history.allProjects': 'All projects',
+  'history.archived': '(archived)',
+  'history.addPunch': 'Add Punch',
+  'history.date': 'Date',
+  'history.status': 'Status',
+  'history.punches': 'Punches',
+  'history.totalHours': 'Total Hours',
+  'history.offSiteFrom': 'Off site, {distance} from {site}',
+  'history.distanceFrom': '{distance} from {site}',
+  'history.auto': '(auto)',
+  'history.viewRevisions': 'View revision log',
+  'history.weekOf': 'Week of {date} · {hours}',
+  'history.statusHistory': 'Status history',
+  'history.statusBy': 'by {name} on {at}',
+  'history.submitHint': 'Submit this week for approval',
+  'history.submit': 'Submit',
+  'history.resubmit': 'Resubmit',
+  'history.approve': 'Approve',
+  'history.reject': 'Reject',
+  'history.rejectPlaceholder': 'What needs fixing?',
+  'history.complete': 'Complete',
+  'history.partial': 'Partial',
+  'history.leave': '{type} leave',
+  'history.edited': 'Edited',
+  'history.autoClosed': 'Auto-closed',
+  'history.autoClosedHint': 'A shift was closed by the auto-close policy; check the OUT time',
+  'history.issues.one': '{count} Issue',
+  'history.issues.other': '{count} Issues',
+  'history.fixAdd': 'Add punch',
+  'history.fixReview': 'Review',
+  'history.ofTotal': 'of {hours}',
+  'history.scheduled': '{hours} scheduled',
+  'history.notCounted': '+{hours} not counted, missing OUT',
+  'history.paidBreak': '{hours} paid break',
+  'history.unpaidBreak': '{hours} unpaid break',
+  'history.emptyProject': 'No work logged on this project.',
+  'history.empty': 'No work history found.',
+
+  'leaveStatus.PENDING': 'Pending',
+  'leaveStatus.APPROVED': 'Approved',
+  'leaveStatus.DENIED': 'Denied',
+  'leaveStatus.CANCELLED': 'Cancelled',
+
+  'leaveView.earnedUsed': '{earned} earned · {used} used',
+  'leaveView.booked': '{hours} booked',
+  'leaveView.pending': '{hours} pending',
+  'leaveView.requestTitle': 'Request Time Off',
+  'leaveView.requestHint': "Weekends, days off in your schedule and holidays aren't taken from your balance.",
+  'leaveView.type': 'Type',
+  'leaveView.from': 'From',
+  'leaveView.to': 'To',
+  'leaveView.hoursPerDay': 'Hours / Day',
+  'leaveView.fullDay': 'Full day',
+  'leaveView.note': 'Note',
+  'leaveView.conflictPending': 'Overlaps your pending request for {range}.',
+  'leaveView.conflictApproved': 'Overlaps your approved request for {range}.',
+  'leaveView.noHours': 'No working hours fall in these dates.',
+  'leaveView.hours': '{hours} of {type} leave.',
+  'leaveView.hoursOverdrawn': '{hours} of {type} leave, more than your remaining balance.',
+  'leaveView.request': 'Request',
+  'leaveView.toDecide': 'Waiting for Approval',
+  'leaveView.approve': 'Approve',
+  'leaveView.deny': 'Deny',
+  'leaveView.mine': 'My Requests',
+  'leaveView.noRequests': 'No requests yet.',
+  'leaveView.holidays': 'Upcoming Holidays',
+  'leaveView.noHolidays': 'None listed. Add them in Settings.',
+
+  'payroll.period': 'Pay Period',
+  'payroll.unapproved': 'Not approved yet:',
+  'payroll.unapprovedWeeks': '{weeks}. These hours may still change.',
+  'payroll.regular': 'Regular',
+  'payroll.overtime': 'Overtime',
+  'payroll.overtimeRate': 'Overtime ({multiplier}x)',
+  'payroll.doubleTime': 'Double Time',
+  'payroll.doubleTimeRate': 'Double Time ({multiplier}x)',
+  'payroll.grossPay': 'Gross Pay',
+  'payroll.worked': 'Worked',
+  'payroll.empty': 'No hours recorded in this pay period.',
+  'payroll.pay': 'Pay',
+  'payroll.rounding': 'Punches are rounded to the nearest {increment} minutes.',
+  'payroll.roundingGrace': 'Punches are rounded to the nearest {increment} minutes with a {grace} minute grace window.',
+
+  'profile.noEmail': 'No email set',
+  'profile.name': 'Name',
+  'profile.email': 'Email',
+  'profile.joined': 'Joined',
+  'profile.role': 'Role',
+  'profile.requiresLocation': "Record location on this person's punches",
+  'profile.pin': 'Kiosk PIN',
+  'profile.pinSet': 'PIN set - enter a new one to change it',
+  'profile.pinHint': '4-8 digits',
+  'profile.pinTaken': 'That PIN is already used by another profile.',
+  'profile.removePin': 'Remove PIN',
+  'profile.badge': 'Kiosk Badge',
+  'profile.badgeAlt': 'QR badge for {name}',
+  'profile.replaceBadge': 'Replace badge',
+  'profile.createBadge': 'Create badge',
+  'profile.download': 'Download',
+  'profile.replaceHint': 'Replacing a badge makes the old printout stop working.',
+  'profile.schedule': 'Work Schedule',
+  'profile.listTitle': 'Profiles on this device',
+  'profile.listHint': 'Each profile keeps its own punches. Switch to the person using the app before punching.',
+  'profile.punches.one': '{count} punch',
+  'profile.punches.other': '{count} punches',
+  'profile.active': 'Active',
+  'profile.switch': 'Switch',
+  'profile.cannotRemove': 'Profiles with punches cannot be removed',
+  'profile.remove': 'Remove profile',
+  'profile.add': 'Add',
+
+  'schedule.none': 'No schedule yet. History judges days against the standard day length instead.',
+  'schedule.add': 'Add schedule',
+  'schedule.startsOn': 'Starts On (Week 1)',
+  'schedule.rotation': 'Rotation',
+  'schedule.everyWeek': 'Same every week',
+  'schedule.repeats': 'Repeats every {count} weeks',
+  'schedule.grace': 'Grace (min)',
+  'schedule.week': 'Week {number}',
+  'schedule.off': 'Off',
+  'schedule.removeShift': 'Remove shift',
+  'schedule.addSplit': 'Add a split shift',
+  'schedule.addShift': 'Add a shift',
+  'schedule.hoursInWeek': '{hours} scheduled in week {number}. Shifts ending before they start run past midnight.',
+  'schedule.hoursPerWeek': '{hours} scheduled per week. Shifts ending before they start run past midnight.',
+  'schedule.remove': 'Remove schedule',
+
+  'kiosk.title': 'PunchPro Kiosk',
+  'kiosk.enterPin': 'Enter your PIN',
+  'kiosk.lockedFor': 'Locked for {seconds}s',
+  'kiosk.lockedOut': 'Too many attempts. The keypad is locked.',
+  'kiosk.wrongPin': 'PIN not recognised. Please try again.',
+  'kiosk.wrongExitCode': 'Wrong exit code.',
+  'kiosk.unknownBadge': 'Badge not recognised.',
+  'kiosk.punchFailed': 'That punch could not be recorded. Please try again.',
+  'kiosk.scanInstead': 'Scan badge instead',
+  'kiosk.holdBadge': 'Hold your badge up to the camera',
+  'kiosk.pinInstead': 'Use PIN instead',
+  'kiosk.hi': 'Hi, {name}',
+  'kiosk.currently.PUNCHED_IN': 'You are currently on duty',
+  'kiosk.currently.ON_BREAK': 'You are currently on break',
+  'kiosk.currently.PUNCHED_OUT': 'You are currently away',
+  'kiosk.startBreak': 'Start Break',
+  'kiosk.notYou': 'Not you? Cancel',
+  'kiosk.thanks': 'Thanks, {name}',
+  'kiosk.nowStatus': 'You are now',
+  'kiosk.recordedAt': 'Recorded at {time}',
+  'kiosk.exitCode': 'Admin exit code',
+  'kiosk.back': 'Back',
+  'kiosk.exit': 'Exit kiosk mode',
+
+  'settings.off': 'Off',
+  'settings.holidaysAdded.one': 'Added {count} holiday',
+  'settings.holidaysAdded.other': 'Added {count} holidays',
+  'settings.holidaysSkipped': '{added}; skipped {skipped} recurring or already listed.',
+  'settings.holidaysUnreadable': "Couldn't read that file as an iCalendar calendar.",
+  'settings.locating': 'Finding your location…',
+  'settings.accuracy': 'Accurate to about {meters} m',
+  'settings.time': 'Time & Day Boundaries',
+  'settings.timeHint': 'Controls which day each punch is filed under. Sessions that run past the day boundary are split between both days.',
+  'settings.timeZone': 'Time Zone',
+  'settings.thisDevice': '(this device)',
+  'settings.dayStart': 'Day Starts At',
+  'settings.midnight': '(midnight)',
+  'settings.dayStartHint': 'Night shift workers can move the boundary so a whole shift counts toward the day it started.',
+  'settings.payRules': 'Pay Rules',
+  'settings.payRulesHint': 'Used by the Payroll view. Leave a threshold empty to turn it off.',
+  'settings.standardDay': 'Standard Day (h)',
+  'settings.dailyOvertime': 'Daily Overtime After (h)',
+  'settings.dailyDoubleTime': 'Daily Double Time After (h)',
+  'settings.weeklyOvertime': 'Weekly Overtime After (h)',
+  'settings.overtimeMultiplier': 'Overtime Multiplier',
+  'settings.doubleTimeMultiplier': 'Double Time Multiplier',
+  'settings.hourlyRate': 'Hourly Rate',
+  'settings.currency': 'Currency',
+  'settings.rounding': 'Rounding',
+  'settings.rounding.0': 'Exact times',
+  'settings.rounding.5': 'Nearest 5 minutes',
+  'settings.rounding.6': 'Nearest 6 minutes (tenth of an hour)',
+  'settings.rounding.15': 'Nearest 15 minutes',
+  'settings.roundingGrace': 'Rounding Grace (min)',
+  'settings.payPeriod': 'Pay Period',
+  'settings.payPeriod.WEEKLY': 'Weekly',
+  'settings.payPeriod.BIWEEKLY': 'Every two weeks',
+  'settings.payPeriod.SEMIMONTHLY': 'Twice a month',
+  'settings.payPeriod.MONTHLY': 'Monthly',
+  'settings.periodStart': 'Period Starting On',
+  'settings.projects': 'Projects',
+  'settings.projectsHint': "Tag work sessions with a project when punching in, and switch projects mid-shift without punching out. Archived projects stay in reports but can't be picked for new work.",
+  'settings.chartColor': 'Chart color',
+  'settings.restore': 'Restore',
+  'settings.archive': 'Archive',
+  'settings.projectName': 'Project Name',
+  'settings.client': 'Client',
+  'settings.add': 'Add',
+  'settings.leave': 'Leave & Holidays',
+  'settings.leaveHint': 'Leave balances grow by the accrual at the end of every pay period, up to the cap. Leave and holidays count toward the hours expected that day.',
+  'settings.accrual': 'Hours / Period',
+  'settings.cap': 'Cap (h)',
+  'settings.holidays': 'Holidays',
+  'settings.importCalendar': 'Import iCalendar',
+  'settings.removeHoliday': 'Remove holiday',
+  'settings.noHolidays': 'No holidays yet.',
+  'settings.date': 'Date',
+  'settings.name': 'Name',
+  'settings.reminders': 'Reminders & Auto-Close',
+  'settings.remindersHint': 'Reminders go out as browser notifications, or as a banner in the app when notifications are blocked. Shifts still open at the auto-close time get a punch-out marked for review.',
+  'settings.shiftReminder': 'Remind After Shift Of (h)',
+  'settings.endOfDay': 'End of Day Reminder',
+  'settings.autoClose': 'Auto-Close Open Shifts At',
+  'settings.notificationsOn': 'Notifications are on for this browser.',
+  'settings.notificationsBlocked': 'Notifications are blocked; reminders will show inside the app.',
+  'settings.allowNotifications': 'Allow notifications',
+  'settings.ai': 'AI & Privacy',
+  'settings.aiHint': 'AI insights and timesheet questions are answered by Google Gemini. Punch IDs and edit history are never shared. With AI off, the Insights tab analyzes your punches on this device only.',
+  'settings.aiEnabled': 'Use AI features',
+  'settings.aiSharing': 'Data Shared',
+  'settings.aiConsentPending': "You'll be asked to agree and can preview the data before anything is sent.",
+  'settings.aiConsented': 'Agreed on {date}.',
+  'settings.aiWithdraw': 'Withdraw',
+  'settings.location': 'Location & Sites',
+  'settings.locationHint': 'Stamps punches with where they were made, for everyone, for people whose profile asks for it, or whenever a site requires it. Located punches clearly outside every checked site are flagged in History. Anyone who declines location access can still punch; the punch is marked as having no location.',
+  'settings.stampPunches': "Record location on everyone's punches",
+  'settings.siteRequired': 'Required',
+  'settings.removeSite': 'Remove site',
+  'settings.siteName': 'Site Name',
+  'settings.coordinates': 'Latitude, Longitude',
+  'settings.radius': 'Radius (m)',
+  'settings.useHere': "Use this device's position",
+  'settings.here': 'Here',
+  'settings.sync': 'Sync',
+  'settings.syncHint': 'Keeps punches in step between devices through a sync server. Punches made offline wait in a queue and go out once the connection is back. When two devices edit the same punch, the edit with more revisions wins, then the later one.',
+  'settings.syncEnabled': 'Sync punches with a server',
+  'settings.syncEndpoint': 'Sync Endpoint',
+  'settings.kiosk': 'Kiosk Mode',
+  'settings.kioskHint': 'Turns this device into a shared time clock. Employees identify with the PIN or QR badge set up on their Profile page. Leaving kiosk mode needs the exit code.',
+  'settings.changeExitCode': 'Change Exit Code',
+  'settings.exitCode': 'Exit Code',
+  'settings.maxAttempts': 'Attempts Before Lockout',
+  'settings.lockout': 'Lockout (s)',
+  'settings.resetAfter': 'Reset After Punch (s)',
+  'settings.exitCodeFirst': 'Set an exit code first',
+  'settings.launchKiosk': 'Launch Kiosk',
+
+  'scanner.unsupported': "This browser can't scan QR codes.",
+  'scanner.denied': 'Camera access was denied.',
+
+  'punch.unavailable': 'Punching is paused until saved punches have loaded',
+
+  'duration.minutes': '{minutes}m',
+  'duration.hours': '{hours}h',
+  'duration.hoursMinutes': '{hours}h {minutes}m',
+
+  'localInsights.label': 'Local analyzer',
+  'localInsights.empty': "There's no worked time to analyze yet.",
+  'localInsights.empty.tip': 'Punch in and out for a few days to see your work patterns here.',
+  'localInsights.logged.one': 'You logged {hours} over {count} day, {average} a day on average.',
+  'localInsights.logged.other': 'You logged {hours} over {count} days, {average} a day on average.',
+  'localInsights.steady': 'Your day length and start time are steady.',
+  'localInsights.hoursVary': 'Day length varies by about {hours}.',
+  'localInsights.hoursVary.tip': 'Aim for days of a similar length; uneven days are harder to plan around and recover from.',
+  'localInsights.startsVary': 'Start times vary by about {duration}.',
+  'localInsights.startsVary.tip': 'Try to start at the same time each day to keep a steady routine.',
+  'localInsights.overtimeStreak': 'You worked past {hours} {count} days in a row.',
+  'localInsights.overtimeStreak.tip': 'Plan a shorter day after a run of long ones to avoid burning out.',
+  'localInsights.overtimeDays.one': '{count} day went past {hours}.',
+  'localInsights.overtimeDays.other': '{count} days went past {hours}.',
+  'localInsights.longStretch.one': 'On {count} day you worked more than {limit} without a break, up to {longest}.',
+  'localInsights.longStretch.other': 'On {count} days you worked more than {limit} without a break, up to {longest}.',
+  'localInsights.longStretch.tip': 'Take a break at least every {hours} hours, even a short one.',
+  'localInsights.balanced': 'Keep your current rhythm; your hours and breaks look balanced.',
+
+  'insights.unavailable': '{provider} is unavailable',
+  'insights.failed': '{provider} failed',
+  'insights.unreachable': "The insights server can't be reached",
+  'insights.serverUnavailable': 'The insights server is unavailable',
+  'insights.serverStatus': 'The insights server answered {status}',
+  'insights.rateLimited': 'Gemini is rate limited, try again shortly',
+  'insights.rateLimited.wait': 'Gemini is rate limited, try again in {seconds}s',
+
+  'sync.error.status': 'The sync server answered {status}',
+  'sync.error.unexpected': 'The sync server sent an unexpected response',
+  'sync.error.unreachable': "The sync server can't be reached",
+
+  'chat.emptyAnswer': 'The model returned an empty answer',
+  'chat.noAnswer': 'The model kept calling tools without answering',
+
+  'export.deletedProject': 'Deleted project',
+  'export.session': 'Work session ({hours})',
+  'export.session.worked': 'Worked {hours}',
+  'export.session.breaks.one': 'Worked {hours} with {count} break',
+  'export.session.breaks.other': 'Worked {hours} with {count} breaks',
+
+  'kiosk.ok': 'OK',
+  'site.defaultName': 'Site',
+  'holiday.defaultName': 'Holiday',
+  'profile.defaultName': 'New User',
+  'profile.syncedName': 'Synced User',
+};
+
+export type MessageKey = keyof typeof EN;
+
+const DE: Record<MessageKey, string> = {
+  'app.loading': 'Wird geladen…',
+  'app.dismiss': 'Schließen',
+
+  'storage.UPGRADE_BLOCKED': 'Warte auf einen anderen PunchPro-Tab mit einer älteren Version. Schließe oder lade deine anderen PunchPro-Tabs neu, um fortzufahren.',
+  'storage.CLOSED_FOR_UPGRADE': 'PunchPro wurde in einem anderen Tab aktualisiert. Lade diesen Tab neu; Änderungen hier werden bis dahin nicht gespeichert.',
+  'storage.RECOVERED': 'Deine gespeicherten Daten konnten nicht gelesen werden. Sie wurden gesichert, bevor die Datenbank neu angelegt wurde. Lade die Sicherung herunter, um sie zu behalten; ihre Stempelungen lassen sich in den Einstellungen unter Export & Import wieder importieren.',
+  'storage.FALLBACK': 'Deine gespeicherten Daten konnten nicht geöffnet werden. Sie bleiben unverändert, neue Änderungen werden vorerst im lokalen Speicher dieses Browsers abgelegt.',
+  'storage.reload': 'Neu laden',
+  'storage.downloadBackup': 'Sicherung herunterladen',
+
+  'nav.dashboard': 'Übersicht',
+  'nav.history': 'Verlauf',
+  'nav.payroll': 'Abrechnung',
+  'nav.team': 'Team',
+  'nav.leave': 'Abwesenheit',
+  'nav.insights': 'KI-Analysen',
+  'nav.insightsShort': 'Analysen',
+  'nav.settings': 'Einstellungen',
+  'nav.profile': 'Profil',
+
+  'title.dashboard': 'Leistungsübersicht',
+  'title.history': 'Arbeitsverlauf',
+  'title.payroll': 'Abrechnungsübersicht',
+  'title.team': 'Teamübersicht',
+  'title.leave': 'Abwesenheit',
+  'title.profile': 'Profil',
+  'title.settings': 'Einstellungen',
+  'title.insights': 'Smarte Analysen',
+
+  'role.MANAGER': 'Führungskraft',
+  'role.EMPLOYEE': 'Mitarbeiter',
+
+  'status.PUNCHED_IN': 'Im Dienst',
+  'status.ON_BREAK': 'In der Pause',
+  'status.PUNCHED_OUT': 'Abwesend',
+
+  'punch.IN': 'Einstempeln',
+  'punch.OUT': 'Ausstempeln',
+  'punch.BREAK_START': 'Pausenbeginn',
+  'punch.BREAK_END': 'Pausenende',
+  'punch.SWITCH': 'Projektwechsel',
+  'punch.paid': 'bezahlt',
+  'punch.unpaid': 'unbezahlt',
+  'punch.noProject': 'Kein Projekt',
+  'punch.task': 'Aufgabe (optional)',
+  'punch.switch': 'Wechseln',
+  'punch.switchHint': 'Projekt wechseln, ohne auszustempeln',
+  'punch.break': 'Pause',
+  'punch.endBreak': 'Pause beenden',
+  'punch.paidBreak': 'Bezahlt',
+  'punch.unpaidBreak': 'Unbezahlt',
+
+  'range.WEEK': 'Woche',
+  'range.MONTH': 'Monat',
+  'range.QUARTER': 'Quartal',
+  'range.CUSTOM': 'Eigener Zeitraum',
+
+  'dashboard.issues.one': '{count} Stempelfehler braucht Aufmerksamkeit.',
+  'dashboard.issues.other': '{count} Stempelfehler brauchen Aufmerksamkeit.',
+  'dashboard.issuesHint': 'Fehlende oder vertauschte Stempelungen können dazu führen, dass Stunden nicht gezählt werden.',
+  'dashboard.review': 'Prüfen',
+  'dashboard.totalHours': 'Gesamtstunden ({period})',
+  'dashboard.customPeriod': 'Zeitraum',
+  'dashboard.dailyAverage': 'Tagesdurchschnitt',
+  'dashboard.status': 'Aktueller Status',
+  'dashboard.activityByProject': 'Aktivität nach Projekt',
+  'dashboard.scheduled': 'Geplant',
+  'dashboard.recentActivity': 'Letzte Aktivität',
+  'dashboard.noActivity': 'Keine Aktivität in letzter Zeit',
+
+  'analytics.dailyHours': 'Stunden pro Tag',
+  'analytics.dailyHoursHint': 'Jedes Feld ist ein Tag und wird dunkler, je näher er an einen vollen Tag von {hours} kommt.',
+  'analytics.less': 'Weniger',
+  'analytics.more': 'Mehr',
+  'analytics.rollingAverage': 'Gleitender Durchschnitt',
+  'analytics.rollingAverageHint': 'Stunden pro Tag im Schnitt der letzten {days} Tage, Ruhetage eingeschlossen.',
+  'analytics.hours': 'Stunden',
+  'analytics.average': '{days}-Tage-Schnitt',
+  'analytics.startEnd': 'Beginn & Ende',
+  'analytics.startEndHint': 'Wie viele Tage in jeder Stunde begonnen und geendet haben.',
+  'analytics.start': 'Beginn',
+  'analytics.end': 'Ende',
+  'analytics.started': 'Begonnen',
+  'analytics.finished': 'Beendet',
+  'analytics.noShifts': 'Keine Schichten in diesem Zeitraum.',
+
+  'team.onDutyCount': '{count} von {total} gerade im Dienst',
+  'team.member': 'Person',
+  'team.status': 'Status',
+  'team.hoursWeek': 'Stunden (Woche)',
+  'team.missingPunches': 'Fehlende Stempel',
+  'team.issues': 'Alle Hinweise',
+  'team.toApprove': 'Zu genehmigen',
+  'team.since': 'seit {time}',
+  'team.notCounted': '+{hours} nicht gezählt (offene Schicht)',
+  'team.weeks.one': '{count} Woche',
+  'team.weeks.other': '{count} Wochen',
+
+  'sync.syncing': 'Synchronisiere…',
+  'sync.offline': 'Offline',
+  'sync.failed': 'Synchronisierung fehlgeschlagen',
+  'sync.synced': 'Synchronisiert',
+  'sync.never': 'Noch nicht synchronisiert',
+  'sync.queued': '{count} ausstehend',
+  'sync.lastSynced': 'Zuletzt synchronisiert um {time}',
+  'sync.syncNow': 'Klicken, um jetzt zu synchronisieren',
+
+  'insights.title': 'KI-Arbeitsassistent',
+  'insights.intro': 'Persönliche Empfehlungen auf Grundlage deiner Arbeitsmuster, für mehr Produktivität und Wohlbefinden.',
+  'insights.analyzing': 'Arbeitsmuster werden analysiert...',
+  'insights.generate': 'Neue Analyse erstellen',
+  'insights.sharing': 'Freigabe: {level}',
+  'insights.aiOff': 'KI ist aus, nur lokale Analyse',
+  'insights.summary': 'Zusammenfassung',
+  'insights.workDays': 'Arbeitstage {range}',
+  'insights.reused': 'Wiederverwendet, die Stempelungen dahinter sind unverändert',
+  'insights.fallback': '{reason}, daher stammen diese nur aus deinen Stempeldaten.',
+  'insights.score': '{score} % Punktzahl',
+  'insights.recommendations': 'Empfehlungen',
+
+  'ai.AGGREGATES': 'Nur Tagessummen',
+  'ai.HOURLY': 'Auf die Stunde gerundete Zeiten',
+  'ai.FULL': 'Alle Details',
+
+  'display.title': 'Anzeige & Sprache',
+  'display.description': 'Wie die App mit dir spricht und Daten, Uhrzeiten und Stunden anzeigt. Auch KI-Analysen werden in der gewählten Sprache verfasst.',
+  'display.language': 'Sprache',
+  'display.clock': 'Uhrzeitformat',
+  'display.clock.12H': '12 Stunden (2:30 PM)',
+  'display.clock.24H': '24 Stunden (14:30)',
+  'display.duration': 'Dauer',
+  'display.duration.DECIMAL': 'Dezimalstunden (7,83 h)',
+  'display.duration.HOURS_MINUTES': 'Stunden und Minuten (7:50)',
+  'display.weekStart': 'Erster Tag der Woche',
+  'display.weekStartHint': 'Wochenstatistiken und Diagramme folgen Kalenderwochen, die an diesem Tag beginnen. Abrechnungswochen behalten den Bezugstag der Abrechnungsperiode.',
+
+  'punchChip.IN': 'KOMMEN',
+  'punchChip.OUT': 'GEHEN',
+  'punchChip.SWITCH': 'WECHSEL',
+  'punchChip.BREAK_START': 'PAUSE',
+  'punchChip.BREAK_END': 'ZURÜCK',
+  'punchChip.breakPaid': 'PAUSE (bezahlt)',
+  'punchChip.breakUnpaid': 'PAUSE (unbezahlt)',
+
+  'timesheet.DRAFT': 'Entwurf',
+  'timesheet.SUBMITTED': 'Eingereicht',
+  'timesheet.APPROVED': 'Genehmigt',
+  'timesheet.REJECTED': 'Abgelehnt',
+  'timesheet.lock.APPROVED': 'Der Stundenzettel dieser Woche ist genehmigt, ihre Stempel können nicht mehr geändert werden.',
+  'timesheet.lock.SUBMITTED': 'Der Stundenzettel dieser Woche ist eingereicht; er muss abgelehnt werden, bevor sich seine Stempel ändern lassen.',
+  'timesheet.blocker.running': 'Die Woche läuft noch.',
+  'timesheet.blocker.issues.one': 'Behebe zuerst {count} Stempelfehler.',
+  'timesheet.blocker.issues.other': 'Behebe zuerst {count} Stempelfehler.',
+  'timesheet.blocker.open': 'Eine Schicht aus dieser Woche ist noch offen.',
+
+  'leave.VACATION': 'Urlaub',
+  'leave.SICK': 'Krank',
+  'leave.PERSONAL': 'Persönlich',
+  'leave.UNPAID': 'Unbezahlt',
+
+  'ai.desc.AGGREGATES': 'Arbeits- und Pausenstunden pro Tag. Keine Stempelzeiten.',
+  'ai.desc.HOURLY': 'Tagessummen und jeder Stempel, mit auf die volle Stunde gerundeter Zeit.',
+  'ai.desc.FULL': 'Tagessummen und jeder Stempel auf die Minute genau, mit Pausenarten und Aufgabennotizen.',
+  'insightSource.GEMINI': 'Gemini',
+  'insightSource.LOCAL': 'Lokale Analyse',
+
+  'exception.LATE_ARRIVAL': '{duration} zu spät',
+  'exception.EARLY_DEPARTURE': '{duration} zu früh gegangen',
+  'exception.NO_SHOW': 'Nicht erschienen',
+  'exception.UNSCHEDULED_WORK': '{duration} ungeplant',
+
+  'location.failure.DENIED': 'Der Standortzugriff wurde abgelehnt',
+  'location.failure.UNAVAILABLE': 'Das Gerät konnte seinen Standort nicht ermitteln',
+  'location.failure.TIMEOUT': 'Die Standortsuche hat zu lange gedauert',
+
+  'issue.duplicate': 'Zwei Stempel zur selben Zeit',
+  'issue.duplicate.fix': 'Lösche das Duplikat oder korrigiere seine Zeit.',
+  'issue.consecutiveIn': 'Erneut eingestempelt, ohne auszustempeln',
+  'issue.consecutiveIn.fix': 'Ergänze das fehlende GEHEN der früheren Schicht; bis dahin zählt sie nicht.',
+  'issue.orphanOut': 'Ausgestempelt, ohne einzustempeln',
+  'issue.orphanOut.fix': 'Ergänze das fehlende KOMMEN oder lösche dieses GEHEN, falls es ein Versehen war.',
+  'issue.orphanSwitch': 'Projektwechsel außerhalb einer Schicht',
+  'issue.breakOutside': 'Pausenstempel außerhalb einer Schicht',
+  'issue.breakNotStarted': 'Pause beendet, ohne begonnen zu haben',
+  'issue.breakTwice': 'Pause zweimal begonnen',
+  'issue.addInOrDelete': 'Ergänze das fehlende KOMMEN oder lösche diesen Stempel.',
+  'issue.deleteOrRetype': 'Lösche diesen Stempel oder korrigiere seine Art.',
+  'issue.longShift.closed': 'Schicht dauerte {hours}',
+  'issue.longShift.open': 'Schicht läuft seit {hours}',
+  'issue.longShift.checkOut': 'Prüfe die Ausstempelzeit.',
+  'issue.longShift.punchOut': 'Stemple aus oder ergänze das vergessene GEHEN.',
+  'issue.openSession': 'Schicht seit {days} Tagen offen',
+  'issue.openSession.fix': 'Ergänze das fehlende GEHEN; bis dahin zählen bis zu {hours} dieser Schicht nicht zu deinen Stunden.',
+  'issue.offSite': '{distance} von {site} entfernt gestempelt',
+  'issue.offSite.fix': 'Prüfe, ob das absichtlich außerhalb des Standorts war.',
+  'issue.noLocation': 'Ohne Standort gestempelt',
+
+  'reminder.shiftLength.title': 'Noch eingestempelt?',
+  'reminder.shiftLength.body': 'Deine Schicht läuft seit {duration}. Vergiss nicht auszustempeln.',
+  'reminder.endOfDay.title': 'Feierabend',
+  'reminder.endOfDay.body': 'Es ist nach {time} und du bist noch eingestempelt.',
+
+  'app.close': 'Schließen',
+  'app.cancel': 'Abbrechen',
+  'app.save': 'Speichern',
+  'app.remove': 'Entfernen',
+  'app.removedProfile': 'Entferntes Profil',
+
+  'consent.title': 'Daten mit Gemini teilen',
+  'consent.intro': 'KI-Analysen und Fragen zum Stundenzettel beantwortet Google Gemini. Wähle, wie viel deiner Stempeldaten es sehen darf. Nichts wird gesendet, bevor du zustimmst, und du kannst das in den Einstellungen ändern oder die KI abschalten.',
+  'consent.preview.one': 'Nächste Analyseanfrage ({count} Tag)',
+  'consent.preview.other': 'Nächste Analyseanfrage ({count} Tage)',
+  'consent.decline': 'Nur lokale Analyse verwenden',
+  'consent.accept': 'Zustimmen und teilen',
+
+  'revisions.title': 'Änderungsprotokoll',
+  'revisions.current': 'Aktuell {punch} am {time}',
+  'revisions.currentDeleted': 'Aktuell {punch} am {time} (gelöscht)',
+  'revisions.CREATED': 'ERSTELLT',
+  'revisions.EDITED': 'GEÄNDERT',
+  'revisions.DELETED': 'GELÖSCHT',
+  'revisions.RESTORED': 'WIEDERHERGESTELLT',
+  'revisions.previous': 'Vorher {punch} am {time}',
+  'revisions.none': 'Dieser Stempel wurde nie geändert.',
+
+  'editor.editTitle': 'Stempel bearbeiten',
+  'editor.addTitle': 'Vergessenen Stempel ergänzen',
+  'editor.breakType': 'Pausenart',
+  'editor.unpaidBreak': 'Unbezahlt (z. B. Mittagspause)',
+  'editor.paidBreak': 'Bezahlt (z. B. kurze Erholungspause)',
+  'editor.project': 'Projekt',
+  'editor.task': 'Aufgabe',
+  'editor.optional': 'Optional',
+  'editor.time': 'Zeit',
+  'editor.reason': 'Grund',
+  'editor.reasonPlaceholder': 'z. B. Vor dem Gehen das Ausstempeln vergessen',
+  'editor.restore': 'Wiederherstellen',
+  'editor.delete': 'Löschen',
+
+  'transfer.title': 'Export & Import',
+  'transfer.description': 'Übertrage deinen Stundenzettel in einen anderen Browser oder in eine Abrechnungstabelle.',
+  'transfer.from': 'Von',
+  'transfer.to': 'Bis',
+  'transfer.punchesCsv': 'Stempel CSV',
+  'transfer.punchesJson': 'Stempel JSON',
+  'transfer.dailyCsv': 'Tagesübersicht CSV',
+  'transfer.dailyJson': 'Tagesübersicht JSON',
+  'transfer.projectsCsv': 'Projektstunden CSV',
+  'transfer.sessionsIcs': 'Schichtkalender (.ics)',
+  'transfer.import': 'Stempel importieren (CSV oder JSON)',
+  'transfer.new': '{count} neu',
+  'transfer.duplicates': '{count} Duplikate übersprungen',
+  'transfer.invalid': '{count} ungültig',
+  'transfer.row': 'Zeile {row}: {message}',
+  'transfer.deleted': '(gelöscht)',
+  'transfer.merge.one': '{count} Stempel übernehmen',
+  'transfer.merge.other': '{count} Stempel übernehmen',
+
+  'import.unknownType': 'Unbekannte Stempelart „{value}“',
+  'import.invalidTimestamp': 'Ungültiger Zeitstempel „{value}“',
+  'import.futureTimestamp': 'Der Zeitstempel liegt in der Zukunft',
+  'import.unknownBreak': 'Unbekannte Pausenart „{value}“',
+  'import.jsonShape': 'Die JSON-Datei muss eine Liste von Stempeln oder eine „punches“-Liste enthalten',
+  'import.empty': 'Die Datei ist leer',
+  'import.csvColumns': 'Die CSV-Datei braucht mindestens die Spalten „type“ und „timestamp“',
+  'import.unreadable': 'Die Datei konnte nicht gelesen werden',
+  'import.notAPunch': 'Kein Stempeldatensatz',
+
+  'insightHistory.scoreTitle': 'Bewertung im Zeitverlauf',
+  'insightHistory.scoreHint': 'Produktivitätswert aller bisher erstellten Berichte.',
+  'insightHistory.score': 'Wert',
+  'insightHistory.pastTitle': 'Frühere Berichte',
+  'insightHistory.pastHint': 'Öffne einen, um ihn erneut zu lesen, oder wähle zwei zum Vergleichen aus.',
+  'insightHistory.compare': 'Vergleichen',
+  'insightHistory.comparison': 'Vergleich',
+  'insightHistory.points': '{change} Punkte',
+
+  'chat.title': 'Fragen zu deinem Stundenzettel',
+  'chat.description': 'Die App berechnet die Antworten aus deinen Stempeln; das Modell wählt nur aus, was nachgeschlagen wird.',
+  'chat.example.overtime': 'Wie viele Überstunden habe ich letzten Monat gemacht?',
+  'chat.example.latestStart': 'An welchem Wochentag fange ich am spätesten an?',
+  'chat.example.longestDay': 'Was war mein längster Tag in diesem Jahr?',
+  'chat.lookingUp': 'Wird nachgeschlagen…',
+  'chat.needsConsent': 'Fragen werden mit Gemini beantwortet. Wähle vor der ersten Frage, was es sehen darf.',
+  'chat.reviewSharing': 'Datenfreigabe prüfen',
+  'chat.placeholder': 'Stelle eine Frage…',
+  'chat.offline': 'Fragen brauchen eine Verbindung',
+  'chat.ask': 'Fragen',
+
+  'project.deleted': 'Gelöschtes Projekt',
+
+  'history.title': 'Tagesprotokoll',
+  'history.titleFor': 'Tagesprotokoll von {name}',
+  'history.back': 'Zurück zu meinem Verlauf',
+  'history.allProjects': 'Alle Projekte',
+  'history.archived': '(archiviert)',
+  'history.addPunch': 'Stempelung hinzufügen',
+  'history.date': 'Datum',
+  'history.status': 'Status',
+  'history.punches': 'Stempelungen',
+  'history.totalHours': 'Gesamtstunden',
+  'history.offSiteFrom': 'Außerhalb, {distance} von {site}',
+  'history.distanceFrom': '{distance} von {site}',
+  'history.auto': '(automatisch)',
+  'history.viewRevisions': 'Änderungsprotokoll anzeigen',
+  'history.weekOf': 'Woche ab {date} · {hours}',
+  'history.statusHistory': 'Statusverlauf',
+  'history.statusBy': 'von {name} am {at}',
+  'history.submitHint': 'Diese Woche zur Freigabe einreichen',
+  'history.submit': 'Einreichen',
+  'history.resubmit': 'Erneut einreichen',
+  'history.approve': 'Freigeben',
+  'history.reject': 'Ablehnen',
+  'history.rejectPlaceholder': 'Was muss korrigiert werden?',
+  'history.complete': 'Vollständig',
+  'history.partial': 'Unvollständig',
+  'history.leave': 'Abwesenheit: {type}',
+  'history.edited': 'Bearbeitet',
+  'history.autoClosed': 'Automatisch beendet',
+  'history.autoClosedHint': 'Eine Schicht wurde automatisch beendet; bitte die Gehen-Zeit prüfen',
+  'history.issues.one': '{count} Problem',
+  'history.issues.other': '{count} Probleme',
+  'history.fixAdd': 'Stempelung hinzufügen',
+  'history.fixReview': 'Prüfen',
+  'history.ofTotal': 'von {hours}',
+  'history.scheduled': '{hours} geplant',
+  'history.notCounted': '+{hours} nicht gezählt, Gehen fehlt',
+  'history.paidBreak': '{hours} bezahlte Pause',
+  'history.unpaidBreak': '{hours} unbezahlte Pause',
+  'history.emptyProject': 'Keine Arbeit auf diesem Projekt erfasst.',
+  'history.empty': 'Kein Arbeitsverlauf gefunden.',
+
+  'leaveStatus.PENDING': 'Ausstehend',
+  'leaveStatus.APPROVED': 'Genehmigt',
+  'leaveStatus.DENIED': 'Abgelehnt',
+  'leaveStatus.CANCELLED': 'Storniert',
+
+  'leaveView.earnedUsed': '{earned} erworben · {used} genommen',
+  'leaveView.booked': '{hours} gebucht',
+  'leaveView.pending': '{hours} ausstehend',
+  'leaveView.requestTitle': 'Abwesenheit beantragen',
+  'leaveView.requestHint': 'Wochenenden, freie Tage laut Dienstplan und Feiertage werden nicht vom Guthaben abgezogen.',
+  'leaveView.type': 'Art',
+  'leaveView.from': 'Von',
+  'leaveView.to': 'Bis',
+  'leaveView.hoursPerDay': 'Stunden / Tag',
+  'leaveView.fullDay': 'Ganzer Tag',
+  'leaveView.note': 'Notiz',
+  'leaveView.conflictPending': 'Überschneidet sich mit deinem ausstehenden Antrag für {range}.',
+  'leaveView.conflictApproved': 'Überschneidet sich mit deinem genehmigten Antrag für {range}.',
+  'leaveView.noHours': 'In diesen Zeitraum fallen keine Arbeitsstunden.',
+  'leaveView.hours': '{hours} Abwesenheit ({type}).',
+  'leaveView.hoursOverdrawn': '{hours} Abwesenheit ({type}), mehr als dein Restguthaben.',
+  'leaveView.request': 'Beantragen',
+  'leaveView.toDecide': 'Wartet auf Genehmigung',
+  'leaveView.approve': 'Genehmigen',
+  'leaveView.deny': 'Ablehnen',
+  'leaveView.mine': 'Meine Anträge',
+  'leaveView.noRequests': 'Noch keine Anträge.',
+  'leaveView.holidays': 'Kommende Feiertage',
+  'leaveView.noHolidays': 'Keine eingetragen. Füge sie in den Einstellungen hinzu.',
+
+  'payroll.period': 'Abrechnungszeitraum',
+  'payroll.unapproved': 'Noch nicht freigegeben:',
+  'payroll.unapprovedWeeks': '{weeks}. Diese Stunden können sich noch ändern.',
+  'payroll.regular': 'Regulär',
+  'payroll.overtime': 'Überstunden',
+  'payroll.overtimeRate': 'Überstunden ({multiplier}x)',
+  'payroll.doubleTime': 'Doppelter Satz',
+  'payroll.doubleTimeRate': 'Doppelter Satz ({multiplier}x)',
+  'payroll.grossPay': 'Bruttolohn',
+  'payroll.worked': 'Gearbeitet',
+  'payroll.empty': 'In diesem Abrechnungszeitraum wurden keine Stunden erfasst.',
+  'payroll.pay': 'Lohn',
+  'payroll.rounding': 'Stempelungen werden auf {increment} Minuten gerundet.',
+  'payroll.roundingGrace': 'Stempelungen werden auf {increment} Minuten gerundet, mit {grace} Minuten Toleranz.',
+
+  'profile.noEmail': 'Keine E-Mail hinterlegt',
+  'profile.name': 'Name',
+  'profile.email': 'E-Mail',
+  'profile.joined': 'Eingetreten',
+  'profile.role': 'Rolle',
+  'profile.requiresLocation': 'Standort bei den Stempelungen dieser Person erfassen',
+  'profile.pin': 'Kiosk-PIN',
+  'profile.pinSet': 'PIN gesetzt – zum Ändern eine neue eingeben',
+  'profile.pinHint': '4–8 Ziffern',
+  'profile.pinTaken': 'Diese PIN wird bereits von einem anderen Profil verwendet.',
+  'profile.removePin': 'PIN entfernen',
+  'profile.badge': 'Kiosk-Ausweis',
+  'profile.badgeAlt': 'QR-Ausweis für {name}',
+  'profile.replaceBadge': 'Ausweis ersetzen',
+  'profile.createBadge': 'Ausweis erstellen',
+  'profile.download': 'Herunterladen',
+  'profile.replaceHint': 'Nach dem Ersetzen funktioniert der alte Ausdruck nicht mehr.',
+  'profile.schedule': 'Arbeitszeitplan',
+  'profile.listTitle': 'Profile auf diesem Gerät',
+  'profile.listHint': 'Jedes Profil hat eigene Stempelungen. Wechsle vor dem Stempeln zur Person, die die App nutzt.',
+  'profile.punches.one': '{count} Stempelung',
+  'profile.punches.other': '{count} Stempelungen',
+  'profile.active': 'Aktiv',
+  'profile.switch': 'Wechseln',
+  'profile.cannotRemove': 'Profile mit Stempelungen können nicht entfernt werden',
+  'profile.remove': 'Profil entfernen',
+  'profile.add': 'Hinzufügen',
+
+  'schedule.none': 'Noch kein Dienstplan. Der Verlauf misst Tage stattdessen an der Standard-Tageslänge.',
+  'schedule.add': 'Dienstplan anlegen',
+  'schedule.startsOn': 'Beginnt am (Woche 1)',
+  'schedule.rotation': 'Rhythmus',
+  'schedule.everyWeek': 'Jede Woche gleich',
+  'schedule.repeats': 'Wiederholt sich alle {count} Wochen',
+  'schedule.grace': 'Toleranz (Min.)',
+  'schedule.week': 'Woche {number}',
+  'schedule.off': 'Frei',
+  'schedule.removeShift': 'Schicht entfernen',
+  'schedule.addSplit': 'Geteilte Schicht hinzufügen',
+  'schedule.addShift': 'Schicht hinzufügen',
+  'schedule.hoursInWeek': '{hours} geplant in Woche {number}. Schichten, die vor ihrem Beginn enden, laufen über Mitternacht.',
+  'schedule.hoursPerWeek': '{hours} pro Woche geplant. Schichten, die vor ihrem Beginn enden, laufen über Mitternacht.',
+  'schedule.remove': 'Dienstplan entfernen',
+
+  'kiosk.title': 'PunchPro-Kiosk',
+  'kiosk.enterPin': 'PIN eingeben',
+  'kiosk.lockedFor': 'Gesperrt für {seconds} s',
+  'kiosk.lockedOut': 'Zu viele Versuche. Das Tastenfeld ist gesperrt.',
+  'kiosk.wrongPin': 'PIN nicht erkannt. Bitte erneut versuchen.',
+  'kiosk.wrongExitCode': 'Falscher Beenden-Code.',
+  'kiosk.unknownBadge': 'Ausweis nicht erkannt.',
+  'kiosk.punchFailed': 'Die Stempelung konnte nicht gespeichert werden. Bitte erneut versuchen.',
+  'kiosk.scanInstead': 'Stattdessen Ausweis scannen',
+  'kiosk.holdBadge': 'Halte deinen Ausweis vor die Kamera',
+  'kiosk.pinInstead': 'Stattdessen PIN verwenden',
+  'kiosk.hi': 'Hallo, {name}',
+  'kiosk.currently.PUNCHED_IN': 'Du bist gerade im Dienst',
+  'kiosk.currently.ON_BREAK': 'Du bist gerade in der Pause',
+  'kiosk.currently.PUNCHED_OUT': 'Du bist gerade abwesend',
+  'kiosk.startBreak': 'Pause starten',
+  'kiosk.notYou': 'Nicht du? Abbrechen',
+  'kiosk.thanks': 'Danke, {name}',
+  'kiosk.nowStatus': 'Dein Status jetzt:',
+  'kiosk.recordedAt': 'Erfasst um {time}',
+  'kiosk.exitCode': 'Admin-Code zum Beenden',
+  'kiosk.back': 'Zurück',
+  'kiosk.exit': 'Kiosk-Modus beenden',
+
+  'settings.off': 'Aus',
+  'settings.holidaysAdded.one': '{count} Feiertag hinzugefügt',
+  'settings.holidaysAdded.other': '{count} Feiertage hinzugefügt',
+  'settings.holidaysSkipped': '{added}; {skipped} wiederkehrende oder bereits vorhandene übersprungen.',
+  'settings.holidaysUnreadable': 'Die Datei konnte nicht als iCalendar-Kalender gelesen werden.',
+  'settings.locating': 'Standort wird ermittelt…',
+  'settings.accuracy': 'Auf etwa {meters} m genau',
+  'settings.time': 'Zeit & Tagesgrenzen',
+  'settings.timeHint': 'Legt fest, welchem Tag eine Stempelung zugeordnet wird. Sitzungen über die Tagesgrenze hinaus werden auf beide Tage aufgeteilt.',
+  'settings.timeZone': 'Zeitzone',
+  'settings.thisDevice': '(dieses Gerät)',
+  'settings.dayStart': 'Tag beginnt um',
+  'settings.midnight': '(Mitternacht)',
+  'settings.dayStartHint': 'Nachtschichten können die Grenze verschieben, damit eine ganze Schicht zum Tag ihres Beginns zählt.',
+  'settings.payRules': 'Lohnregeln',
+  'settings.payRulesHint': 'Wird in der Lohnabrechnung verwendet. Eine Schwelle leer lassen, um sie abzuschalten.',
+  'settings.standardDay': 'Standardtag (h)',
+  'settings.dailyOvertime': 'Tägliche Überstunden ab (h)',
+  'settings.dailyDoubleTime': 'Täglicher doppelter Satz ab (h)',
+  'settings.weeklyOvertime': 'Wöchentliche Überstunden ab (h)',
+  'settings.overtimeMultiplier': 'Überstundenfaktor',
+  'settings.doubleTimeMultiplier': 'Faktor doppelter Satz',
+  'settings.hourlyRate': 'Stundenlohn',
+  'settings.currency': 'Währung',
+  'settings.rounding': 'Rundung',
+  'settings.rounding.0': 'Exakte Zeiten',
+  'settings.rounding.5': 'Auf 5 Minuten',
+  'settings.rounding.6': 'Auf 6 Minuten (Zehntelstunde)',
+  'settings.rounding.15': 'Auf 15 Minuten',
+  'settings.roundingGrace': 'Rundungstoleranz (Min.)',
+  'settings.payPeriod': 'Abrechnungszeitraum',
+  'settings.payPeriod.WEEKLY': 'Wöchentlich',
+  'settings.payPeriod.BIWEEKLY': 'Alle zwei Wochen',
+  'settings.payPeriod.SEMIMONTHLY': 'Zweimal im Monat',
+  'settings.payPeriod.MONTHLY': 'Monatlich',
+  'settings.periodStart': 'Zeitraum beginnt am',
+  'settings.projects': 'Projekte',
+  'settings.projectsHint': 'Ordne Arbeitssitzungen beim Einstempeln einem Projekt zu und wechsle Projekte während der Schicht ohne Ausstempeln. Archivierte Projekte bleiben in Berichten, können aber nicht mehr für neue Arbeit gewählt werden.',
+  'settings.chartColor': 'Diagrammfarbe',
+  'settings.restore': 'Wiederherstellen',
+  'settings.archive': 'Archivieren',
+  'settings.projectName': 'Projektname',
+  'settings.client': 'Kunde',
+  'settings.add': 'Hinzufügen',
+  'settings.leave': 'Abwesenheit & Feiertage',
+  'settings.leaveHint': 'Abwesenheitsguthaben wachsen am Ende jedes Abrechnungszeitraums um den Zuwachs, bis zur Obergrenze. Abwesenheit und Feiertage zählen zu den erwarteten Stunden des Tages.',
+  'settings.accrual': 'Stunden / Zeitraum',
+  'settings.cap': 'Obergrenze (h)',
+  'settings.holidays': 'Feiertage',
+  'settings.importCalendar': 'iCalendar importieren',
+  'settings.removeHoliday': 'Feiertag entfernen',
+  'settings.noHolidays': 'Noch keine Feiertage.',
+  'settings.date': 'Datum',
+  'settings.name': 'Name',
+  'settings.reminders': 'Erinnerungen & automatisches Beenden',
+  'settings.remindersHint': 'Erinnerungen kommen als Browser-Benachrichtigung oder, wenn diese blockiert sind, als Banner in der App. Schichten, die zur Beenden-Zeit noch offen sind, erhalten eine zur Prüfung markierte Ausstempelung.',
+  'settings.shiftReminder': 'Erinnern nach Schicht von (h)',
+  'settings.endOfDay': 'Erinnerung zum Tagesende',
+  'settings.autoClose': 'Offene Schichten beenden um',
+  'settings.notificationsOn': 'Benachrichtigungen sind in diesem Browser aktiv.',
+  'settings.notificationsBlocked': 'Benachrichtigungen sind blockiert; Erinnerungen erscheinen in der App.',
+  'settings.allowNotifications': 'Benachrichtigungen erlauben',
+  'settings.ai': 'KI & Datenschutz',
+  'settings.aiHint': 'KI-Einblicke und Fragen zum Stundenzettel beantwortet Google Gemini. Stempel-IDs und Bearbeitungsverlauf werden nie geteilt. Ohne KI analysiert der Tab „Einblicke“ deine Stempelungen nur auf diesem Gerät.',
+  'settings.aiEnabled': 'KI-Funktionen verwenden',
+  'settings.aiSharing': 'Geteilte Daten',
+  'settings.aiConsentPending': 'Du wirst um Zustimmung gebeten und kannst die Daten vor dem Senden ansehen.',
+  'settings.aiConsented': 'Zugestimmt am {date}.',
+  'settings.aiWithdraw': 'Widerrufen',
+  'settings.location': 'Standort & Orte',
+  'settings.locationHint': 'Versieht Stempelungen mit ihrem Ort: für alle, für Personen, deren Profil es verlangt, oder wann immer ein Ort es erfordert. Stempelungen klar außerhalb aller geprüften Orte werden im Verlauf markiert. Wer den Standortzugriff ablehnt, kann trotzdem stempeln; die Stempelung wird dann als ohne Standort markiert.',
+  'settings.stampPunches': 'Standort bei allen Stempelungen erfassen',
+  'settings.siteRequired': 'Erforderlich',
+  'settings.removeSite': 'Ort entfernen',
+  'settings.siteName': 'Name des Orts',
+  'settings.coordinates': 'Breite, Länge',
+  'settings.radius': 'Radius (m)',
+  'settings.useHere': 'Position dieses Geräts verwenden',
+  'settings.here': 'Hier',
+  'settings.sync': 'Synchronisierung',
+  'settings.syncHint': 'Hält Stempelungen über einen Sync-Server zwischen Geräten abgeglichen. Offline gemachte Stempelungen warten in einer Warteschlange und werden gesendet, sobald die Verbindung zurück ist. Bearbeiten zwei Geräte dieselbe Stempelung, gewinnt die Änderung mit mehr Revisionen, danach die spätere.',
+  'settings.syncEnabled': 'Stempelungen mit einem Server synchronisieren',
+  'settings.syncEndpoint': 'Sync-Endpunkt',
+  'settings.kiosk': 'Kiosk-Modus',
+  'settings.kioskHint': 'Macht dieses Gerät zu einer gemeinsamen Stempeluhr. Mitarbeitende melden sich mit der PIN oder dem QR-Ausweis aus ihrem Profil an. Zum Verlassen des Kiosk-Modus wird der Beenden-Code benötigt.',
+  'settings.changeExitCode': 'Beenden-Code ändern',
+  'settings.exitCode': 'Beenden-Code',
+  'settings.maxAttempts': 'Versuche bis zur Sperre',
+  'settings.lockout': 'Sperre (s)',
+  'settings.resetAfter': 'Zurücksetzen nach Stempelung (s)',
+  'settings.exitCodeFirst': 'Zuerst einen Beenden-Code festlegen',
+  'settings.launchKiosk': 'Kiosk starten',
+
+  'scanner.unsupported': 'Dieser Browser kann keine QR-Codes scannen.',
+  'scanner.denied': 'Der Kamerazugriff wurde verweigert.',
+
+  'punch.unavailable': 'Stempeln ist pausiert, bis die gespeicherten Stempelungen geladen sind',
+
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} h',
+  'duration.hoursMinutes': '{hours} h {minutes} min',
+
+  'localInsights.label': 'Lokale Analyse',
+  'localInsights.empty': 'Es gibt noch keine Arbeitszeit zum Auswerten.',
+  'localInsights.empty.tip': 'Stemple ein paar Tage ein und aus, um hier deine Arbeitsmuster zu sehen.',
+  'localInsights.logged.one': 'Du hast {hours} an {count} Tag erfasst, im Schnitt {average} pro Tag.',
+  'localInsights.logged.other': 'Du hast {hours} an {count} Tagen erfasst, im Schnitt {average} pro Tag.',
+  'localInsights.steady': 'Tageslänge und Arbeitsbeginn sind gleichmäßig.',
+  'localInsights.hoursVary': 'Die Tageslänge schwankt um etwa {hours}.',
+  'localInsights.hoursVary.tip': 'Versuche, ähnlich lange Tage zu arbeiten; ungleichmäßige Tage sind schwerer zu planen und zu verkraften.',
+  'localInsights.startsVary': 'Der Arbeitsbeginn schwankt um etwa {duration}.',
+  'localInsights.startsVary.tip': 'Fang möglichst jeden Tag zur selben Zeit an, um einen festen Rhythmus zu behalten.',
+  'localInsights.overtimeStreak': 'Du hast an {count} Tagen in Folge länger als {hours} gearbeitet.',
+  'localInsights.overtimeStreak.tip': 'Plane nach mehreren langen Tagen einen kürzeren ein, um nicht auszubrennen.',
+  'localInsights.overtimeDays.one': 'An {count} Tag hast du länger als {hours} gearbeitet.',
+  'localInsights.overtimeDays.other': 'An {count} Tagen hast du länger als {hours} gearbeitet.',
+  'localInsights.longStretch.one': 'An {count} Tag hast du mehr als {limit} ohne Pause gearbeitet, bis zu {longest}.',
+  'localInsights.longStretch.other': 'An {count} Tagen hast du mehr als {limit} ohne Pause gearbeitet, bis zu {longest}.',
+  'localInsights.longStretch.tip': 'Mach spätestens alle {hours} Stunden eine Pause, auch eine kurze.',
+  'localInsights.balanced': 'Behalte deinen Rhythmus bei; deine Stunden und Pausen wirken ausgewogen.',
+
+  'insights.unavailable': '{provider} ist nicht verfügbar',
+  'insights.failed': '{provider} ist fehlgeschlagen',
+  'insights.unreachable': 'Der Analyse-Server ist nicht erreichbar',
+  'insights.serverUnavailable': 'Der Analyse-Server ist nicht verfügbar',
+  'insights.serverStatus': 'Der Analyse-Server antwortete mit {status}',
+  'insights.rateLimited': 'Gemini ist ausgelastet, versuch es gleich noch einmal',
+  'insights.rateLimited.wait': 'Gemini ist ausgelastet, versuch es in {seconds} s erneut',
+
+  'sync.error.status': 'Der Sync-Server antwortete mit {status}',
+  'sync.error.unexpected': 'Der Sync-Server hat eine unerwartete Antwort geschickt',
+  'sync.error.unreachable': 'Der Sync-Server ist nicht erreichbar',
+
+  'chat.emptyAnswer': 'Das Modell hat eine leere Antwort geliefert',
+  'chat.noAnswer': 'Das Modell hat immer wieder Werkzeuge aufgerufen, ohne zu antworten',
+
+  'export.deletedProject': 'Gelöschtes Projekt',
+  'export.session': 'Arbeitssitzung ({hours})',
+  'export.session.worked': '{hours} gearbeitet',
+  'export.session.breaks.one': '{hours} gearbeitet, {count} Pause',
+  'export.session.breaks.other': '{hours} gearbeitet, {count} Pausen',
+
+  'kiosk.ok': 'OK',
+  'site.defaultName': 'Standort',
+  'holiday.defaultName': 'Feiertag',
+  'profile.defaultName': 'Neue Person',
+  'profile.syncedName': 'Synchronisierte Person',
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { en: EN, de: DE };
+
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: 'English',
+  de: 'Deutsch',
+};
+
+export const LANGUAGES = Object.keys(LANGUAGE_LABELS) as Language[];
+
+// How prompts name the language; they are written in English
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  de: 'German',
+};
+
+const LOCALES: Record<Language, string> = {
+  en: 'en-US',
+  de: 'de-DE',
+};
+
+export const CLOCK_FORMATS: ClockFormat[] = ['24H', '12H'];
+
+export const DURATION_FORMATS: DurationFormat[] = ['DECIMAL', 'HOURS_MINUTES'];
+
+const KNOWN_MONDAY = '2024-01-01';
+
+const getSystemLocale = () => Intl.DateTimeFormat().resolvedOptions().locale;
+
+const getSystemLanguage = (): Language =>
+  LANGUAGES.find(language => getSystemLocale().toLowerCase().startsWith(language)) ?? 'en';
+
+const getSystemClock = (): ClockFormat => {
+  const { hourCycle } = new Intl.DateTimeFormat(getSystemLocale(), { hour: 'numeric' }).resolvedOptions();
+  return hourCycle === 'h11' || hourCycle === 'h12' ? '12H' : '24H';
+};
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  language: getSystemLanguage(),
+  clock: getSystemClock(),
+  durationFormat: 'DECIMAL',
+};
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+/**
+ * Everything components need to show text, dates, times and hours the way
+ * the user set them up. Built once per settings change and passed down.
+ */
+export interface Localizer {
+  language: Language;
+  locale: string;
+  // Fills `{name}` placeholders from `params`
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  formatDate: (dateKey: string, options: Intl.DateTimeFormatOptions) => string;
+  formatTime: (timestamp: number, timeZone: string) => string;
+  formatHours: (hours: number) => string;
+  // 0 = Monday, like getWeekday
+  weekdayName: (weekday: number, width?: 'short' | 'long') => string;
+}
+
+// A duration as H:MM, e.g. 7.83 → 7:50
+const formatHoursMinutes = (hours: number) => {
+  const minutes = Math.round(Math.abs(hours) * 60);
+  return `${hours < 0 ? '-' : ''}${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+export const createLocalizer = (display: DisplaySettings): Localizer => {
+  const language = isLanguage(display.language) ? display.language : 'en';
+  const locale = LOCALES[language];
+  const messages = MESSAGES[language];
+  const decimal = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+
+  const formatDate = (dateKey: string, options: Intl.DateTimeFormatOptions) => formatDateKey(dateKey, options, locale);
+
+  return {
+    language,
+    locale,
+    t: (key, params = {}) =>
+      messages[key].replace(/\{(\w+)\}/g, (match, name: string) => (Object.hasOwn(params, name) ? String(params[name]) : match)),
+    formatDate,
+    formatTime: (timestamp, timeZone) => formatClockTime(timestamp, timeZone, display.clock, locale),
+    formatHours: hours =>
+      display.durationFormat === 'HOURS_MINUTES' ? formatHoursMinutes(hours) : `${decimal.format(hours)}h`,
+    weekdayName: (weekday, width = 'short') => formatDate(addDays(KNOWN_MONDAY, weekday), { weekday: width }),
+  };
+};
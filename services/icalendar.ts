@@ -0,0 +1,145 @@
+
+import { addDays, getZonedParts, toDateKey } from "./timeEngine";
+
+export interface CalendarEvent {
+  uid: string;
+  start: number;
+  end: number;
+  summary: string;
+  description?: string;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const formatIcsDateTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 characters are folded onto continuation lines
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return parts.join('\r\n ');
+};
+
+export const buildCalendar = (events: CalendarEvent[], now: number = Date.now()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PunchPro//Timesheet//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcsDateTime(now)}`,
+      `DTSTART:${formatIcsDateTime(event.start)}`,
+      `DTEND:${formatIcsDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export interface ParsedCalendarEvent {
+  uid: string;
+  summary: string;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  recurring: boolean; // Has an RRULE or RDATE; only the first occurrence is read
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// NAME;PARAM=a;PARAM="b:c":VALUE; quoted parameter values may contain colons
+const parseContentLine = (line: string): ContentLine | null => {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Reads the calendar date of a DATE or DATE-TIME value. UTC times are moved
+ * into `timeZone`; floating and TZID times keep the date as written.
+ */
+const parseIcsDate = (value: string, timeZone: string): { date: string; midnight: boolean } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (utc) {
+    const p = getZonedParts(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second), timeZone);
+    return { date: toDateKey(p.year, p.month, p.day), midnight: p.hour === 0 && p.minute === 0 && p.second === 0 };
+  }
+  return { date: toDateKey(+year, +month, +day), midnight: !hour || (+hour === 0 && +minute === 0 && +second === 0) };
+};
+
+/**
+ * Reads the events of an iCalendar file as calendar dates. DTEND is
+ * exclusive, so an event ending at midnight doesn't cover the next day.
+ */
+export const parseCalendar = (text: string, timeZone: string): ParsedCalendarEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).map(parseContentLine);
+  if (!lines.some(line => line?.name === 'BEGIN' && line.value.trim().toUpperCase() === 'VCALENDAR')) {
+    throw new Error("Not an iCalendar file");
+  }
+
+  const events: ParsedCalendarEvent[] = [];
+  let current: ContentLine[] | null = null;
+  lines.forEach(line => {
+    if (!line) return;
+    const value = line.value.trim().toUpperCase();
+    if (line.name === 'BEGIN' && value === 'VEVENT') {
+      current = [];
+    } else if (line.name === 'END' && value === 'VEVENT' && current) {
+      const props = current;
+      const find = (name: string) => props.find(p => p.name === name);
+      const start = find('DTSTART') && parseIcsDate(find('DTSTART')!.value, timeZone);
+      if (start) {
+        const end = find('DTEND') && parseIcsDate(find('DTEND')!.value, timeZone);
+        const lastDay = end ? (end.midnight ? addDays(end.date, -1) : end.date) : start.date;
+        events.push({
+          uid: find('UID')?.value.trim() || crypto.randomUUID(),
+          summary: unescapeText(find('SUMMARY')?.value ?? '').trim(),
+          start: start.date,
+          end: lastDay < start.date ? start.date : lastDay,
+          recurring: !!find('RRULE') || !!find('RDATE'),
+        });
+      }
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  });
+  return events;
+};
@@ -0,0 +1,82 @@
+
+import { AiSharingLevel, InsightReport, InsightSource, Language, WorkDay } from "../types";
+import { InsightResult } from "./insights";
+import { formatDateKey } from "./timeEngine";
+
+// Older reports of a person are dropped past this many
+export const MAX_INSIGHT_REPORTS = 50;
+
+/**
+ * Identifies the input of an analysis. The standard day is part of it
+ * because the local analyzer measures overtime against it, the sharing
+ * level because it decides what Gemini gets to see, and the language
+ * because Gemini writes in it.
+ */
+export const fingerprintInsightInput = async (
+  workDays: WorkDay[],
+  standardDayHours: number,
+  sharingLevel: AiSharingLevel,
+  language: Language
+): Promise<string> => {
+  const input = JSON.stringify({ standardDayHours, sharingLevel, language, workDays });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getUserReports = (reports: InsightReport[], userId: string) =>
+  reports.filter(r => r.userId === userId).sort((a, b) => b.createdAt - a.createdAt);
+
+// The newest report on the same input from the given provider
+export const findCachedReport = (
+  reports: InsightReport[],
+  userId: string,
+  fingerprint: string,
+  source: InsightSource
+): InsightReport | undefined =>
+  getUserReports(reports, userId).find(r => r.fingerprint === fingerprint && r.source === source);
+
+export const createInsightReport = (
+  userId: string,
+  workDays: WorkDay[],
+  fingerprint: string,
+  result: InsightResult,
+  now: number = Date.now()
+): InsightReport => {
+  const dates = workDays.map(d => d.date).sort();
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    createdAt: now,
+    start: dates[0] ?? '',
+    end: dates[dates.length - 1] ?? '',
+    source: result.source,
+    ...(result.fallbackReason && { fallbackReason: result.fallbackReason }),
+    fingerprint,
+    workDays,
+    insight: result.insight,
+  };
+};
+
+// Adds the report and trims its owner's history to MAX_INSIGHT_REPORTS
+export const addInsightReport = (reports: InsightReport[], report: InsightReport): InsightReport[] => {
+  const kept = new Set(getUserReports([report, ...reports], report.userId).slice(0, MAX_INSIGHT_REPORTS).map(r => r.id));
+  return [report, ...reports].filter(r => r.userId !== report.userId || kept.has(r.id));
+};
+
+export const formatReportRange = (report: InsightReport, locale?: string) => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+  return report.start === report.end
+    ? formatDateKey(report.start, options, locale)
+    : `${formatDateKey(report.start, options, locale)} – ${formatDateKey(report.end, options, locale)}`;
+};
+
+// Recommendations matched on their text, ignoring case and spacing
+export const compareRecommendations = (older: InsightReport, newer: InsightReport) => {
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const olderSet = new Set(older.insight.recommendations.map(normalize));
+  const newerSet = new Set(newer.insight.recommendations.map(normalize));
+  return {
+    dropped: older.insight.recommendations.filter(r => !newerSet.has(normalize(r))),
+    added: newer.insight.recommendations.filter(r => !olderSet.has(normalize(r))),
+  };
+};
@@ -0,0 +1,71 @@
+
+import { AIInsight, InsightSource, WorkDay } from "../types";
+import { Localizer } from "./i18n";
+
+export interface InsightProvider {
+  source: InsightSource;
+  label: string;
+  // Checked before every request; an unavailable provider is skipped
+  isAvailable: () => boolean;
+  getInsights: (workDays: WorkDay[]) => Promise<AIInsight>;
+}
+
+export interface InsightResult {
+  insight: AIInsight;
+  source: InsightSource;
+  fallbackReason?: string; // Why an earlier provider wasn't used
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a provider's answer against the `AIInsight` shape. Blank
+ * recommendations are dropped and the score is rounded into 0-100; anything
+ * else that doesn't fit is an error rather than something to render.
+ */
+export const parseInsight = (value: unknown): AIInsight => {
+  if (!isRecord(value)) throw new Error("Insight response is not an object");
+  const { summary, recommendations, productivityScore } = value;
+  if (typeof summary !== 'string' || !summary.trim()) {
+    throw new Error("Insight response has no summary");
+  }
+  if (!Array.isArray(recommendations) || recommendations.some(r => typeof r !== 'string')) {
+    throw new Error("Insight recommendations must be a list of strings");
+  }
+  if (typeof productivityScore !== 'number' || !Number.isFinite(productivityScore)) {
+    throw new Error("Insight response has no numeric productivity score");
+  }
+  return {
+    summary: summary.trim(),
+    recommendations: (recommendations as string[]).map(r => r.trim()).filter(Boolean),
+    productivityScore: Math.round(Math.min(100, Math.max(0, productivityScore))),
+  };
+};
+
+/**
+ * Asks each available provider in turn and returns the first valid answer.
+ * The last provider should be one that always works, like the local analyzer.
+ */
+export const getInsightsWithFallback = async (
+  providers: InsightProvider[],
+  workDays: WorkDay[],
+  i18n: Localizer
+): Promise<InsightResult> => {
+  const skipped: string[] = [];
+  for (const provider of providers) {
+    if (!provider.isAvailable()) {
+      skipped.push(i18n.t('insights.unavailable', { provider: provider.label }));
+      continue;
+    }
+    try {
+      const insight = parseInsight(await provider.getInsights(workDays));
+      return { insight, source: provider.source, ...(skipped.length > 0 && { fallbackReason: skipped.join('; ') }) };
+    } catch (e) {
+      console.error(`${provider.label} insight error:`, e);
+      // Provider errors are written to be shown, e.g. a rate limit with its wait
+      skipped.push(e instanceof Error ? e.message : i18n.t('insights.failed', { provider: provider.label }));
+    }
+  }
+  throw new Error("No insight provider could analyze the work log");
+};
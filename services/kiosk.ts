@@ -0,0 +1,79 @@
+
+import { KioskSettings, UserProfile } from "../types";
+
+export interface LockoutState {
+  failures: number;
+  lockedUntil: number | null;
+}
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+  exitCodeHash: null,
+  maxAttempts: 5,
+  lockoutSeconds: 60,
+  resetSeconds: 5,
+};
+
+const BADGE_PREFIX = 'punchpro:badge:';
+const EXIT_CODE_SALT = 'kiosk-exit';
+const LOCKOUT_KEY = 'punchpro_kiosk_lockout';
+
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+export const hashSecret = async (secret: string, salt: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${secret}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const hashPin = (pin: string, profile: UserProfile) => hashSecret(pin, profile.id);
+
+export const hashExitCode = (code: string) => hashSecret(code, EXIT_CODE_SALT);
+
+// PINs are salted per profile, so identifying someone means trying each profile
+export const findProfileByPin = async (profiles: UserProfile[], pin: string): Promise<UserProfile | null> => {
+  for (const profile of profiles) {
+    if (profile.pinHash && profile.pinHash === await hashPin(pin, profile)) return profile;
+  }
+  return null;
+};
+
+export const createBadgeToken = () => crypto.randomUUID().replace(/-/g, '');
+
+export const getBadgePayload = (profile: UserProfile) =>
+  profile.badgeToken ? `${BADGE_PREFIX}${profile.badgeToken}` : null;
+
+export const findProfileByBadge = (profiles: UserProfile[], payload: string): UserProfile | null => {
+  if (!payload.startsWith(BADGE_PREFIX)) return null;
+  const token = payload.slice(BADGE_PREFIX.length);
+  return profiles.find(p => p.badgeToken === token) ?? null;
+};
+
+// Kept in localStorage so reloading the kiosk page doesn't clear a lockout
+export const loadLockout = (): LockoutState => {
+  try {
+    return { failures: 0, lockedUntil: null, ...JSON.parse(localStorage.getItem(LOCKOUT_KEY) ?? '{}') };
+  } catch {
+    return { failures: 0, lockedUntil: null };
+  }
+};
+
+export const saveLockout = (state: LockoutState) => localStorage.setItem(LOCKOUT_KEY, JSON.stringify(state));
+
+export const isLockedOut = (state: LockoutState, now: number = Date.now()) =>
+  state.lockedUntil !== null && now < state.lockedUntil;
+
+export const registerFailure = (state: LockoutState, settings: KioskSettings, now: number = Date.now()): LockoutState => {
+  const failures = state.failures + 1;
+  return failures >= settings.maxAttempts
+    ? { failures: 0, lockedUntil: now + settings.lockoutSeconds * 1000 }
+    : { failures, lockedUntil: null };
+};
+
+export const clearFailures = (): LockoutState => ({ failures: 0, lockedUntil: null });
+
+const KIOSK_ACTIVE_KEY = 'punchpro_kiosk_active';
+
+// A kiosk tablet that reloads should come back up in kiosk mode
+export const loadKioskActive = () => localStorage.getItem(KIOSK_ACTIVE_KEY) === 'true';
+
+export const saveKioskActive = (active: boolean) =>
+  active ? localStorage.setItem(KIOSK_ACTIVE_KEY, 'true') : localStorage.removeItem(KIOSK_ACTIVE_KEY);
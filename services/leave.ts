@@ -0,0 +1,201 @@
+
+import { Holiday, LeavePolicy, LeaveRequest, LeaveStatus, LeaveType, PayRules, UserProfile } from "../types";
+import { ParsedCalendarEvent } from "./icalendar";
+import { Localizer } from "./i18n";
+import { getPayPeriod, shiftPayPeriod } from "./payRules";
+import { getScheduledHours, getWeekday } from "./schedules";
+import { addDays, daysBetween } from "./timeEngine";
+
+export interface DayOff {
+  id: string;
+  date: string;
+  kind: 'HOLIDAY' | 'LEAVE';
+  label: string; // The holiday's name; leave is shown by its type instead
+  leaveType?: LeaveType;
+  hours: number; // Credited toward the day's expected hours
+}
+
+export interface LeaveBalance {
+  type: LeaveType;
+  accrued: number; // Earned so far, after the cap
+  used: number; // Approved leave already taken
+  booked: number; // Approved leave still to come
+  pending: number; // Waiting for a manager
+  available: number; // accrued - used - booked
+}
+
+export type LeaveDraft = Pick<LeaveRequest, 'type' | 'start' | 'end' | 'hoursPerDay' | 'note'>;
+
+export const LEAVE_TYPES: LeaveType[] = ['VACATION', 'SICK', 'PERSONAL', 'UNPAID'];
+
+// Rates are per pay period; on biweekly periods vacation comes to about 80h a year
+export const DEFAULT_LEAVE_POLICIES: Record<LeaveType, LeavePolicy> = {
+  VACATION: { accrualHours: 3.08, maxBalance: 160 },
+  SICK: { accrualHours: 1.54, maxBalance: 80 },
+  PERSONAL: { accrualHours: 0.62, maxBalance: 16 },
+  UNPAID: { accrualHours: null, maxBalance: null },
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Hours someone is expected to work on a date: their schedule if they have
+ * one, otherwise the standard day on weekdays. Holidays expect nothing.
+ */
+export const getExpectedHours = (
+  profile: UserProfile | null,
+  date: string,
+  standardDayHours: number,
+  holidayDates: ReadonlySet<string>
+): number => {
+  if (holidayDates.has(date)) return 0;
+  if (profile?.schedule) return getScheduledHours(profile.schedule, date);
+  return getWeekday(date) < 5 ? standardDayHours : 0;
+};
+
+export const getHolidayDates = (holidays: Holiday[]) => new Set(holidays.map(h => h.date));
+
+// The days a request covers, each with the hours it takes from the balance
+export const getLeaveDays = (request: LeaveDraft, expectedHours: (date: string) => number) => {
+  const days: Array<{ date: string; hours: number }> = [];
+  for (let i = 0; i <= daysBetween(request.start, request.end); i++) {
+    const date = addDays(request.start, i);
+    const expected = expectedHours(date);
+    if (expected <= 0) continue;
+    days.push({ date, hours: round2(request.hoursPerDay === null ? expected : Math.min(request.hoursPerDay, expected)) });
+  }
+  return days;
+};
+
+export const getLeaveHours = (request: LeaveDraft, expectedHours: (date: string) => number) =>
+  round2(getLeaveDays(request, expectedHours).reduce((acc, day) => acc + day.hours, 0));
+
+export const isOpenRequest = (request: LeaveRequest) => request.status === 'PENDING' || request.status === 'APPROVED';
+
+export const createLeaveRequest = (userId: string, draft: LeaveDraft, now: number = Date.now()): LeaveRequest => ({
+  id: crypto.randomUUID(),
+  userId,
+  ...draft,
+  note: draft.note.trim(),
+  status: 'PENDING',
+  requestedAt: now,
+});
+
+// A pending or approved request of the same person covering any of the same days
+export const findLeaveConflict = (requests: LeaveRequest[], userId: string, draft: LeaveDraft) =>
+  requests.find(r => r.userId === userId && isOpenRequest(r) && r.start <= draft.end && r.end >= draft.start);
+
+export const decideLeaveRequest = (
+  requests: LeaveRequest[],
+  id: string,
+  status: Exclude<LeaveStatus, 'PENDING'>,
+  deciderId: string,
+  now: number = Date.now()
+): LeaveRequest[] =>
+  requests.map(r => (r.id === id ? { ...r, status, decidedAt: now, decidedBy: deciderId } : r));
+
+/**
+ * Holidays and approved leave of one person, by day. Leave on a holiday
+ * takes nothing from the balance, so it isn't listed for that day.
+ */
+export const buildDaysOff = (
+  requests: LeaveRequest[],
+  holidays: Holiday[],
+  expectedHours: (date: string) => number,
+  holidayHours: (date: string) => number
+): Record<string, DayOff[]> => {
+  const days: Record<string, DayOff[]> = {};
+  holidays.forEach(h => (days[h.date] ??= []).push({ id: h.id, date: h.date, kind: 'HOLIDAY', label: h.name, hours: holidayHours(h.date) }));
+  requests
+    .filter(r => r.status === 'APPROVED')
+    .forEach(r => getLeaveDays(r, expectedHours).forEach(day =>
+      (days[day.date] ??= []).push({ id: `${r.id}:${day.date}`, date: day.date, kind: 'LEAVE', label: '', leaveType: r.type, hours: day.hours })));
+  return days;
+};
+
+/**
+ * Balances for every leave type that keeps one. Each completed pay period
+ * since joining first takes the leave used in it, then adds the accrual up
+ * to the cap; leave beyond the balance is allowed to go negative.
+ */
+export const getLeaveBalances = (
+  requests: LeaveRequest[],
+  policies: Record<LeaveType, LeavePolicy>,
+  rules: PayRules,
+  joinedOn: string,
+  today: string,
+  expectedHours: (date: string) => number
+): LeaveBalance[] => {
+  const periods: Array<{ start: string; end: string }> = [];
+  for (let period = getPayPeriod(joinedOn, rules); period.end < today; period = shiftPayPeriod(period, 1, rules)) {
+    periods.push(period);
+  }
+
+  return LEAVE_TYPES.filter(type => policies[type].accrualHours !== null).map(type => {
+    const { accrualHours, maxBalance } = policies[type];
+    const ofType = requests.filter(r => r.type === type);
+    const taken = ofType
+      .filter(r => r.status === 'APPROVED')
+      .flatMap(r => getLeaveDays(r, expectedHours));
+
+    let balance = 0;
+    let accrued = 0;
+    periods.forEach(period => {
+      balance -= taken.filter(day => day.date >= period.start && day.date <= period.end).reduce((acc, day) => acc + day.hours, 0);
+      const earned = Math.max(0, Math.min(accrualHours ?? 0, (maxBalance ?? Infinity) - balance));
+      balance += earned;
+      accrued += earned;
+    });
+
+    const used = taken.filter(day => day.date <= today).reduce((acc, day) => acc + day.hours, 0);
+    const booked = taken.filter(day => day.date > today).reduce((acc, day) => acc + day.hours, 0);
+    const pending = ofType
+      .filter(r => r.status === 'PENDING')
+      .reduce((acc, r) => acc + getLeaveHours(r, expectedHours), 0);
+    return {
+      type,
+      accrued: round2(accrued),
+      used: round2(used),
+      booked: round2(booked),
+      pending: round2(pending),
+      available: round2(accrued - used - booked),
+    };
+  });
+};
+
+export const createHoliday = (date: string, name: string, i18n: Localizer): Holiday => ({
+  id: crypto.randomUUID(),
+  date,
+  name: name.trim() || i18n.t('holiday.defaultName'),
+});
+
+/**
+ * Adds one holiday per day of each calendar event. Dates that already have a
+ * holiday are skipped, and so are recurring events, whose later dates we
+ * can't expand.
+ */
+export const importHolidays = (existing: Holiday[], events: ParsedCalendarEvent[], i18n: Localizer) => {
+  const taken = getHolidayDates(existing);
+  const added: Holiday[] = [];
+  let skipped = 0;
+  events.forEach(event => {
+    if (event.recurring) {
+      skipped++;
+      return;
+    }
+    for (let i = 0; i <= daysBetween(event.start, event.end); i++) {
+      const date = addDays(event.start, i);
+      if (taken.has(date)) {
+        skipped++;
+        continue;
+      }
+      taken.add(date);
+      added.push(createHoliday(date, event.summary, i18n));
+    }
+  });
+  return {
+    holidays: [...existing, ...added].sort((a, b) => a.date.localeCompare(b.date)),
+    added: added.length,
+    skipped,
+  };
+};
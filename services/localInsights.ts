@@ -0,0 +1,168 @@
+
+import { AIInsight, TimeSettings, WorkDay } from "../types";
+import { Localizer } from "./i18n";
+import { InsightProvider } from "./insights";
+import { formatMinutes } from "./schedules";
+import { daysBetween, getZonedParts } from "./timeEngine";
+
+export interface WorkPatterns {
+  daysWorked: number;
+  totalHours: number;
+  averageHours: number;
+  hoursSpread: number; // Standard deviation of daily hours
+  startSpreadMinutes: number; // Standard deviation of the first punch-in time
+  overtimeDays: number; // Days over the standard day
+  longestOvertimeStreak: number; // Consecutive calendar days over the standard day
+  longStretchDays: number; // Days with a stretch of work longer than LONG_STRETCH_HOURS without a break
+  longestStretchHours: number;
+}
+
+// Most labor rules call for a break after six hours of work
+export const LONG_STRETCH_HOURS = 6;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+};
+
+// Longest run from an IN or BREAK_END to the next BREAK_START or OUT, in hours
+const getLongestStretch = (day: WorkDay) => {
+  let since: number | null = null;
+  let longest = 0;
+  [...day.punches].sort((a, b) => a.timestamp - b.timestamp).forEach(p => {
+    if (p.type === 'IN' || (p.type === 'BREAK_END' && since === null)) {
+      since = p.timestamp;
+    } else if ((p.type === 'BREAK_START' || p.type === 'OUT') && since !== null) {
+      longest = Math.max(longest, p.timestamp - since);
+      since = null;
+    }
+  });
+  return longest / HOUR_MS;
+};
+
+export const measureWorkPatterns = (workDays: WorkDay[], settings: TimeSettings, standardDayHours: number): WorkPatterns => {
+  const worked = workDays.filter(d => d.totalHours > 0).sort((a, b) => a.date.localeCompare(b.date));
+  const totalHours = worked.reduce((acc, d) => acc + d.totalHours, 0);
+
+  const startMinutes = worked.flatMap(d => {
+    const firstIn = d.punches.filter(p => p.type === 'IN').sort((a, b) => a.timestamp - b.timestamp)[0];
+    if (!firstIn) return [];
+    const { hour, minute } = getZonedParts(firstIn.timestamp, settings.timeZone);
+    return [hour * 60 + minute];
+  });
+
+  let streak = 0;
+  let longestOvertimeStreak = 0;
+  worked.forEach((d, i) => {
+    if (d.totalHours <= standardDayHours) {
+      streak = 0;
+      return;
+    }
+    const continues = i > 0 && daysBetween(worked[i - 1].date, d.date) === 1 && worked[i - 1].totalHours > standardDayHours;
+    streak = continues ? streak + 1 : 1;
+    longestOvertimeStreak = Math.max(longestOvertimeStreak, streak);
+  });
+
+  const stretches = worked.map(getLongestStretch);
+  return {
+    daysWorked: worked.length,
+    totalHours: round1(totalHours),
+    averageHours: worked.length > 0 ? round1(totalHours / worked.length) : 0,
+    hoursSpread: round1(standardDeviation(worked.map(d => d.totalHours))),
+    startSpreadMinutes: Math.round(standardDeviation(startMinutes)),
+    overtimeDays: worked.filter(d => d.totalHours > standardDayHours).length,
+    longestOvertimeStreak,
+    longStretchDays: stretches.filter(hours => hours > LONG_STRETCH_HOURS).length,
+    longestStretchHours: round1(Math.max(0, ...stretches)),
+  };
+};
+
+/**
+ * Scores the patterns out of 100: up to 30 points each come off for uneven
+ * days, for overtime (more when it runs several days in a row) and for long
+ * stretches without a break.
+ */
+export const scoreWorkPatterns = (patterns: WorkPatterns): number => {
+  if (patterns.daysWorked === 0) return 0;
+  const consistency = Math.min(30, patterns.hoursSpread * 10 + (patterns.startSpreadMinutes / 60) * 10);
+  const overtime = Math.min(30, patterns.longestOvertimeStreak >= 3 ? patterns.longestOvertimeStreak * 6 : patterns.overtimeDays * 3);
+  const breaks = Math.min(30, patterns.longStretchDays * 8);
+  return Math.max(0, Math.round(100 - consistency - overtime - breaks));
+};
+
+// Summary and recommendations built from the punch data alone, without a model
+export const analyzeWorkDays = (
+  workDays: WorkDay[],
+  settings: TimeSettings,
+  standardDayHours: number,
+  i18n: Localizer
+): AIInsight => {
+  const patterns = measureWorkPatterns(workDays, settings, standardDayHours);
+  if (patterns.daysWorked === 0) {
+    return {
+      summary: i18n.t('localInsights.empty'),
+      recommendations: [i18n.t('localInsights.empty.tip')],
+      productivityScore: 0,
+    };
+  }
+
+  const standardDay = i18n.formatHours(standardDayHours);
+  const summary = [i18n.t(patterns.daysWorked === 1 ? 'localInsights.logged.one' : 'localInsights.logged.other', {
+    hours: i18n.formatHours(patterns.totalHours),
+    count: patterns.daysWorked,
+    average: i18n.formatHours(patterns.averageHours),
+  })];
+  const recommendations: string[] = [];
+
+  const steadyHours = patterns.hoursSpread <= 1;
+  const steadyStarts = patterns.startSpreadMinutes <= 30;
+  if (steadyHours && steadyStarts) {
+    summary.push(i18n.t('localInsights.steady'));
+  } else {
+    if (!steadyHours) {
+      summary.push(i18n.t('localInsights.hoursVary', { hours: i18n.formatHours(patterns.hoursSpread) }));
+      recommendations.push(i18n.t('localInsights.hoursVary.tip'));
+    }
+    if (!steadyStarts) {
+      summary.push(i18n.t('localInsights.startsVary', { duration: formatMinutes(patterns.startSpreadMinutes, i18n) }));
+      recommendations.push(i18n.t('localInsights.startsVary.tip'));
+    }
+  }
+
+  if (patterns.longestOvertimeStreak >= 3) {
+    summary.push(i18n.t('localInsights.overtimeStreak', { hours: standardDay, count: patterns.longestOvertimeStreak }));
+    recommendations.push(i18n.t('localInsights.overtimeStreak.tip'));
+  } else if (patterns.overtimeDays > 0) {
+    summary.push(i18n.t(patterns.overtimeDays === 1 ? 'localInsights.overtimeDays.one' : 'localInsights.overtimeDays.other', {
+      count: patterns.overtimeDays,
+      hours: standardDay,
+    }));
+  }
+
+  if (patterns.longStretchDays > 0) {
+    summary.push(i18n.t(patterns.longStretchDays === 1 ? 'localInsights.longStretch.one' : 'localInsights.longStretch.other', {
+      count: patterns.longStretchDays,
+      limit: i18n.formatHours(LONG_STRETCH_HOURS),
+      longest: i18n.formatHours(patterns.longestStretchHours),
+    }));
+    recommendations.push(i18n.t('localInsights.longStretch.tip', { hours: LONG_STRETCH_HOURS }));
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push(i18n.t('localInsights.balanced'));
+  }
+
+  return { summary: summary.join(' '), recommendations, productivityScore: scoreWorkPatterns(patterns) };
+};
+
+export const createLocalInsightProvider = (settings: TimeSettings, standardDayHours: number, i18n: Localizer): InsightProvider => ({
+  source: 'LOCAL',
+  label: i18n.t('localInsights.label'),
+  isAvailable: () => true,
+  getInsights: async workDays => analyzeWorkDays(workDays, settings, standardDayHours, i18n),
+});
@@ -0,0 +1,159 @@
+
+import { PayRules, PayrollDay, PayrollSummary, PunchEntry, WorkDay } from "../types";
+import { addDays, daysBetween, getZonedParts, parseDateKey, toDateKey } from "./timeEngine";
+
+export const DEFAULT_PAY_RULES: PayRules = {
+  standardDayHours: 8,
+  dailyOvertimeHours: 8,
+  dailyDoubleTimeHours: 12,
+  weeklyOvertimeHours: 40,
+  overtimeMultiplier: 1.5,
+  doubleTimeMultiplier: 2,
+  roundingIncrement: 0,
+  roundingGraceMinutes: 0,
+  hourlyRate: 0,
+  currency: 'USD',
+  payPeriod: 'BIWEEKLY',
+  payPeriodAnchor: '2024-01-01', // A Monday
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Rounds a punch to the configured increment of the local wall clock.
+ * Punches round to the nearest increment, except that an IN up to
+ * `roundingGraceMinutes` past a boundary rounds back to it and an OUT that
+ * close before a boundary rounds forward to it.
+ */
+export const roundPunchTime = (punch: PunchEntry, rules: PayRules, timeZone: string): number => {
+  const increment = rules.roundingIncrement;
+  if (!increment) return punch.timestamp;
+
+  const p = getZonedParts(punch.timestamp, timeZone);
+  const sinceBoundary = ((p.minute % increment) * 60 + p.second) * 1000 + (punch.timestamp % 1000);
+  const floor = punch.timestamp - sinceBoundary;
+  const ceil = floor + increment * MINUTE_MS;
+  const grace = rules.roundingGraceMinutes * MINUTE_MS;
+
+  if (sinceBoundary === 0) return punch.timestamp;
+  if (punch.type === 'IN' && sinceBoundary <= grace) return floor;
+  if (punch.type === 'OUT' && ceil - punch.timestamp <= grace) return ceil;
+  return punch.timestamp - floor < ceil - punch.timestamp ? floor : ceil;
+};
+
+export const applyRounding = (punches: PunchEntry[], rules: PayRules, timeZone: string): PunchEntry[] =>
+  rules.roundingIncrement
+    ? punches.map(p => ({ ...p, timestamp: roundPunchTime(p, rules, timeZone) }))
+    : punches;
+
+export const getPayPeriod = (dateKey: string, rules: PayRules): { start: string; end: string } => {
+  const { year, month, day } = parseDateKey(dateKey);
+  const monthStart = toDateKey(year, month, 1);
+  const monthEnd = addDays(month === 12 ? toDateKey(year + 1, 1, 1) : toDateKey(year, month + 1, 1), -1);
+
+  switch (rules.payPeriod) {
+    case 'MONTHLY':
+      return { start: monthStart, end: monthEnd };
+    case 'SEMIMONTHLY':
+      return day <= 15
+        ? { start: monthStart, end: toDateKey(year, month, 15) }
+        : { start: toDateKey(year, month, 16), end: monthEnd };
+    default: {
+      const length = rules.payPeriod === 'WEEKLY' ? 7 : 14;
+      const offset = Math.floor(daysBetween(rules.payPeriodAnchor, dateKey) / length) * length;
+      const start = addDays(rules.payPeriodAnchor, offset);
+      return { start, end: addDays(start, length - 1) };
+    }
+  }
+};
+
+export const shiftPayPeriod = (period: { start: string; end: string }, direction: -1 | 1, rules: PayRules) =>
+  getPayPeriod(direction < 0 ? addDays(period.start, -1) : addDays(period.end, 1), rules);
+
+// Workweeks for weekly overtime start on the weekday of the pay period anchor
+export const getWorkweekStart = (dateKey: string, rules: PayRules) =>
+  addDays(rules.payPeriodAnchor, Math.floor(daysBetween(rules.payPeriodAnchor, dateKey) / 7) * 7);
+
+const splitDailyHours = (hours: number, rules: PayRules): Omit<PayrollDay, 'date' | 'workedHours'> => {
+  const doubleTimeHours = rules.dailyDoubleTimeHours !== null ? Math.max(0, hours - rules.dailyDoubleTimeHours) : 0;
+  const beforeDoubleTime = hours - doubleTimeHours;
+  const regularHours = rules.dailyOvertimeHours !== null ? Math.min(beforeDoubleTime, rules.dailyOvertimeHours) : beforeDoubleTime;
+  return { regularHours, overtimeHours: beforeDoubleTime - regularHours, doubleTimeHours };
+};
+
+/**
+ * Splits the worked hours of a pay period into regular, overtime and
+ * double-time hours. Daily thresholds apply first; regular hours beyond the
+ * weekly threshold then become overtime. Days of a workweek that started in
+ * the previous period still count toward that week's threshold.
+ */
+export const computePayrollSummary = (
+  workDays: WorkDay[],
+  rules: PayRules,
+  period: { start: string; end: string }
+): PayrollSummary => {
+  const hoursByDate = new Map(workDays.map(d => [d.date, d.totalHours]));
+  const days: PayrollDay[] = [];
+  let weekStart = '';
+  let weekRegular = 0;
+
+  for (let date = getWorkweekStart(period.start, rules); date <= period.end; date = addDays(date, 1)) {
+    const currentWeek = getWorkweekStart(date, rules);
+    if (currentWeek !== weekStart) {
+      weekStart = currentWeek;
+      weekRegular = 0;
+    }
+
+    const workedHours = hoursByDate.get(date) ?? 0;
+    const split = splitDailyHours(workedHours, rules);
+
+    if (rules.weeklyOvertimeHours !== null) {
+      const overWeekly = Math.max(0, weekRegular + split.regularHours - rules.weeklyOvertimeHours);
+      const moved = Math.min(overWeekly, split.regularHours);
+      split.regularHours -= moved;
+      split.overtimeHours += moved;
+    }
+    weekRegular += split.regularHours;
+
+    if (date >= period.start && workedHours > 0) {
+      days.push({
+        date,
+        workedHours,
+        regularHours: round2(split.regularHours),
+        overtimeHours: round2(split.overtimeHours),
+        doubleTimeHours: round2(split.doubleTimeHours),
+      });
+    }
+  }
+
+  const sum = (key: keyof Omit<PayrollDay, 'date'>) => round2(days.reduce((acc, d) => acc + d[key], 0));
+  const regularHours = sum('regularHours');
+  const overtimeHours = sum('overtimeHours');
+  const doubleTimeHours = sum('doubleTimeHours');
+  const regularPay = round2(regularHours * rules.hourlyRate);
+  const overtimePay = round2(overtimeHours * rules.hourlyRate * rules.overtimeMultiplier);
+  const doubleTimePay = round2(doubleTimeHours * rules.hourlyRate * rules.doubleTimeMultiplier);
+
+  return {
+    periodStart: period.start,
+    periodEnd: period.end,
+    days: days.reverse(),
+    regularHours,
+    overtimeHours,
+    doubleTimeHours,
+    regularPay,
+    overtimePay,
+    doubleTimePay,
+    grossPay: round2(regularPay + overtimePay + doubleTimePay),
+  };
+};
+
+export const formatCurrency = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
@@ -0,0 +1,43 @@
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PunchEntry, TimeSettings, UserProfile } from "../types";
+import { createLocalizer, DEFAULT_DISPLAY_SETTINGS } from "./i18n";
+import { buildTeamOverview } from "./profiles";
+
+const SETTINGS: TimeSettings = { timeZone: 'UTC', dayRolloverHour: 0, weekStartsOn: 0 };
+const i18n = createLocalizer(DEFAULT_DISPLAY_SETTINGS);
+const profile: UserProfile = { id: 'u1', role: 'EMPLOYEE', name: 'Alex', email: '', joinedAt: 0 };
+
+const punch = (id: string, type: PunchEntry['type'], iso: string): PunchEntry => ({
+  id,
+  userId: profile.id,
+  type,
+  timestamp: Date.parse(iso),
+});
+
+describe('buildTeamOverview', () => {
+  it('counts an IN that follows another IN as a missing punch', () => {
+    const punches = [
+      punch('a', 'IN', '2024-05-06T08:00:00Z'),
+      punch('b', 'IN', '2024-05-06T13:00:00Z'),
+      punch('c', 'OUT', '2024-05-06T17:00:00Z'),
+    ];
+
+    const [summary] = buildTeamOverview([profile], punches, [], SETTINGS, 8, i18n, Date.parse('2024-05-07T12:00:00Z'));
+
+    assert.equal(summary.missingPunchCount, 1);
+    assert.equal(summary.issueCount, 1);
+  });
+
+  it('reports no missing punches for a closed shift', () => {
+    const punches = [
+      punch('a', 'IN', '2024-05-06T08:00:00Z'),
+      punch('b', 'OUT', '2024-05-06T16:00:00Z'),
+    ];
+
+    const [summary] = buildTeamOverview([profile], punches, [], SETTINGS, 8, i18n, Date.parse('2024-05-07T12:00:00Z'));
+
+    assert.equal(summary.missingPunchCount, 0);
+  });
+});
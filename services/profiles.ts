@@ -0,0 +1,70 @@
+
+import { PunchEntry, TeamMemberSummary, Timesheet, TimeSettings, UserProfile } from "../types";
+import { Localizer } from "./i18n";
+import { isActivePunch } from "./punchAudit";
+import { PunchIssueKind, validatePunches } from "./punchValidation";
+import { getWeekStart } from "./schedules";
+import { buildWorkDays, getDayKey, getPunchStatus } from "./timeEngine";
+
+// Issues where a punch is missing or stray, so the hours can't add up until it's fixed
+const MISSING_PUNCH_KINDS: ReadonlySet<PunchIssueKind> = new Set(['CONSECUTIVE_IN', 'ORPHAN_OUT', 'ORPHAN_BREAK', 'ORPHAN_SWITCH', 'OPEN_SESSION']);
+
+const newProfile = (name: string, email: string, role: UserProfile['role']): UserProfile => ({
+  id: crypto.randomUUID(),
+  role,
+  name,
+  email: email.trim(),
+  joinedAt: Date.now(),
+});
+
+export const createProfile = (name: string, i18n: Localizer, email = '', role: UserProfile['role'] = 'EMPLOYEE'): UserProfile =>
+  newProfile(name.trim() || i18n.t('profile.defaultName'), email, role);
+
+// The profile that owns punches recorded before profiles existed
+export const createDefaultProfile = (): UserProfile => newProfile('Me', '', 'MANAGER');
+
+// Stands in for a profile another device recorded punches for; it can be renamed like any other
+export const createSyncedProfile = (id: string, i18n: Localizer): UserProfile =>
+  ({ ...newProfile(i18n.t('profile.syncedName'), '', 'EMPLOYEE'), id });
+
+export const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+export const buildTeamOverview = (
+  profiles: UserProfile[],
+  punches: PunchEntry[],
+  timesheets: Timesheet[],
+  settings: TimeSettings,
+  standardDayHours: number,
+  i18n: Localizer,
+  now: number = Date.now()
+): TeamMemberSummary[] => {
+  const weekStart = getWeekStart(getDayKey(now, settings), settings.weekStartsOn);
+
+  return profiles.map(profile => {
+    const own = punches.filter(p => p.userId === profile.id && isActivePunch(p));
+    const workDays = buildWorkDays(own, settings, now);
+    const hoursThisWeek = workDays
+      .filter(d => d.date >= weekStart)
+      .reduce((acc, d) => acc + d.totalHours, 0);
+    const issues = validatePunches(own, settings, standardDayHours, i18n, now);
+
+    return {
+      profile,
+      status: getPunchStatus(own),
+      lastPunch: own.reduce<PunchEntry | null>((a, b) => (!a || b.timestamp > a.timestamp ? b : a), null),
+      hoursThisWeek: parseFloat(hoursThisWeek.toFixed(1)),
+      missingPunchCount: issues.filter(issue => MISSING_PUNCH_KINDS.has(issue.kind)).length,
+      issueCount: issues.length,
+      unaccountedHours: parseFloat(workDays.reduce((acc, d) => acc + d.unaccountedHours, 0).toFixed(2)),
+      submittedTimesheets: timesheets.filter(t => t.userId === profile.id && t.status === 'SUBMITTED').length,
+    };
+  });
+};
+
+const ACTIVE_USER_KEY = 'punchpro_active_user';
+
+// Which profile this device is signed in as; not shared between browsers
+export const loadActiveUserId = (): string | null => localStorage.getItem(ACTIVE_USER_KEY);
+
+export const saveActiveUserId = (id: string) => localStorage.setItem(ACTIVE_USER_KEY, id);
@@ -0,0 +1,83 @@
+
+import { Project, PunchEntry, TimeSettings } from "../types";
+import { addDays, buildIntervals, daysBetween, splitByDay } from "./timeEngine";
+import { Localizer } from "./i18n";
+
+export interface ProjectDay {
+  date: string;
+  hours: Record<string, number>; // Keyed by project id, or NO_PROJECT
+}
+
+export interface ProjectTotal {
+  projectId: string;
+  hours: number;
+}
+
+// Key for work that wasn't tagged with a project
+export const NO_PROJECT = 'none';
+
+export const NO_PROJECT_COLOR = '#a5b4fc';
+
+export const PROJECT_COLORS = ['#4f46e5', '#0891b2', '#059669', '#d97706', '#db2777', '#7c3aed', '#dc2626', '#65a30d'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const createProject = (name: string, client: string, existing: Project[]): Project => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  client: client.trim(),
+  color: PROJECT_COLORS[existing.length % PROJECT_COLORS.length],
+});
+
+export const getProjectLabel = (projects: Project[], projectId: string | undefined, i18n: Localizer): string => {
+  if (!projectId || projectId === NO_PROJECT) return i18n.t('punch.noProject');
+  return projects.find(p => p.id === projectId)?.name ?? i18n.t('project.deleted');
+};
+
+export const getProjectColor = (projects: Project[], projectId: string): string =>
+  projects.find(p => p.id === projectId)?.color ?? NO_PROJECT_COLOR;
+
+/**
+ * Paid hours per project for every day from `start` to `end` inclusive, days
+ * without work included. Unpaid breaks don't count, matching `totalHours`.
+ */
+export const buildProjectDays = (
+  punches: PunchEntry[],
+  settings: TimeSettings,
+  start: string,
+  end: string,
+  now: number = Date.now()
+): ProjectDay[] => {
+  const days = new Map<string, ProjectDay>();
+  for (let i = 0; i <= daysBetween(start, end); i++) {
+    const date = addDays(start, i);
+    days.set(date, { date, hours: {} });
+  }
+
+  buildIntervals(punches, settings, now)
+    .filter(interval => interval.kind !== 'UNPAID_BREAK')
+    .forEach(interval => {
+      splitByDay(interval, settings).forEach(segment => {
+        const day = days.get(segment.date);
+        if (!day) return;
+        const key = segment.projectId ?? NO_PROJECT;
+        day.hours[key] = (day.hours[key] ?? 0) + (segment.end - segment.start) / HOUR_MS;
+      });
+    });
+
+  return [...days.values()].map(day => ({
+    date: day.date,
+    hours: Object.fromEntries(Object.entries(day.hours).map(([key, hours]) => [key, parseFloat(hours.toFixed(2))])),
+  }));
+};
+
+// Largest first
+export const totalProjectHours = (days: ProjectDay[]): ProjectTotal[] => {
+  const totals: Record<string, number> = {};
+  days.forEach(day => Object.entries(day.hours).forEach(([key, hours]) => {
+    totals[key] = (totals[key] ?? 0) + hours;
+  }));
+  return Object.entries(totals)
+    .map(([projectId, hours]) => ({ projectId, hours: parseFloat(hours.toFixed(2)) }))
+    .sort((a, b) => b.hours - a.hours);
+};
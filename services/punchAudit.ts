@@ -0,0 +1,201 @@
+
+import {
+  BreakCategory, LocationFailure, PunchEntry, PunchLocation, PunchRevision, PunchRevisionAction, PunchType
+} from "../types";
+import { Localizer } from "./i18n";
+
+export interface PunchDraft {
+  type: PunchType;
+  timestamp: number;
+  breakCategory?: BreakCategory;
+  projectId?: string; // Only kept on IN and SWITCH punches
+  task?: string;
+  userId?: string; // Only used when adding; edits never move a punch to another user
+}
+
+export const PUNCH_TYPES: PunchType[] = ['IN', 'OUT', 'BREAK_START', 'BREAK_END', 'SWITCH'];
+
+export const isProjectPunch = (type: PunchType) => type === 'IN' || type === 'SWITCH';
+
+// Short label used on punch chips, e.g. "IN" or "BREAK (Unpaid)"
+export const formatPunchType = (punch: Pick<PunchEntry, 'type' | 'breakCategory'>, i18n: Localizer): string => {
+  if (punch.type === 'BREAK_START') {
+    return i18n.t(punch.breakCategory === 'PAID' ? 'punchChip.breakPaid' : 'punchChip.breakUnpaid');
+  }
+  return i18n.t(`punchChip.${punch.type}`);
+};
+
+export const REVISION_ACTIONS: PunchRevisionAction[] = ['CREATED', 'EDITED', 'DELETED', 'RESTORED'];
+
+export const LOCATION_FAILURES: LocationFailure[] = ['DENIED', 'UNAVAILABLE', 'TIMEOUT'];
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown) => typeof value === 'string';
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBreakCategory = (value: unknown) => value === 'PAID' || value === 'UNPAID';
+const isPunchType = (value: unknown): value is PunchType => PUNCH_TYPES.includes(value as PunchType);
+
+export const isValidLocation = (value: unknown): value is PunchLocation => {
+  const l = value as PunchLocation;
+  return !!l && typeof l === 'object' &&
+    isFiniteNumber(l.latitude) && Math.abs(l.latitude) <= 90 &&
+    isFiniteNumber(l.longitude) && Math.abs(l.longitude) <= 180 &&
+    isFiniteNumber(l.accuracy) && l.accuracy >= 0;
+};
+
+export const isLocationFailure = (value: unknown): value is LocationFailure =>
+  LOCATION_FAILURES.includes(value as LocationFailure);
+
+const isValidRevision = (value: unknown): value is PunchRevision => {
+  const r = value as PunchRevision;
+  return !!r && typeof r === 'object' &&
+    isFiniteNumber(r.at) &&
+    REVISION_ACTIONS.includes(r.action) &&
+    isString(r.reason) &&
+    isOptional(r.previous, previous => {
+      const v = previous as NonNullable<PunchRevision['previous']>;
+      return !!v && typeof v === 'object' &&
+        isPunchType(v.type) &&
+        isFiniteNumber(v.timestamp) &&
+        isOptional(v.breakCategory, isBreakCategory) &&
+        isOptional(v.projectId, isString) &&
+        isOptional(v.task, isString);
+    });
+};
+
+/**
+ * A punch every part of the app can rely on, optional fields included;
+ * records that fail this are never loaded, synced or applied.
+ */
+export const isValidPunch = (value: unknown): value is PunchEntry => {
+  const p = value as PunchEntry;
+  return !!p && typeof p === 'object' &&
+    typeof p.id === 'string' &&
+    isFiniteNumber(p.timestamp) &&
+    isPunchType(p.type) &&
+    isOptional(p.userId, isString) &&
+    isOptional(p.breakCategory, isBreakCategory) &&
+    isOptional(p.projectId, isString) &&
+    isOptional(p.task, isString) &&
+    isOptional(p.manual, isBoolean) &&
+    isOptional(p.autoClosed, isBoolean) &&
+    isOptional(p.deleted, isBoolean) &&
+    isOptional(p.location, isValidLocation) &&
+    isOptional(p.locationFailure, isLocationFailure) &&
+    isOptional(p.revisions, revisions => Array.isArray(revisions) && revisions.every(isValidRevision));
+};
+
+export const isActivePunch = (punch: PunchEntry): boolean => !punch.deleted;
+
+export const isEditedPunch = (punch: PunchEntry): boolean =>
+  (punch.revisions ?? []).some(r => r.action !== 'CREATED');
+
+// Punches are always kept newest first, so punches[0] is the latest one
+export const sortPunches = (punches: PunchEntry[]): PunchEntry[] =>
+  [...punches].sort((a, b) => b.timestamp - a.timestamp);
+
+const requireReason = (reason: string): string => {
+  const trimmed = reason.trim();
+  if (!trimmed) {
+    throw new Error("A reason is required for every manual change");
+  }
+  return trimmed;
+};
+
+const revise = (
+  punches: PunchEntry[],
+  id: string,
+  apply: (punch: PunchEntry) => PunchEntry,
+  revision: Omit<PunchRevision, 'previous'>
+): PunchEntry[] => {
+  const target = punches.find(p => p.id === id);
+  if (!target) {
+    throw new Error(`Punch ${id} does not exist`);
+  }
+
+  const updated: PunchEntry = {
+    ...apply(target),
+    revisions: [
+      ...(target.revisions ?? []),
+      {
+        ...revision,
+        previous: {
+          type: target.type,
+          timestamp: target.timestamp,
+          breakCategory: target.breakCategory,
+          ...(target.projectId && { projectId: target.projectId }),
+          ...(target.task && { task: target.task }),
+        },
+      },
+    ],
+  };
+
+  return sortPunches(punches.map(p => (p.id === id ? updated : p)));
+};
+
+export const addManualPunch = (
+  punches: PunchEntry[],
+  draft: PunchDraft,
+  reason: string,
+  now: number = Date.now()
+): PunchEntry[] => {
+  const newPunch: PunchEntry = {
+    id: crypto.randomUUID(),
+    ...(draft.userId && { userId: draft.userId }),
+    type: draft.type,
+    timestamp: draft.timestamp,
+    ...(draft.type === 'BREAK_START' && { breakCategory: draft.breakCategory ?? 'UNPAID' }),
+    ...(isProjectPunch(draft.type) && draft.projectId && { projectId: draft.projectId }),
+    ...(isProjectPunch(draft.type) && draft.task?.trim() && { task: draft.task.trim() }),
+    manual: true,
+    revisions: [{ at: now, action: 'CREATED', reason: requireReason(reason) }],
+  };
+  return sortPunches([newPunch, ...punches]);
+};
+
+export const editPunch = (
+  punches: PunchEntry[],
+  id: string,
+  changes: Partial<PunchDraft>,
+  reason: string,
+  now: number = Date.now()
+): PunchEntry[] =>
+  revise(punches, id, p => {
+    const next = { ...p, ...changes, userId: p.userId };
+    if (!next.userId) delete next.userId;
+    if (next.type !== 'BREAK_START') delete next.breakCategory;
+    else next.breakCategory ??= 'UNPAID';
+    if (!isProjectPunch(next.type) || !next.projectId) delete next.projectId;
+    next.task = next.task?.trim();
+    if (!isProjectPunch(next.type) || !next.task) delete next.task;
+    return next;
+  }, {
+    at: now,
+    action: 'EDITED',
+    reason: requireReason(reason),
+  });
+
+export const deletePunch = (
+  punches: PunchEntry[],
+  id: string,
+  reason: string,
+  now: number = Date.now()
+): PunchEntry[] =>
+  revise(punches, id, p => ({ ...p, deleted: true }), {
+    at: now,
+    action: 'DELETED',
+    reason: requireReason(reason),
+  });
+
+export const restorePunch = (
+  punches: PunchEntry[],
+  id: string,
+  reason: string,
+  now: number = Date.now()
+): PunchEntry[] =>
+  revise(punches, id, p => ({ ...p, deleted: false }), {
+    at: now,
+    action: 'RESTORED',
+    reason: requireReason(reason),
+  });
@@ -0,0 +1,71 @@
+
+import { PunchEntry, PunchRevision } from "../types";
+import { sortPunches } from "./punchAudit";
+
+// Request and response bodies of the sync endpoint, shared with the reference server
+export interface PushRequest {
+  punches: PunchEntry[];
+}
+
+export interface SyncResponse {
+  punches: PunchEntry[]; // The stored version of each punch, after merging
+  cursor: number; // Pass back as `since` to get only what changed after this
+  more?: boolean; // Pulls only: there are further changes past the cursor
+}
+
+// Most punches a client sends or the server returns in one request
+export const SYNC_BATCH_SIZE = 200;
+
+const lastChangeAt = (punch: PunchEntry) => {
+  const revisions = punch.revisions ?? [];
+  return revisions.length > 0 ? revisions[revisions.length - 1].at : punch.timestamp;
+};
+
+const revisionKey = (revision: PunchRevision) => `${revision.at}|${revision.action}|${revision.reason}`;
+
+/**
+ * Orders two versions of the same punch; the greater one wins a conflict.
+ * A version built on more revisions wins, then the one changed last, and
+ * as a last resort the serialized form, so every device picks the same one.
+ */
+export const comparePunchVersions = (a: PunchEntry, b: PunchEntry): number => {
+  const byRevisions = (a.revisions?.length ?? 0) - (b.revisions?.length ?? 0);
+  if (byRevisions !== 0) return byRevisions;
+  const byChange = lastChangeAt(a) - lastChangeAt(b);
+  if (byChange !== 0) return byChange;
+  const [left, right] = [JSON.stringify(a), JSON.stringify(b)];
+  return left === right ? 0 : left > right ? 1 : -1;
+};
+
+/**
+ * Merges two versions of a punch edited on different devices. The winner's
+ * fields are kept, and the revision logs are combined so neither edit
+ * disappears from the history. The result doesn't depend on argument order,
+ * and merging a version again changes nothing.
+ */
+export const mergePunchVersions = (a: PunchEntry, b: PunchEntry): PunchEntry => {
+  const winner = comparePunchVersions(a, b) >= 0 ? a : b;
+  const loser = winner === a ? b : a;
+  const known = new Set((winner.revisions ?? []).map(revisionKey));
+  const missing = (loser.revisions ?? []).filter(r => !known.has(revisionKey(r)));
+  if (missing.length === 0) return winner;
+
+  const revisions = [...(winner.revisions ?? []), ...missing]
+    .sort((x, y) => x.at - y.at || revisionKey(x).localeCompare(revisionKey(y)));
+  return { ...winner, revisions };
+};
+
+// Applies incoming versions to a punch list; returns the same list when nothing changed
+export const applyPunchVersions = (punches: PunchEntry[], incoming: PunchEntry[]): PunchEntry[] => {
+  const byId = new Map(punches.map(p => [p.id, p]));
+  let changed = false;
+  incoming.forEach(punch => {
+    const current = byId.get(punch.id);
+    const merged = current ? mergePunchVersions(current, punch) : punch;
+    if (merged !== current && JSON.stringify(merged) !== JSON.stringify(current)) {
+      byId.set(punch.id, merged);
+      changed = true;
+    }
+  });
+  return changed ? sortPunches([...byId.values()]) : punches;
+};
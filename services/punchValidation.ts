@@ -0,0 +1,213 @@
+
+import { LocationSettings, PunchEntry, TimeSettings, UserProfile } from "../types";
+import { findNearestSite, formatDistance, getCheckedSites, isOffSite, needsLocation } from "./geolocation";
+import { Localizer } from "./i18n";
+import { PunchDraft } from "./punchAudit";
+import { daysBetween, findUnclosedShift, getDayKey } from "./timeEngine";
+
+export type PunchIssueKind =
+  | 'CONSECUTIVE_IN'
+  | 'ORPHAN_OUT'
+  | 'ORPHAN_BREAK'
+  | 'ORPHAN_SWITCH'
+  | 'OPEN_SESSION'
+  | 'LONG_SHIFT'
+  | 'DUPLICATE_TIMESTAMP'
+  | 'OFF_SITE'
+  | 'NO_LOCATION';
+
+// Either a punch to add, pre-filled for the editor, or an existing punch to review
+export type PunchFix =
+  | { action: 'ADD'; draft: PunchDraft }
+  | { action: 'EDIT'; punchId: string };
+
+export interface PunchIssue {
+  id: string;
+  kind: PunchIssueKind;
+  severity: 'error' | 'warning'; // Errors change the hours, warnings only look suspicious
+  date: string; // Day key the issue is filed under
+  punchIds: string[];
+  message: string;
+  suggestion: string;
+  fix: PunchFix;
+}
+
+// No real shift runs this long; anything above is most likely a missed OUT
+export const LONG_SHIFT_HOURS = 16;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Checks active punches, in any order, for sequences the hours calculation
+ * can't make sense of. `standardDayHours` sets where suggested missing
+ * punches are placed.
+ */
+export const validatePunches = (
+  punches: PunchEntry[],
+  settings: TimeSettings,
+  standardDayHours: number,
+  i18n: Localizer,
+  now: number = Date.now()
+): PunchIssue[] => {
+  const formatHours = (ms: number) => i18n.formatHours(parseFloat((ms / HOUR_MS).toFixed(1)));
+  const sorted = [...punches].sort((a, b) => a.timestamp - b.timestamp);
+  const issues: PunchIssue[] = [];
+  const shiftMs = Math.max(standardDayHours, 1) * HOUR_MS;
+  let opening: PunchEntry | null = null;
+  let onBreak = false;
+
+  const report = (kind: PunchIssueKind, anchor: PunchEntry, issue: Omit<PunchIssue, 'id' | 'kind' | 'date' | 'severity'>) =>
+    issues.push({
+      id: `${kind}:${anchor.id}`,
+      kind,
+      severity: kind === 'LONG_SHIFT' ? 'warning' : 'error',
+      date: getDayKey(anchor.timestamp, settings),
+      ...issue,
+    });
+
+  // A standard shift after `start`, but never past the next punch or now
+  const suggestOut = (start: number, limit: number) => {
+    const latest = Math.min(limit, now) - MINUTE_MS;
+    return Math.max(Math.min(start + shiftMs, latest), start + Math.min(MINUTE_MS, (limit - start) / 2));
+  };
+
+  const checkLength = (inPunch: PunchEntry, end: number, outPunch?: PunchEntry) => {
+    if (end - inPunch.timestamp <= LONG_SHIFT_HOURS * HOUR_MS) return;
+    report('LONG_SHIFT', inPunch, {
+      punchIds: outPunch ? [inPunch.id, outPunch.id] : [inPunch.id],
+      message: i18n.t(outPunch ? 'issue.longShift.closed' : 'issue.longShift.open', { hours: formatHours(end - inPunch.timestamp) }),
+      suggestion: i18n.t(outPunch ? 'issue.longShift.checkOut' : 'issue.longShift.punchOut'),
+      fix: { action: 'EDIT', punchId: (outPunch ?? inPunch).id },
+    });
+  };
+
+  sorted.forEach((p, index) => {
+    const previous = sorted[index - 1];
+    if (previous && Math.floor(previous.timestamp / 1000) === Math.floor(p.timestamp / 1000)) {
+      report('DUPLICATE_TIMESTAMP', p, {
+        punchIds: [previous.id, p.id],
+        message: i18n.t('issue.duplicate'),
+        suggestion: i18n.t('issue.duplicate.fix'),
+        fix: { action: 'EDIT', punchId: p.id },
+      });
+      // An exact repeat adds nothing else to report
+      if (previous.type === p.type) return;
+    }
+
+    const open = opening as PunchEntry | null;
+    if (p.type === 'IN') {
+      if (open) {
+        report('CONSECUTIVE_IN', open, {
+          punchIds: [open.id, p.id],
+          message: i18n.t('issue.consecutiveIn'),
+          suggestion: i18n.t('issue.consecutiveIn.fix'),
+          fix: { action: 'ADD', draft: { type: 'OUT', timestamp: suggestOut(open.timestamp, p.timestamp) } },
+        });
+      }
+      opening = p;
+      onBreak = false;
+    } else if (p.type === 'OUT') {
+      if (open) {
+        checkLength(open, p.timestamp, p);
+      } else {
+        const earliest = previous ? previous.timestamp + MINUTE_MS : p.timestamp - shiftMs;
+        report('ORPHAN_OUT', p, {
+          punchIds: [p.id],
+          message: i18n.t('issue.orphanOut'),
+          suggestion: i18n.t('issue.orphanOut.fix'),
+          fix: { action: 'ADD', draft: { type: 'IN', timestamp: Math.min(Math.max(p.timestamp - shiftMs, earliest), p.timestamp - MINUTE_MS) } },
+        });
+      }
+      opening = null;
+      onBreak = false;
+    } else if (p.type === 'SWITCH') {
+      if (!open) {
+        report('ORPHAN_SWITCH', p, {
+          punchIds: [p.id],
+          message: i18n.t('issue.orphanSwitch'),
+          suggestion: i18n.t('issue.addInOrDelete'),
+          fix: { action: 'EDIT', punchId: p.id },
+        });
+      }
+    } else if (!open || (p.type === 'BREAK_END') !== onBreak) {
+      report('ORPHAN_BREAK', p, {
+        punchIds: [p.id],
+        message: i18n.t(!open ? 'issue.breakOutside' : p.type === 'BREAK_END' ? 'issue.breakNotStarted' : 'issue.breakTwice'),
+        suggestion: i18n.t(!open ? 'issue.addInOrDelete' : 'issue.deleteOrRetype'),
+        fix: { action: 'EDIT', punchId: p.id },
+      });
+    } else {
+      onBreak = p.type === 'BREAK_START';
+    }
+  });
+
+  // Mirrors buildSessions: a session open since before yesterday is left out of the totals
+  const open = opening as PunchEntry | null;
+  if (open) {
+    const unclosed = findUnclosedShift(sorted, settings, now);
+    if (unclosed) {
+      report('OPEN_SESSION', open, {
+        punchIds: [open.id],
+        message: i18n.t('issue.openSession', { days: daysBetween(getDayKey(open.timestamp, settings), getDayKey(now, settings)) }),
+        suggestion: i18n.t('issue.openSession.fix', { hours: formatHours(unclosed.end - unclosed.start) }),
+        fix: { action: 'ADD', draft: { type: 'OUT', timestamp: suggestOut(open.timestamp, now) } },
+      });
+    } else {
+      checkLength(open, now);
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Flags punches made away from every site they're checked against, and
+ * punches that were meant to carry a location but couldn't get one, as far
+ * as the person or a site still requires locations. Both are warnings; the
+ * hours still count.
+ */
+export const validatePunchLocations = (
+  punches: PunchEntry[],
+  location: LocationSettings,
+  settings: TimeSettings,
+  i18n: Localizer,
+  profile?: Pick<UserProfile, 'requiresLocation'> | null
+): PunchIssue[] => {
+  if (!needsLocation(location, profile)) return [];
+  const sites = getCheckedSites(location, profile);
+  return punches.flatMap<PunchIssue>(p => {
+    const base = {
+      severity: 'warning' as const,
+      date: getDayKey(p.timestamp, settings),
+      punchIds: [p.id],
+      fix: { action: 'EDIT' as const, punchId: p.id },
+    };
+    if (p.location && isOffSite(p.location, sites)) {
+      const nearest = findNearestSite(p.location, sites)!;
+      return [{
+        ...base,
+        id: `OFF_SITE:${p.id}`,
+        kind: 'OFF_SITE',
+        message: i18n.t('issue.offSite', { distance: formatDistance(nearest.meters), site: nearest.site.name }),
+        suggestion: i18n.t('issue.offSite.fix'),
+      }];
+    }
+    if (p.locationFailure) {
+      return [{
+        ...base,
+        id: `NO_LOCATION:${p.id}`,
+        kind: 'NO_LOCATION',
+        message: i18n.t('issue.noLocation'),
+        suggestion: `${i18n.t(`location.failure.${p.locationFailure}`)}.`,
+      }];
+    }
+    return [];
+  });
+};
+
+export const groupIssuesByDay = (issues: PunchIssue[]): Record<string, PunchIssue[]> => {
+  const days: Record<string, PunchIssue[]> = {};
+  issues.forEach(issue => (days[issue.date] ??= []).push(issue));
+  return days;
+};
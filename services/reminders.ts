@@ -0,0 +1,164 @@
+
+import { PunchEntry, ReminderSettings, TimeSettings } from "../types";
+import { Localizer } from "./i18n";
+import { isActivePunch, sortPunches } from "./punchAudit";
+import { addDays, getZonedParts, parseDateKey, toDateKey, zonedTimeToTimestamp } from "./timeEngine";
+
+export type ReminderKind = 'SHIFT_LENGTH' | 'END_OF_DAY';
+
+export interface Reminder {
+  id: string; // Stable per session, so each reminder fires once
+  kind: ReminderKind;
+  title: string;
+  body: string;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  shiftLengthHours: 10,
+  endOfDayTime: null,
+  autoCloseTime: null,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const SENT_KEY = 'punchpro_reminders_sent';
+const MAX_SENT = 50;
+
+const parseTime = (value: string) => {
+  const [hour, minute] = value.split(':').map(Number);
+  return { hour, minute };
+};
+
+// The first time `HH:MM` comes round on the wall clock after `after`
+export const nextWallClockTime = (after: number, time: string, timeZone: string): number => {
+  const { hour, minute } = parseTime(time);
+  const p = getZonedParts(after, timeZone);
+  let dateKey = toDateKey(p.year, p.month, p.day);
+  for (let i = 0; i < 3; i++) {
+    const { year, month, day } = parseDateKey(dateKey);
+    const candidate = zonedTimeToTimestamp(year, month, day, hour, minute, timeZone);
+    if (candidate > after) return candidate;
+    dateKey = addDays(dateKey, 1);
+  }
+  return after + 24 * HOUR_MS;
+};
+
+// The IN of the session still open at the end of `punches`, if any
+const findOpenIn = (punches: PunchEntry[]): PunchEntry | null => {
+  for (const p of [...punches].sort((a, b) => b.timestamp - a.timestamp)) {
+    if (p.type === 'OUT') return null;
+    if (p.type === 'IN') return p;
+  }
+  return null;
+};
+
+/**
+ * Reminders that apply to one person's open session right now. Callers drop
+ * the ones already shown, see `loadSentReminders`.
+ */
+export const getDueReminders = (
+  punches: PunchEntry[],
+  reminders: ReminderSettings,
+  settings: TimeSettings,
+  i18n: Localizer,
+  now: number = Date.now()
+): Reminder[] => {
+  const open = findOpenIn(punches.filter(isActivePunch));
+  if (!open) return [];
+  const due: Reminder[] = [];
+
+  const elapsed = now - open.timestamp;
+  if (reminders.shiftLengthHours && elapsed >= reminders.shiftLengthHours * HOUR_MS) {
+    due.push({
+      id: `SHIFT_LENGTH:${open.id}`,
+      kind: 'SHIFT_LENGTH',
+      title: i18n.t('reminder.shiftLength.title'),
+      body: i18n.t('reminder.shiftLength.body', { duration: i18n.formatHours(Math.floor(elapsed / 60000) / 60) }),
+    });
+  }
+
+  if (reminders.endOfDayTime) {
+    const endOfDay = nextWallClockTime(open.timestamp, reminders.endOfDayTime, settings.timeZone);
+    if (now >= endOfDay) {
+      due.push({
+        id: `END_OF_DAY:${open.id}`,
+        kind: 'END_OF_DAY',
+        title: i18n.t('reminder.endOfDay.title'),
+        body: i18n.t('reminder.endOfDay.body', { time: i18n.formatTime(endOfDay, settings.timeZone) }),
+      });
+    }
+  }
+
+  return due;
+};
+
+/**
+ * Adds an OUT to every session, per user, that is still open at the first
+ * `autoCloseTime` after its IN. The OUT's id is derived from the IN so two
+ * tabs closing the same session write the same punch, and a deliberately
+ * deleted auto-close isn't recreated.
+ */
+export const autoCloseSessions = (
+  punches: PunchEntry[],
+  reminders: ReminderSettings,
+  settings: TimeSettings,
+  now: number = Date.now()
+): PunchEntry[] => {
+  if (!reminders.autoCloseTime) return punches;
+  const ids = new Set(punches.map(p => p.id));
+  const byUser = new Map<string | undefined, PunchEntry[]>();
+  punches.filter(isActivePunch).forEach(p => {
+    const own = byUser.get(p.userId) ?? [];
+    own.push(p);
+    byUser.set(p.userId, own);
+  });
+
+  const closing: PunchEntry[] = [];
+  byUser.forEach(own => {
+    const open = findOpenIn(own);
+    if (!open) return;
+    const id = `${open.id}-auto-out`;
+    const closeAt = nextWallClockTime(open.timestamp, reminders.autoCloseTime!, settings.timeZone);
+    if (closeAt > now || ids.has(id)) return;
+    closing.push({
+      id,
+      ...(open.userId && { userId: open.userId }),
+      type: 'OUT',
+      timestamp: closeAt,
+      autoClosed: true,
+      revisions: [{ at: now, action: 'CREATED', reason: `Closed automatically at ${reminders.autoCloseTime}` }],
+    });
+  });
+
+  return closing.length > 0 ? sortPunches([...punches, ...closing]) : punches;
+};
+
+export const loadSentReminders = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SENT_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSentReminders = (ids: string[]) =>
+  localStorage.setItem(SENT_KEY, JSON.stringify(ids.slice(-MAX_SENT)));
+
+export const canNotify = () => typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (typeof Notification === 'undefined') return 'denied';
+  return Notification.requestPermission();
+};
+
+// Returns false when the caller should fall back to the in-app banner
+export const showNotification = (reminder: Reminder): boolean => {
+  if (!canNotify()) return false;
+  try {
+    new Notification(reminder.title, { body: reminder.body, tag: reminder.id });
+    return true;
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker
+    return false;
+  }
+};
@@ -0,0 +1,145 @@
+
+import { PunchEntry, ShiftBlock, TimeSettings, WorkSchedule } from "../types";
+import { Localizer } from "./i18n";
+import { addDays, buildSessions, daysBetween, getDayKey, parseDateKey, zonedTimeToTimestamp } from "./timeEngine";
+
+export type ScheduleExceptionKind = 'LATE_ARRIVAL' | 'EARLY_DEPARTURE' | 'NO_SHOW' | 'UNSCHEDULED_WORK';
+
+export interface ScheduledShift {
+  date: string; // Calendar date the shift starts on
+  start: number;
+  end: number;
+}
+
+export interface ScheduleException {
+  id: string;
+  kind: ScheduleExceptionKind;
+  date: string;
+  minutes: number; // How late, how early, or how long the unscheduled work was
+  shift?: ScheduledShift; // Not set for unscheduled work
+}
+
+const KNOWN_MONDAY = '2024-01-01';
+const MINUTE_MS = 60 * 1000;
+
+export const getWeekday = (dateKey: string) => ((daysBetween(KNOWN_MONDAY, dateKey) % 7) + 7) % 7;
+
+// First day of the week `dateKey` falls in; weeks start on Monday unless `weekStartsOn` says otherwise
+export const getWeekStart = (dateKey: string, weekStartsOn = 0) =>
+  addDays(dateKey, -((getWeekday(dateKey) - weekStartsOn + 7) % 7));
+
+export const createSchedule = (today: string): WorkSchedule => {
+  const weekday: ShiftBlock[] = [{ start: '09:00', end: '17:00' }];
+  return {
+    weeks: [[weekday, weekday, weekday, weekday, weekday, [], []]],
+    startsOn: getWeekStart(today),
+    graceMinutes: 5,
+  };
+};
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+// Length of a block in hours; blocks ending at or before their start run overnight
+export const getBlockHours = (block: ShiftBlock) => {
+  const length = toMinutes(block.end) - toMinutes(block.start);
+  return (length > 0 ? length : length + 24 * 60) / 60;
+};
+
+export const getBlocksForDate = (schedule: WorkSchedule, dateKey: string): ShiftBlock[] => {
+  if (schedule.weeks.length === 0 || dateKey < schedule.startsOn) return [];
+  const week = Math.floor(daysBetween(schedule.startsOn, dateKey) / 7) % schedule.weeks.length;
+  return schedule.weeks[week][getWeekday(dateKey)] ?? [];
+};
+
+export const getScheduledShifts = (schedule: WorkSchedule, dateKey: string, timeZone: string): ScheduledShift[] => {
+  const at = (minutes: number, dayOffset: number) => {
+    const { year, month, day } = parseDateKey(addDays(dateKey, dayOffset));
+    return zonedTimeToTimestamp(year, month, day, Math.floor(minutes / 60), minutes % 60, timeZone);
+  };
+  return getBlocksForDate(schedule, dateKey).map(block => {
+    const start = toMinutes(block.start);
+    const end = toMinutes(block.end);
+    return { date: dateKey, start: at(start, 0), end: at(end, end > start ? 0 : 1) };
+  });
+};
+
+export const getScheduledHours = (schedule: WorkSchedule, dateKey: string): number =>
+  parseFloat(getBlocksForDate(schedule, dateKey).reduce((acc, block) => acc + getBlockHours(block), 0).toFixed(2));
+
+/**
+ * Compares one person's punches with their schedule for `start` to `end`
+ * inclusive. Only shifts that have started by `now` are judged; a shift
+ * still in progress can be late but not yet a no-show or an early departure.
+ * Shifts on `daysOff`, such as leave and holidays, aren't judged at all.
+ */
+export const compareToSchedule = (
+  punches: PunchEntry[],
+  schedule: WorkSchedule,
+  settings: TimeSettings,
+  start: string,
+  end: string,
+  daysOff: ReadonlySet<string> = new Set(),
+  now: number = Date.now()
+): ScheduleException[] => {
+  const grace = schedule.graceMinutes * MINUTE_MS;
+  const sessions = buildSessions(punches, settings, now);
+  const exceptions: ScheduleException[] = [];
+
+  // Overnight shifts from the day before can reach into the range
+  const shifts: ScheduledShift[] = [];
+  for (let i = -1; i <= daysBetween(start, end); i++) {
+    shifts.push(...getScheduledShifts(schedule, addDays(start, i), settings.timeZone));
+  }
+
+  shifts
+    .filter(shift => shift.date >= start && shift.date <= end && shift.start <= now && !daysOff.has(shift.date))
+    .forEach(shift => {
+      const worked = sessions.filter(s => s.start < shift.end && s.end > shift.start);
+      const id = `${shift.date}@${shift.start}`;
+      if (worked.length === 0) {
+        if (now >= shift.end) {
+          exceptions.push({ id: `NO_SHOW:${id}`, kind: 'NO_SHOW', date: shift.date, minutes: Math.round((shift.end - shift.start) / MINUTE_MS), shift });
+        } else if (now > shift.start + grace) {
+          exceptions.push({ id: `LATE_ARRIVAL:${id}`, kind: 'LATE_ARRIVAL', date: shift.date, minutes: Math.round((now - shift.start) / MINUTE_MS), shift });
+        }
+        return;
+      }
+
+      const arrival = Math.min(...worked.map(s => s.start));
+      if (arrival > shift.start + grace) {
+        exceptions.push({ id: `LATE_ARRIVAL:${id}`, kind: 'LATE_ARRIVAL', date: shift.date, minutes: Math.round((arrival - shift.start) / MINUTE_MS), shift });
+      }
+      const last = worked.reduce((a, b) => (b.end > a.end ? b : a));
+      if (!last.open && last.end < shift.end - grace) {
+        exceptions.push({ id: `EARLY_DEPARTURE:${id}`, kind: 'EARLY_DEPARTURE', date: shift.date, minutes: Math.round((shift.end - last.end) / MINUTE_MS), shift });
+      }
+    });
+
+  sessions
+    .filter(s => !shifts.some(shift => s.start < shift.end && s.end > shift.start))
+    .forEach(s => {
+      const date = getDayKey(s.start, settings);
+      if (date < start || date > end) return;
+      exceptions.push({ id: `UNSCHEDULED_WORK:${s.inPunchId}`, kind: 'UNSCHEDULED_WORK', date, minutes: Math.round((s.end - s.start) / MINUTE_MS) });
+    });
+
+  return exceptions;
+};
+
+export const groupExceptionsByDay = (exceptions: ScheduleException[]): Record<string, ScheduleException[]> => {
+  const days: Record<string, ScheduleException[]> = {};
+  exceptions.forEach(exception => (days[exception.date] ??= []).push(exception));
+  return days;
+};
+
+export const formatMinutes = (minutes: number, i18n: Localizer) => {
+  if (minutes < 60) return i18n.t('duration.minutes', { minutes });
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? i18n.t('duration.hoursMinutes', { hours, minutes: minutes % 60 }) : i18n.t('duration.hours', { hours });
+};
+
+export const describeException = (exception: ScheduleException, i18n: Localizer): string =>
+  i18n.t(`exception.${exception.kind}`, { duration: formatMinutes(exception.minutes, i18n) });
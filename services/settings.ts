@@ -0,0 +1,63 @@
+
+import { AppSettings } from "../types";
+import { DEFAULT_TIME_SETTINGS, isValidTimeZone } from "./timeEngine";
+import { DEFAULT_PAY_RULES } from "./payRules";
+import { DEFAULT_KIOSK_SETTINGS } from "./kiosk";
+import { DEFAULT_REMINDER_SETTINGS } from "./reminders";
+import { DEFAULT_LEAVE_POLICIES } from "./leave";
+import { DEFAULT_AI_SETTINGS } from "./aiPrivacy";
+import { DEFAULT_SYNC_SETTINGS } from "./syncClient";
+import { DEFAULT_LOCATION_SETTINGS } from "./geolocation";
+import { DEFAULT_DISPLAY_SETTINGS } from "./i18n";
+
+const SETTINGS_KEY = 'punchpro_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  time: DEFAULT_TIME_SETTINGS,
+  payRules: DEFAULT_PAY_RULES,
+  kiosk: DEFAULT_KIOSK_SETTINGS,
+  reminders: DEFAULT_REMINDER_SETTINGS,
+  projects: [],
+  leave: DEFAULT_LEAVE_POLICIES,
+  holidays: [],
+  ai: DEFAULT_AI_SETTINGS,
+  sync: DEFAULT_SYNC_SETTINGS,
+  location: DEFAULT_LOCATION_SETTINGS,
+  display: DEFAULT_DISPLAY_SETTINGS,
+};
+
+// Saved settings are merged over the defaults so new sections pick up sane values
+export const loadSettings = (): AppSettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return DEFAULT_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(saved) as Partial<AppSettings>;
+    const time = { ...DEFAULT_SETTINGS.time, ...parsed.time };
+    if (!isValidTimeZone(time.timeZone)) {
+      time.timeZone = DEFAULT_SETTINGS.time.timeZone;
+    }
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      time,
+      payRules: { ...DEFAULT_SETTINGS.payRules, ...parsed.payRules },
+      kiosk: { ...DEFAULT_SETTINGS.kiosk, ...parsed.kiosk },
+      reminders: { ...DEFAULT_SETTINGS.reminders, ...parsed.reminders },
+      projects: Array.isArray(parsed.projects) ? parsed.projects : DEFAULT_SETTINGS.projects,
+      leave: { ...DEFAULT_SETTINGS.leave, ...parsed.leave },
+      holidays: Array.isArray(parsed.holidays) ? parsed.holidays : DEFAULT_SETTINGS.holidays,
+      ai: { ...DEFAULT_SETTINGS.ai, ...parsed.ai },
+      sync: { ...DEFAULT_SETTINGS.sync, ...parsed.sync },
+      location: { ...DEFAULT_SETTINGS.location, ...parsed.location },
+      display: { ...DEFAULT_SETTINGS.display, ...parsed.display },
+    };
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
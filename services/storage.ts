@@ -0,0 +1,439 @@
+
+import { InsightReport, LeaveRequest, PunchEntry, Timesheet, UserProfile } from "../types";
+import { isValidPunch, sortPunches } from "./punchAudit";
+import { createDefaultProfile } from "./profiles";
+
+export interface AppendResult {
+  accepted: boolean;
+  punches: PunchEntry[]; // The stored punches after the attempt, newest first
+}
+
+export interface PunchStore {
+  load: () => Promise<PunchEntry[]>;
+  // Writes only the punches that changed since the last load or save
+  save: (punches: PunchEntry[]) => Promise<void>;
+  // Checks and inserts in one transaction, so two tabs can't both punch in
+  appendPunch: (punch: PunchEntry, canAppend: (current: PunchEntry[]) => boolean) => Promise<AppendResult>;
+  // Called with the new punch list whenever another tab changes it
+  subscribe: (listener: (punches: PunchEntry[]) => void) => () => void;
+  loadProfiles: () => Promise<UserProfile[]>;
+  saveProfiles: (profiles: UserProfile[]) => Promise<void>;
+  subscribeProfiles: (listener: (profiles: UserProfile[]) => void) => () => void;
+  loadLeave: () => Promise<LeaveRequest[]>;
+  saveLeave: (requests: LeaveRequest[]) => Promise<void>;
+  subscribeLeave: (listener: (requests: LeaveRequest[]) => void) => () => void;
+  loadTimesheets: () => Promise<Timesheet[]>;
+  saveTimesheets: (timesheets: Timesheet[]) => Promise<void>;
+  subscribeTimesheets: (listener: (timesheets: Timesheet[]) => void) => () => void;
+  loadInsights: () => Promise<InsightReport[]>;
+  saveInsights: (reports: InsightReport[]) => Promise<void>;
+  subscribeInsights: (listener: (reports: InsightReport[]) => void) => () => void;
+}
+
+/**
+ * Things about the database the user has to know. UPGRADE_BLOCKED: another
+ * tab still has an older version open, and opening waits until it closes.
+ * CLOSED_FOR_UPGRADE: a newer version was opened elsewhere or left behind by
+ * a newer build, so this tab let go of the database and has to reload. RECOVERED: the database couldn't be
+ * read; its contents were backed up (see loadRecoveryBackup) before it was
+ * rebuilt. FALLBACK: IndexedDB can't be used, and data is kept in
+ * localStorage for now; the database was left as it was.
+ */
+export type StorageNotice = 'UPGRADE_BLOCKED' | 'CLOSED_FOR_UPGRADE' | 'RECOVERED' | 'FALLBACK';
+
+type ChangeMessage = {
+  type: 'punches-changed' | 'profiles-changed' | 'leave-changed' | 'timesheets-changed' | 'insights-changed';
+  from: string;
+};
+
+const DB_NAME = 'punchpro';
+const DB_VERSION = 5;
+const LEGACY_STORAGE_KEY = 'punchpro_data';
+const FALLBACK_PROFILES_KEY = 'punchpro_profiles';
+const FALLBACK_LEAVE_KEY = 'punchpro_leave';
+const FALLBACK_TIMESHEETS_KEY = 'punchpro_timesheets';
+const FALLBACK_INSIGHTS_KEY = 'punchpro_insights';
+const RECOVERY_KEY = 'punchpro_recovery';
+const CHANNEL_NAME = 'punchpro-storage';
+
+const tabId = crypto.randomUUID();
+
+const readLegacyPunches = (): PunchEntry[] => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isValidPunch) : [];
+  } catch (e) {
+    console.error("Failed to read legacy punches", e);
+    return [];
+  }
+};
+
+/**
+ * Schema migrations, applied in order inside the upgrade transaction.
+ * MIGRATIONS[n] upgrades a database from version n to n + 1.
+ */
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: punches keyed by id, seeded from the old localStorage payload
+  (db, tx) => {
+    const punches = db.createObjectStore('punches', { keyPath: 'id' });
+    punches.createIndex('timestamp', 'timestamp');
+    db.createObjectStore('quarantine', { autoIncrement: true });
+    readLegacyPunches().forEach(p => punches.put(p));
+    tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_STORAGE_KEY));
+  },
+  // v2: user profiles; every existing punch goes to a default profile
+  (db, tx) => {
+    db.createObjectStore('profiles', { keyPath: 'id' });
+    const owner = createDefaultProfile();
+    tx.objectStore('profiles').put(owner);
+
+    const punches = tx.objectStore('punches');
+    punches.createIndex('userId', 'userId');
+    punches.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      if (!cursor.value.userId) cursor.update({ ...cursor.value, userId: owner.id });
+      cursor.continue();
+    };
+  },
+  // v3: leave requests of every profile
+  (db) => {
+    const leave = db.createObjectStore('leave', { keyPath: 'id' });
+    leave.createIndex('userId', 'userId');
+  },
+  // v4: weekly timesheets, keyed by user and week
+  (db) => {
+    const timesheets = db.createObjectStore('timesheets', { keyPath: 'id' });
+    timesheets.createIndex('userId', 'userId');
+  },
+  // v5: generated insight reports with the work days behind them
+  (db) => {
+    const insights = db.createObjectStore('insights', { keyPath: 'id' });
+    insights.createIndex('userId', 'userId');
+  },
+];
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+});
+
+// A blocked upgrade isn't an error: the request goes ahead once the other tab closes its connection
+const openDatabase = (onNotice: (notice: StorageNotice) => void) => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+    const tx = request.transaction!;
+    for (let version = event.oldVersion; version < DB_VERSION; version++) {
+      MIGRATIONS[version](db, tx);
+    }
+  };
+  request.onsuccess = () => {
+    const db = request.result;
+    // Otherwise this tab would block the upgrade of a newer version opened in another one
+    db.onversionchange = () => {
+      db.close();
+      onNotice('CLOSED_FOR_UPGRADE');
+    };
+    resolve(db);
+  };
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => onNotice('UPGRADE_BLOCKED');
+});
+
+// Like an upgrade, deleting waits for other tabs to close their connections
+const deleteDatabase = (onNotice: (notice: StorageNotice) => void) => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.deleteDatabase(DB_NAME);
+  request.onsuccess = () => resolve();
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => onNotice('UPGRADE_BLOCKED');
+});
+
+// The database was created by a newer build, which this one must neither read nor rebuild
+const isVersionError = (e: unknown) => e instanceof DOMException && e.name === 'VersionError';
+
+/**
+ * Copies every store of the database, whatever its version, into
+ * localStorage. The punches are kept under `stores.punches`, which the
+ * timesheet import reads, so the backup can be imported back. Resolves to false when nothing could be read or the copy
+ * doesn't fit, in which case the database must not be deleted.
+ */
+const backupDatabase = () => new Promise<boolean>(resolve => {
+  const request = indexedDB.open(DB_NAME);
+  request.onerror = () => resolve(false);
+  request.onblocked = () => resolve(false);
+  request.onsuccess = async () => {
+    const db = request.result;
+    try {
+      const names = Array.from(db.objectStoreNames);
+      const stores: Record<string, unknown[]> = {};
+      if (names.length > 0) {
+        const tx = db.transaction(names);
+        const contents = await Promise.all(names.map(name => promisify(tx.objectStore(name).getAll())));
+        names.forEach((name, i) => {
+          stores[name] = contents[i];
+        });
+      }
+      localStorage.setItem(RECOVERY_KEY, JSON.stringify({ version: db.version, savedAt: Date.now(), stores }));
+      resolve(true);
+    } catch (e) {
+      console.error("Failed to back up the punch database", e);
+      resolve(false);
+    } finally {
+      db.close();
+    }
+  };
+});
+
+// The backup taken before an unreadable database was last rebuilt, as JSON; kept until the next one
+export const loadRecoveryBackup = (): string | null => localStorage.getItem(RECOVERY_KEY);
+
+/**
+ * Invalid records are moved to the quarantine store rather than dropped, so
+ * a bad write from an older build never blocks loading the rest.
+ */
+const readAll = async (db: IDBDatabase): Promise<PunchEntry[]> => {
+  const tx = db.transaction(['punches', 'quarantine'], 'readwrite');
+  const records = await promisify(tx.objectStore('punches').getAll());
+  const valid: PunchEntry[] = [];
+  records.forEach(record => {
+    if (isValidPunch(record)) {
+      valid.push(record);
+    } else {
+      tx.objectStore('quarantine').add({ record, quarantinedAt: Date.now() });
+      if (record && typeof record === 'object' && 'id' in record) {
+        tx.objectStore('punches').delete(record.id as IDBValidKey);
+      }
+    }
+  });
+  await transactionDone(tx);
+  if (valid.length < records.length) {
+    console.warn(`Quarantined ${records.length - valid.length} corrupt punch records`);
+  }
+  return sortPunches(valid);
+};
+
+const createChannel = () =>
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+const createIndexedDbStore = (db: IDBDatabase): PunchStore => {
+  const channel = createChannel();
+  // Last known stored objects; React state keeps unchanged punches by reference
+  let known = new Map<string, PunchEntry>();
+  const remember = (punches: PunchEntry[]) => {
+    known = new Map(punches.map(p => [p.id, p]));
+    return punches;
+  };
+  const announce = (type: ChangeMessage['type']) => channel?.postMessage({ type, from: tabId } as ChangeMessage);
+  const listen = (type: ChangeMessage['type'], onChange: () => void) => {
+    if (!channel) return () => {};
+    const onMessage = (event: MessageEvent<ChangeMessage>) => {
+      if (event.data?.type === type && event.data.from !== tabId) onChange();
+    };
+    channel.addEventListener('message', onMessage);
+    return () => channel.removeEventListener('message', onMessage);
+  };
+
+  return {
+    load: async () => remember(await readAll(db)),
+
+    save: async (punches) => {
+      const changed = punches.filter(p => known.get(p.id) !== p);
+      const ids = new Set(punches.map(p => p.id));
+      const removed = [...known.keys()].filter(id => !ids.has(id));
+      if (changed.length === 0 && removed.length === 0) return;
+
+      const tx = db.transaction('punches', 'readwrite');
+      const store = tx.objectStore('punches');
+      changed.forEach(p => store.put(p));
+      removed.forEach(id => store.delete(id));
+      await transactionDone(tx);
+      remember(punches);
+      announce('punches-changed');
+    },
+
+    appendPunch: async (punch, canAppend) => {
+      const tx = db.transaction('punches', 'readwrite');
+      const store = tx.objectStore('punches');
+      const current = sortPunches((await promisify(store.getAll())).filter(isValidPunch));
+      const accepted = canAppend(current);
+      if (accepted) store.put(punch);
+      await transactionDone(tx);
+
+      const punches = remember(accepted ? sortPunches([punch, ...current]) : current);
+      if (accepted) announce('punches-changed');
+      return { accepted, punches };
+    },
+
+    subscribe: (listener) =>
+      listen('punches-changed', async () => listener(remember(await readAll(db)))),
+
+    loadProfiles: () => promisify(db.transaction('profiles').objectStore('profiles').getAll()),
+
+    saveProfiles: async (profiles) => {
+      const tx = db.transaction('profiles', 'readwrite');
+      const store = tx.objectStore('profiles');
+      store.clear();
+      profiles.forEach(p => store.put(p));
+      await transactionDone(tx);
+      announce('profiles-changed');
+    },
+
+    subscribeProfiles: (listener) =>
+      listen('profiles-changed', async () =>
+        listener(await promisify(db.transaction('profiles').objectStore('profiles').getAll()))),
+
+    loadLeave: () => promisify(db.transaction('leave').objectStore('leave').getAll()),
+
+    saveLeave: async (requests) => {
+      const tx = db.transaction('leave', 'readwrite');
+      const store = tx.objectStore('leave');
+      store.clear();
+      requests.forEach(r => store.put(r));
+      await transactionDone(tx);
+      announce('leave-changed');
+    },
+
+    subscribeLeave: (listener) =>
+      listen('leave-changed', async () =>
+        listener(await promisify(db.transaction('leave').objectStore('leave').getAll()))),
+
+    loadTimesheets: () => promisify(db.transaction('timesheets').objectStore('timesheets').getAll()),
+
+    saveTimesheets: async (timesheets) => {
+      const tx = db.transaction('timesheets', 'readwrite');
+      const store = tx.objectStore('timesheets');
+      store.clear();
+      timesheets.forEach(t => store.put(t));
+      await transactionDone(tx);
+      announce('timesheets-changed');
+    },
+
+    subscribeTimesheets: (listener) =>
+      listen('timesheets-changed', async () =>
+        listener(await promisify(db.transaction('timesheets').objectStore('timesheets').getAll()))),
+
+    loadInsights: () => promisify(db.transaction('insights').objectStore('insights').getAll()),
+
+    saveInsights: async (reports) => {
+      const tx = db.transaction('insights', 'readwrite');
+      const store = tx.objectStore('insights');
+      store.clear();
+      reports.forEach(r => store.put(r));
+      await transactionDone(tx);
+      announce('insights-changed');
+    },
+
+    subscribeInsights: (listener) =>
+      listen('insights-changed', async () =>
+        listener(await promisify(db.transaction('insights').objectStore('insights').getAll()))),
+  };
+};
+
+// Used when IndexedDB is unavailable, e.g. some private browsing modes
+const createLocalStorageStore = (): PunchStore => {
+  const readList = <T>(key: string): T[] => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) ?? '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  };
+  const readProfiles = () => readList<UserProfile>(FALLBACK_PROFILES_KEY);
+  const writeProfiles = (profiles: UserProfile[]) => localStorage.setItem(FALLBACK_PROFILES_KEY, JSON.stringify(profiles));
+  const onKey = <T>(key: string, read: () => T[], listener: (items: T[]) => void) => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === key) listener(read());
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  };
+  const write = (punches: PunchEntry[]) => localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(punches));
+
+  // Same as the v2 migration: unowned punches go to the first profile
+  const read = () => {
+    const punches = sortPunches(readLegacyPunches());
+    if (punches.every(p => p.userId)) return punches;
+    let owner = readProfiles()[0];
+    if (!owner) {
+      owner = createDefaultProfile();
+      writeProfiles([owner]);
+    }
+    const owned = punches.map(p => (p.userId ? p : { ...p, userId: owner.id }));
+    write(owned);
+    return owned;
+  };
+
+  return {
+    load: async () => read(),
+    save: async (punches) => write(punches),
+    appendPunch: async (punch, canAppend) => {
+      const current = read();
+      if (!canAppend(current)) return { accepted: false, punches: current };
+      const punches = sortPunches([punch, ...current]);
+      write(punches);
+      return { accepted: true, punches };
+    },
+    subscribe: (listener) => onKey(LEGACY_STORAGE_KEY, read, listener),
+    loadProfiles: async () => readProfiles(),
+    saveProfiles: async (profiles) => writeProfiles(profiles),
+    subscribeProfiles: (listener) => onKey(FALLBACK_PROFILES_KEY, readProfiles, listener),
+    loadLeave: async () => readList<LeaveRequest>(FALLBACK_LEAVE_KEY),
+    saveLeave: async (requests) => localStorage.setItem(FALLBACK_LEAVE_KEY, JSON.stringify(requests)),
+    subscribeLeave: (listener) => onKey(FALLBACK_LEAVE_KEY, () => readList<LeaveRequest>(FALLBACK_LEAVE_KEY), listener),
+    loadTimesheets: async () => readList<Timesheet>(FALLBACK_TIMESHEETS_KEY),
+    saveTimesheets: async (timesheets) => localStorage.setItem(FALLBACK_TIMESHEETS_KEY, JSON.stringify(timesheets)),
+    subscribeTimesheets: (listener) =>
+      onKey(FALLBACK_TIMESHEETS_KEY, () => readList<Timesheet>(FALLBACK_TIMESHEETS_KEY), listener),
+    loadInsights: async () => readList<InsightReport>(FALLBACK_INSIGHTS_KEY),
+    saveInsights: async (reports) => localStorage.setItem(FALLBACK_INSIGHTS_KEY, JSON.stringify(reports)),
+    subscribeInsights: (listener) =>
+      onKey(FALLBACK_INSIGHTS_KEY, () => readList<InsightReport>(FALLBACK_INSIGHTS_KEY), listener),
+  };
+};
+
+/**
+ * Opens the punch store. A database that fails to open or read is backed up
+ * to localStorage, then deleted and rebuilt once. Without a backup it is
+ * left alone and localStorage is used, as when IndexedDB doesn't work at all.
+ * A database from a newer build is never touched: this tab is told to reload
+ * and the returned promise rejects.
+ */
+export const openPunchStore = async (onNotice: (notice: StorageNotice) => void): Promise<PunchStore> => {
+  if (typeof indexedDB === 'undefined') return createLocalStorageStore();
+
+  let db: IDBDatabase | null = null;
+  try {
+    db = await openDatabase(onNotice);
+    await readAll(db);
+    return createIndexedDbStore(db);
+  } catch (e) {
+    db?.close();
+    if (isVersionError(e)) {
+      onNotice('CLOSED_FOR_UPGRADE');
+      throw e;
+    }
+    console.error("Punch database is unreadable", e);
+  }
+
+  try {
+    if (!(await backupDatabase())) throw new Error("The punch database could not be backed up");
+    await deleteDatabase(onNotice);
+    const store = createIndexedDbStore(await openDatabase(onNotice));
+    onNotice('RECOVERED');
+    return store;
+  } catch (e) {
+    console.error("Falling back to localStorage for punches", e);
+    onNotice('FALLBACK');
+    return createLocalStorageStore();
+  }
+};
@@ -0,0 +1,188 @@
+
+import { PunchEntry, SyncSettings } from "../types";
+import { Localizer } from "./i18n";
+import { isValidPunch } from "./punchAudit";
+import { PushRequest, SYNC_BATCH_SIZE, SyncResponse } from "./punchSync";
+
+export type SyncStatus = 'SYNCED' | 'SYNCING' | 'OFFLINE' | 'ERROR';
+
+export interface SyncState {
+  status: SyncStatus;
+  pending: number; // Punches changed here that the server hasn't confirmed yet
+  lastSyncedAt: number | null;
+  error?: string;
+}
+
+export interface SyncClient {
+  getState: () => SyncState;
+  subscribe: (listener: (state: SyncState) => void) => () => void;
+  // Queues the punches that differ between two versions of the local list
+  trackChanges: (previous: PunchEntry[], next: PunchEntry[]) => void;
+  // Sends the queue and fetches what other devices changed; resolves to the versions to apply here
+  sync: (local: PunchEntry[]) => Promise<PunchEntry[]>;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  endpoint: '/api/sync',
+};
+
+// How often to sync when nothing else triggers it
+export const SYNC_INTERVAL_MS = 30 * 1000;
+
+const QUEUE_KEY = 'punchpro_sync_queue';
+const CURSOR_KEY = 'punchpro_sync_cursor';
+
+interface SavedCursor {
+  endpoint: string;
+  cursor: number;
+}
+
+const loadQueue = (): PunchEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQueue = (queue: PunchEntry[]) => localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+
+// A cursor only means something to the server that issued it
+const loadCursor = (endpoint: string): number | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CURSOR_KEY) ?? 'null') as SavedCursor | null;
+    return saved?.endpoint === endpoint ? saved.cursor : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveCursor = (endpoint: string, cursor: number) =>
+  localStorage.setItem(CURSOR_KEY, JSON.stringify({ endpoint, cursor } as SavedCursor));
+
+const readResponse = async (response: Response, i18n: Localizer): Promise<SyncResponse> => {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = data && typeof data.error === 'string' ? data.error : i18n.t('sync.error.status', { status: response.status });
+    throw new Error(message);
+  }
+  if (!data || !Array.isArray(data.punches) || typeof data.cursor !== 'number') {
+    throw new Error(i18n.t('sync.error.unexpected'));
+  }
+  // One malformed punch from the server must not reach the UI
+  const punches = (data.punches as unknown[]).filter(isValidPunch);
+  if (punches.length < data.punches.length) {
+    console.warn(`Ignored ${data.punches.length - punches.length} invalid punches from the sync server`);
+  }
+  return { ...data, punches } as SyncResponse;
+};
+
+/**
+ * Keeps this device's punches in step with a REST endpoint. Local changes
+ * wait in a queue that survives reloads, so punches made offline go out
+ * once the connection is back. Conflicts are settled with
+ * `mergePunchVersions` on the server, and again here when applying.
+ */
+export const createSyncClient = (settings: SyncSettings, i18n: Localizer): SyncClient => {
+  const endpoint = settings.endpoint.replace(/\/+$/, '');
+  const listeners = new Set<(state: SyncState) => void>();
+  let queue = loadQueue();
+  let state: SyncState = { status: 'SYNCED', pending: queue.length, lastSyncedAt: null };
+  let running: Promise<PunchEntry[]> | null = null;
+  // Versions handed out by sync(); seeing them come back isn't a local change
+  const received = new Map<string, string>();
+
+  const setState = (changes: Partial<SyncState>) => {
+    state = { ...state, pending: queue.length, ...changes };
+    if (!('error' in changes)) delete state.error;
+    listeners.forEach(listener => listener(state));
+  };
+
+  const enqueue = (punches: PunchEntry[]) => {
+    if (punches.length === 0) return;
+    const ids = new Set(punches.map(p => p.id));
+    queue = [...queue.filter(p => !ids.has(p.id)), ...punches];
+    saveQueue(queue);
+    setState({});
+  };
+
+  const run = async (local: PunchEntry[]): Promise<PunchEntry[]> => {
+    if (!navigator.onLine) {
+      setState({ status: 'OFFLINE' });
+      return [];
+    }
+    setState({ status: 'SYNCING' });
+    try {
+      let cursor = loadCursor(endpoint);
+      // First contact with this server: it gets everything we have
+      if (cursor === null) enqueue(local);
+
+      const incoming: PunchEntry[] = [];
+      while (queue.length > 0) {
+        const batch = queue.slice(0, SYNC_BATCH_SIZE);
+        const response = await fetch(`${endpoint}/punches`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ punches: batch } as PushRequest),
+        });
+        incoming.push(...(await readResponse(response, i18n)).punches);
+        // Punches changed again while the request was out stay queued
+        queue = queue.filter(p => !batch.includes(p));
+        saveQueue(queue);
+      }
+
+      let more = true;
+      while (more) {
+        const response = await fetch(`${endpoint}/punches?since=${cursor ?? 0}`);
+        const page = await readResponse(response, i18n);
+        incoming.push(...page.punches);
+        cursor = page.cursor;
+        saveCursor(endpoint, cursor);
+        more = !!page.more;
+      }
+
+      incoming.forEach(p => received.set(p.id, JSON.stringify(p)));
+      setState({ status: 'SYNCED', lastSyncedAt: Date.now() });
+      return incoming;
+    } catch (e) {
+      console.error("Failed to sync punches", e);
+      // fetch rejects with a TypeError when the server can't be reached at all
+      const unreachable = e instanceof TypeError;
+      setState({
+        status: unreachable ? 'OFFLINE' : 'ERROR',
+        error: unreachable ? i18n.t('sync.error.unreachable') : e instanceof Error ? e.message : String(e),
+      });
+      return [];
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(state);
+      return () => listeners.delete(listener);
+    },
+
+    trackChanges: (previous, next) => {
+      const before = new Map(previous.map(p => [p.id, p]));
+      enqueue(next.filter(punch => {
+        const old = before.get(punch.id);
+        if (old === punch) return false;
+        const json = JSON.stringify(punch);
+        return json !== received.get(punch.id) && (!old || json !== JSON.stringify(old));
+      }));
+    },
+
+    // Overlapping calls share one run
+    sync: (local) => {
+      running ??= run(local).finally(() => {
+        running = null;
+      });
+      return running;
+    },
+  };
+};
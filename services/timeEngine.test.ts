@@ -0,0 +1,23 @@
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { zonedTimeToTimestamp } from "./timeEngine";
+
+describe('zonedTimeToTimestamp', () => {
+  it('converts an ordinary wall-clock time with the offset in force', () => {
+    assert.equal(zonedTimeToTimestamp(2024, 1, 15, 9, 0, 'America/New_York'), Date.parse('2024-01-15T14:00:00Z'));
+    assert.equal(zonedTimeToTimestamp(2024, 7, 15, 9, 0, 'Europe/Berlin'), Date.parse('2024-07-15T07:00:00Z'));
+  });
+
+  it('moves a time skipped by spring forward to just after the gap', () => {
+    // New York jumps from 02:00 EST to 03:00 EDT, so 02:30 becomes 03:30 EDT
+    assert.equal(zonedTimeToTimestamp(2024, 3, 10, 2, 30, 'America/New_York'), Date.parse('2024-03-10T07:30:00Z'));
+    // Berlin jumps from 02:00 CET to 03:00 CEST
+    assert.equal(zonedTimeToTimestamp(2024, 3, 31, 2, 30, 'Europe/Berlin'), Date.parse('2024-03-31T01:30:00Z'));
+  });
+
+  it('uses the offset on either side of a spring-forward gap', () => {
+    assert.equal(zonedTimeToTimestamp(2024, 3, 10, 1, 59, 'America/New_York'), Date.parse('2024-03-10T06:59:00Z'));
+    assert.equal(zonedTimeToTimestamp(2024, 3, 10, 3, 0, 'America/New_York'), Date.parse('2024-03-10T07:00:00Z'));
+  });
+});
@@ -0,0 +1,320 @@
+
+import { ClockFormat, PunchEntry, PunchStatus, PunchType, TimeSettings, WorkDay } from "../types";
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export type IntervalKind = 'WORK' | 'PAID_BREAK' | 'UNPAID_BREAK';
+
+export interface WorkInterval {
+  start: number;
+  end: number;
+  kind: IntervalKind;
+  projectId?: string;
+  task?: string;
+}
+
+// One IN through its OUT (or through `now` while still open)
+export interface WorkSession {
+  inPunchId: string;
+  start: number;
+  end: number;
+  open: boolean;
+  intervals: WorkInterval[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const getSystemTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_TIME_SETTINGS: TimeSettings = {
+  timeZone: getSystemTimeZone(),
+  dayRolloverHour: 0,
+  weekStartsOn: 0,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const getZonedParts = (timestamp: number, timeZone: string): ZonedParts => {
+  const values: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(new Date(timestamp)).forEach(part => {
+    if (part.type !== 'literal') values[part.type] = parseInt(part.value, 10);
+  });
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second,
+  };
+};
+
+// Offset of the zone from UTC at the given instant, in ms (positive east of UTC)
+const getOffset = (timestamp: number, timeZone: string) => {
+  const p = getZonedParts(timestamp, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - (timestamp - (((timestamp % 1000) + 1000) % 1000));
+};
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. The offset is
+ * re-checked so times next to a DST transition resolve to the offset in force
+ * at that moment. Times skipped by a spring-forward gap move forward by the
+ * length of the gap, so 02:30 becomes 03:30 when clocks jump from 02:00 to 03:00.
+ */
+export const zonedTimeToTimestamp = (
+  year: number, month: number, day: number, hour: number, minute: number, timeZone: string
+): number => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - getOffset(wallClock, timeZone);
+  const offset = getOffset(firstGuess, timeZone);
+  const timestamp = wallClock - offset;
+  const check = getOffset(timestamp, timeZone);
+  // Only a skipped time has no offset that maps back to it; the one from before the gap lands after it
+  return check === offset ? timestamp : wallClock - Math.min(offset, check);
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const toDateKey = (year: number, month: number, day: number) =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+export const parseDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return { year, month, day };
+};
+
+// Calendar arithmetic on YYYY-MM-DD keys, independent of any time zone
+export const addDays = (dateKey: string, days: number): string => {
+  const { year, month, day } = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().split('T')[0];
+};
+
+export const daysBetween = (from: string, to: string): number => {
+  const a = parseDateKey(from);
+  const b = parseDateKey(to);
+  return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / DAY_MS);
+};
+
+/**
+ * The work day an instant belongs to. Instants before the rollover hour are
+ * filed under the previous calendar day, so a night shift stays on one day.
+ */
+export const getDayKey = (timestamp: number, settings: TimeSettings): string => {
+  const p = getZonedParts(timestamp, settings.timeZone);
+  const key = toDateKey(p.year, p.month, p.day);
+  return p.hour < settings.dayRolloverHour ? addDays(key, -1) : key;
+};
+
+// Start and end instants of a work day; 23 or 25 hours long across DST changes
+export const getDayBounds = (dateKey: string, settings: TimeSettings): { start: number; end: number } => {
+  const startOf = (key: string) => {
+    const { year, month, day } = parseDateKey(key);
+    return zonedTimeToTimestamp(year, month, day, settings.dayRolloverHour, 0, settings.timeZone);
+  };
+  return { start: startOf(dateKey), end: startOf(addDays(dateKey, 1)) };
+};
+
+// Splits an interval at every work-day boundary it crosses
+export const splitByDay = (interval: WorkInterval, settings: TimeSettings): Array<WorkInterval & { date: string }> => {
+  const segments: Array<WorkInterval & { date: string }> = [];
+  let cursor = interval.start;
+  while (cursor < interval.end) {
+    const date = getDayKey(cursor, settings);
+    const end = Math.min(interval.end, getDayBounds(date, settings).end);
+    segments.push({ ...interval, date, start: cursor, end });
+    cursor = end;
+  }
+  return segments;
+};
+
+// A shift still open from before yesterday has most likely lost its OUT
+const isStaleOpening = (inPunch: PunchEntry, settings: TimeSettings, now: number) =>
+  getDayKey(inPunch.timestamp, settings) < addDays(getDayKey(now, settings), -1);
+
+/**
+ * Turns the punch sequence into sessions of worked and break intervals. A
+ * second IN while a session is open discards the open session, as does a
+ * session that is still open but started before yesterday (see
+ * `findUnclosedShift`); one that is still open from today or yesterday runs
+ * until `now`.
+ */
+export const buildSessions = (punches: PunchEntry[], settings: TimeSettings, now: number = Date.now()): WorkSession[] => {
+  const sorted = [...punches].sort((a, b) => a.timestamp - b.timestamp);
+  const sessions: WorkSession[] = [];
+  let opening: PunchEntry | null = null;
+  let cursor = 0;
+  let kind: IntervalKind = 'WORK';
+  let tag: Pick<WorkInterval, 'projectId' | 'task'> = {};
+  let pending: WorkInterval[] = [];
+
+  const advance = (to: number, next: IntervalKind) => {
+    if (to > cursor) pending.push({ start: cursor, end: to, kind, ...tag });
+    cursor = to;
+    kind = next;
+  };
+  const tagOf = (p: PunchEntry) => ({
+    ...(p.projectId && { projectId: p.projectId }),
+    ...(p.task && { task: p.task }),
+  });
+  const close = (inPunch: PunchEntry, end: number, open: boolean) => {
+    sessions.push({ inPunchId: inPunch.id, start: inPunch.timestamp, end, open, intervals: pending });
+    opening = null;
+    pending = [];
+  };
+
+  sorted.forEach(p => {
+    if (p.type === 'IN') {
+      opening = p;
+      cursor = p.timestamp;
+      kind = 'WORK';
+      tag = tagOf(p);
+      pending = [];
+    } else if (opening === null) {
+      return;
+    } else if (p.type === 'SWITCH') {
+      advance(p.timestamp, kind);
+      tag = tagOf(p);
+    } else if (p.type === 'BREAK_START' && kind === 'WORK') {
+      advance(p.timestamp, p.breakCategory === 'PAID' ? 'PAID_BREAK' : 'UNPAID_BREAK');
+    } else if (p.type === 'BREAK_END' && kind !== 'WORK') {
+      advance(p.timestamp, 'WORK');
+    } else if (p.type === 'OUT') {
+      advance(p.timestamp, 'WORK');
+      close(opening, p.timestamp, false);
+    }
+  });
+
+  const open = opening as PunchEntry | null;
+  if (open && !isStaleOpening(open, settings, now)) {
+    const end = Math.max(cursor, now);
+    advance(end, kind);
+    close(open, end, true);
+  }
+
+  return sessions;
+};
+
+/**
+ * The shift `buildSessions` leaves out because it has been open since before
+ * yesterday, running to the end of the day it started on. Its time is not in
+ * any total until the missing OUT is added.
+ */
+export const findUnclosedShift = (
+  punches: PunchEntry[],
+  settings: TimeSettings,
+  now: number = Date.now()
+): { inPunchId: string; start: number; end: number } | null => {
+  const last = [...punches]
+    .filter(p => p.type === 'IN' || p.type === 'OUT')
+    .reduce<PunchEntry | null>((a, b) => (!a || b.timestamp >= a.timestamp ? b : a), null);
+  if (!last || last.type !== 'IN' || !isStaleOpening(last, settings, now)) return null;
+  const { end } = getDayBounds(getDayKey(last.timestamp, settings), settings);
+  return { inPunchId: last.id, start: last.timestamp, end: Math.min(end, now) };
+};
+
+export const buildIntervals = (punches: PunchEntry[], settings: TimeSettings, now: number = Date.now()): WorkInterval[] =>
+  buildSessions(punches, settings, now).flatMap(session => session.intervals);
+
+// A BREAK_END only means back at work while an IN is still open; after an OUT it's stray
+export const getPunchStatus = (punches: PunchEntry[]): PunchStatus => {
+  const latest = punches.reduce<PunchEntry | null>((a, b) => (!a || b.timestamp > a.timestamp ? b : a), null);
+  if (!latest || latest.type === 'OUT') return 'PUNCHED_OUT';
+  if (latest.type === 'BREAK_START') return 'ON_BREAK';
+  if (latest.type === 'BREAK_END') {
+    const opening = punches
+      .filter(p => p.type === 'IN' || p.type === 'OUT')
+      .reduce<PunchEntry | null>((a, b) => (!a || b.timestamp >= a.timestamp ? b : a), null);
+    if (opening?.type !== 'IN') return 'PUNCHED_OUT';
+  }
+  return 'PUNCHED_IN';
+};
+
+export const ALLOWED_PUNCHES: Record<PunchStatus, PunchType[]> = {
+  PUNCHED_OUT: ['IN'],
+  PUNCHED_IN: ['BREAK_START', 'SWITCH', 'OUT'],
+  ON_BREAK: ['BREAK_END', 'OUT'],
+};
+
+const toHours = (ms: number) => parseFloat((ms / HOUR_MS).toFixed(2));
+
+export const buildWorkDays = (punches: PunchEntry[], settings: TimeSettings, now: number = Date.now()): WorkDay[] => {
+  const days: Record<string, WorkDay> = {};
+  const totals: Record<string, Record<IntervalKind, number>> = {};
+  const ensureDay = (date: string) =>
+    (days[date] ??= { date, punches: [], totalHours: 0, paidBreakHours: 0, unpaidBreakHours: 0, unaccountedHours: 0 });
+
+  [...punches]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(p => ensureDay(getDayKey(p.timestamp, settings)).punches.push(p));
+
+  buildIntervals(punches, settings, now).forEach(interval => {
+    splitByDay(interval, settings).forEach(segment => {
+      ensureDay(segment.date);
+      const dayTotals = (totals[segment.date] ??= { WORK: 0, PAID_BREAK: 0, UNPAID_BREAK: 0 });
+      dayTotals[segment.kind] += segment.end - segment.start;
+    });
+  });
+
+  const unclosed = findUnclosedShift(punches, settings, now);
+  if (unclosed) ensureDay(getDayKey(unclosed.start, settings)).unaccountedHours = toHours(unclosed.end - unclosed.start);
+
+  return Object.values(days)
+    .map(day => {
+      const t = totals[day.date] ?? { WORK: 0, PAID_BREAK: 0, UNPAID_BREAK: 0 };
+      return {
+        ...day,
+        totalHours: toHours(t.WORK + t.PAID_BREAK),
+        paidBreakHours: toHours(t.PAID_BREAK),
+        unpaidBreakHours: toHours(t.UNPAID_BREAK),
+      };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Formats a YYYY-MM-DD key without letting the viewer's zone shift the date
+export const formatDateKey = (dateKey: string, options: Intl.DateTimeFormatOptions, locale = 'en-US') => {
+  const { year, month, day } = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+};
+
+// Without a clock format the locale decides between 12 and 24 hours
+export const formatClockTime = (timestamp: number, timeZone: string, clock?: ClockFormat, locale?: string) =>
+  new Date(timestamp).toLocaleTimeString(locale ?? [], {
+    hour: clock === '12H' ? 'numeric' : '2-digit',
+    minute: '2-digit',
+    timeZone,
+    ...(clock && { hourCycle: clock === '12H' ? 'h12' : 'h23' }),
+  });
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
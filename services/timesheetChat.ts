@@ -0,0 +1,165 @@
+
+import { AiSharingLevel, Language } from "../types";
+import { LANGUAGE_NAMES, Localizer } from "./i18n";
+import { TIMESHEET_TOOLS, TimesheetQueryContext, ToolDeclaration, WEEKDAY_NAMES, runTimesheetQuery } from "./timesheetQueries";
+
+// Shaped like Gemini content parts, so its client can pass them through unchanged
+export interface ChatPart {
+  text?: string;
+  functionCall?: { id?: string; name: string; args: Record<string, unknown> };
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+  thoughtSignature?: string; // Opaque; some models need it sent back with their function calls
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+// What the system instruction is built from; the server builds it, so a client can't replace it
+export interface ChatInstructionOptions {
+  today: string;
+  timeZone: string;
+  weekStartsOn: number;
+  standardDayHours: number;
+  sharingLevel: AiSharingLevel;
+  language: Language;
+}
+
+export interface ChatModelRequest {
+  instruction: ChatInstructionOptions;
+  contents: ChatTurn[];
+  tools: ToolDeclaration[];
+}
+
+/**
+ * What the chat needs from a model: one reply per request, either text or
+ * function calls. Tests can pass a client that replays scripted turns.
+ */
+export interface ChatModelClient {
+  isAvailable: () => boolean;
+  generate: (request: ChatModelRequest) => Promise<ChatTurn>;
+}
+
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  result: Record<string, unknown>;
+  failed: boolean;
+}
+
+export interface ChatAnswer {
+  text: string;
+  toolCalls: ToolCallRecord[];
+  history: ChatTurn[]; // Everything so far, for the next question
+}
+
+// Rounds of tool calls allowed before the model has to answer
+const MAX_TOOL_ROUNDS = 5;
+
+const SHARING_NOTES: Record<AiSharingLevel, string> = {
+  AGGREGATES: `
+  The user shares only hours, not start or end times; if asked about times, say they aren't shared.`,
+  HOURLY: `
+  Start and end times are rounded to the hour, so don't state them more precisely.`,
+  FULL: '',
+};
+
+export const getChatInstructionOptions = (context: TimesheetQueryContext): ChatInstructionOptions => ({
+  today: context.today,
+  timeZone: context.settings.timeZone,
+  weekStartsOn: context.settings.weekStartsOn,
+  standardDayHours: context.rules.standardDayHours,
+  sharingLevel: context.sharingLevel,
+  language: context.language,
+});
+
+export const buildChatInstruction = (options: ChatInstructionOptions) => `
+  You answer questions about one person's timesheet. Today is ${options.today} and times are in
+  ${options.timeZone}. Weeks start on ${WEEKDAY_NAMES[options.weekStartsOn]} and a standard day is ${options.standardDayHours} hours.
+
+  Get every figure from the tools; never estimate or invent numbers. Dates are YYYY-MM-DD, and
+  "March" without a year means the most recent March up to today. If a tool returns an error, fix
+  the arguments or explain what went wrong. If a question isn't about the timesheet, say so.
+  Answer in ${LANGUAGE_NAMES[options.language]}, in one to three short sentences.${SHARING_NOTES[options.sharingLevel]}
+`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isToolName = (value: unknown) => TIMESHEET_TOOLS.some(tool => tool.name === value);
+
+const isOptionalId = (value: unknown) => value === undefined || typeof value === 'string';
+
+// Exactly one of text, a call to one of the app's tools, or a tool's response, as the role allows
+const isValidChatPart = (value: unknown, role: ChatTurn['role']): boolean => {
+  if (!isRecord(value)) return false;
+  const { text, functionCall, functionResponse, thoughtSignature, ...rest } = value as Record<keyof ChatPart, unknown>;
+  if (Object.keys(rest).length > 0) return false;
+  if (thoughtSignature !== undefined && (role !== 'model' || typeof thoughtSignature !== 'string')) return false;
+  if ([text, functionCall, functionResponse].filter(p => p !== undefined).length !== 1) return false;
+  if (text !== undefined) return typeof text === 'string';
+  if (functionCall !== undefined) {
+    return role === 'model' && isRecord(functionCall) && isOptionalId(functionCall.id) &&
+      isToolName(functionCall.name) && isRecord(functionCall.args);
+  }
+  return role === 'user' && isRecord(functionResponse) && isOptionalId(functionResponse.id) &&
+    isToolName(functionResponse.name) && isRecord(functionResponse.response);
+};
+
+/**
+ * A turn the chat itself could have produced: the user's questions and tool
+ * results, and the model's text and calls to TIMESHEET_TOOLS.
+ */
+export const isValidChatTurn = (value: unknown): value is ChatTurn => {
+  if (!isRecord(value) || (value.role !== 'user' && value.role !== 'model')) return false;
+  const role = value.role;
+  return Array.isArray(value.parts) && value.parts.length > 0 && value.parts.every(part => isValidChatPart(part, role));
+};
+
+/**
+ * Asks one question, running the model's function calls against the local
+ * queries until it answers in text. Failed calls go back to the model as an
+ * error so it can correct itself.
+ */
+export const askTimesheetQuestion = async (
+  client: ChatModelClient,
+  history: ChatTurn[],
+  question: string,
+  context: TimesheetQueryContext,
+  i18n: Localizer
+): Promise<ChatAnswer> => {
+  const contents: ChatTurn[] = [...history, { role: 'user', parts: [{ text: question }] }];
+  const toolCalls: ToolCallRecord[] = [];
+  const instruction = getChatInstructionOptions(context);
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const reply = await client.generate({ instruction, contents, tools: TIMESHEET_TOOLS });
+    contents.push(reply);
+
+    const calls = reply.parts.flatMap(part => (part.functionCall ? [part.functionCall] : []));
+    if (calls.length === 0) {
+      const text = reply.parts.map(part => part.text ?? '').join('').trim();
+      if (!text) throw new Error(i18n.t('chat.emptyAnswer'));
+      return { text, toolCalls, history: contents };
+    }
+    if (round === MAX_TOOL_ROUNDS) break;
+
+    contents.push({
+      role: 'user',
+      parts: calls.map(call => {
+        let result: Record<string, unknown>;
+        let failed = false;
+        try {
+          result = runTimesheetQuery(call.name, call.args, context);
+        } catch (e) {
+          result = { error: e instanceof Error ? e.message : String(e) };
+          failed = true;
+        }
+        toolCalls.push({ name: call.name, args: call.args, result, failed });
+        return { functionResponse: { ...(call.id && { id: call.id }), name: call.name, response: result } };
+      }),
+    });
+  }
+  throw new Error(i18n.t('chat.noAnswer'));
+};
@@ -0,0 +1,190 @@
+
+import { Project, PunchEntry, TimeSettings, WorkDay } from "../types";
+import { toCsv } from "./csv";
+import { Localizer } from "./i18n";
+import { buildCalendar } from "./icalendar";
+import { buildSessions, getDayKey, getZonedParts } from "./timeEngine";
+import { isActivePunch } from "./punchAudit";
+import { NO_PROJECT, buildProjectDays } from "./projects";
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export const PUNCH_EXPORT_FORMAT = 'punchpro-punches';
+
+// Hands a file to the browser as a download
+export const downloadFile = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const inRange = (date: string, range: DateRange) => date >= range.start && date <= range.end;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const rangeSuffix = (range: DateRange) => `${range.start}_${range.end}`;
+
+/**
+ * CSV is meant for spreadsheets, so it holds only the punches that count.
+ * JSON is a full backup of the range, including deleted punches and their
+ * revision history, and can be imported back without losing anything.
+ */
+export const exportPunches = (
+  punches: PunchEntry[],
+  settings: TimeSettings,
+  range: DateRange,
+  format: 'csv' | 'json'
+): ExportFile => {
+  const selected = punches
+    .filter(p => inRange(getDayKey(p.timestamp, settings), range))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (format === 'json') {
+    return {
+      fileName: `punchpro-punches-${rangeSuffix(range)}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify({
+        format: PUNCH_EXPORT_FORMAT,
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        timeZone: settings.timeZone,
+        range,
+        punches: selected,
+      }, null, 2),
+    };
+  }
+
+  const rows = selected.filter(isActivePunch).map(p => {
+    const local = getZonedParts(p.timestamp, settings.timeZone);
+    return [
+      p.id,
+      p.type,
+      new Date(p.timestamp).toISOString(),
+      getDayKey(p.timestamp, settings),
+      `${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}`,
+      p.breakCategory ?? '',
+      p.manual ? 'yes' : '',
+      p.autoClosed ? 'yes' : '',
+      p.projectId ?? '',
+      p.task ?? '',
+    ];
+  });
+
+  return {
+    fileName: `punchpro-punches-${rangeSuffix(range)}.csv`,
+    mimeType: 'text/csv',
+    content: toCsv(['id', 'type', 'timestamp', 'work_date', 'local_time', 'break_category', 'manual', 'auto_closed', 'project_id', 'task'], rows),
+  };
+};
+
+export const exportWorkDays = (workDays: WorkDay[], range: DateRange, format: 'csv' | 'json'): ExportFile => {
+  const selected = workDays
+    .filter(d => inRange(d.date, range))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(d => ({
+      date: d.date,
+      totalHours: d.totalHours,
+      paidBreakHours: d.paidBreakHours,
+      unpaidBreakHours: d.unpaidBreakHours,
+      punchCount: d.punches.length,
+    }));
+
+  if (format === 'json') {
+    return {
+      fileName: `punchpro-days-${rangeSuffix(range)}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify({ range, days: selected }, null, 2),
+    };
+  }
+
+  return {
+    fileName: `punchpro-days-${rangeSuffix(range)}.csv`,
+    mimeType: 'text/csv',
+    content: toCsv(
+      ['date', 'total_hours', 'paid_break_hours', 'unpaid_break_hours', 'punch_count'],
+      selected.map(d => [d.date, d.totalHours, d.paidBreakHours, d.unpaidBreakHours, d.punchCount])
+    ),
+  };
+};
+
+// Hours per project and day, for billing clients
+export const exportProjectHours = (
+  punches: PunchEntry[],
+  settings: TimeSettings,
+  projects: Project[],
+  range: DateRange,
+  format: 'csv' | 'json',
+  i18n: Localizer
+): ExportFile => {
+  const rows = buildProjectDays(punches.filter(isActivePunch), settings, range.start, range.end)
+    .flatMap(day => Object.entries(day.hours).map(([projectId, hours]) => {
+      const project = projects.find(p => p.id === projectId);
+      return {
+        date: day.date,
+        projectId: projectId === NO_PROJECT ? null : projectId,
+        project: project?.name ?? (projectId === NO_PROJECT ? '' : i18n.t('export.deletedProject')),
+        client: project?.client ?? '',
+        hours,
+      };
+    }));
+
+  if (format === 'json') {
+    return {
+      fileName: `punchpro-projects-${rangeSuffix(range)}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify({ range, rows }, null, 2),
+    };
+  }
+
+  return {
+    fileName: `punchpro-projects-${rangeSuffix(range)}.csv`,
+    mimeType: 'text/csv',
+    content: toCsv(
+      ['date', 'project_id', 'project', 'client', 'hours'],
+      rows.map(r => [r.date, r.projectId ?? '', r.project, r.client, r.hours])
+    ),
+  };
+};
+
+// One calendar event per completed session; a session still in progress is left out
+export const exportSessionsCalendar = (
+  punches: PunchEntry[],
+  settings: TimeSettings,
+  range: DateRange,
+  i18n: Localizer
+): ExportFile => {
+  const events = buildSessions(punches.filter(isActivePunch), settings)
+    .filter(s => !s.open && inRange(getDayKey(s.start, settings), range))
+    .map(s => {
+      const worked = s.intervals.filter(i => i.kind !== 'UNPAID_BREAK').reduce((acc, i) => acc + i.end - i.start, 0);
+      const hours = i18n.formatHours(worked / (60 * 60 * 1000));
+      const breaks = s.intervals.filter(i => i.kind !== 'WORK').length;
+      return {
+        uid: `${s.inPunchId}@punchpro`,
+        start: s.start,
+        end: s.end,
+        summary: i18n.t('export.session', { hours }),
+        description: breaks > 0
+          ? i18n.t(breaks === 1 ? 'export.session.breaks.one' : 'export.session.breaks.other', { hours, count: breaks })
+          : i18n.t('export.session.worked', { hours }),
+      };
+    });
+
+  return {
+    fileName: `punchpro-sessions-${rangeSuffix(range)}.ics`,
+    mimeType: 'text/calendar',
+    content: buildCalendar(events),
+  };
+};
@@ -0,0 +1,165 @@
+
+import { BreakCategory, PunchEntry, PunchRevision, PunchType } from "../types";
+import { parseCsv } from "./csv";
+import { Localizer } from "./i18n";
+import { isLocationFailure, isValidLocation, PUNCH_TYPES, REVISION_ACTIONS, sortPunches } from "./punchAudit";
+
+export interface ImportIssue {
+  row: number; // 1-based, counting the CSV header or JSON array position
+  message: string;
+}
+
+export interface ImportPreview {
+  fileName: string;
+  punches: PunchEntry[]; // Valid and not yet in the timesheet
+  duplicates: PunchEntry[];
+  errors: ImportIssue[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const parseTimestamp = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || !value.trim()) return NaN;
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed);
+};
+
+const parseRevisions = (value: unknown): PunchRevision[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const revisions = value.filter((r): r is PunchRevision =>
+    !!r && typeof r === 'object' &&
+    typeof r.at === 'number' &&
+    typeof r.reason === 'string' &&
+    REVISION_ACTIONS.includes(r.action));
+  return revisions.length > 0 ? revisions : undefined;
+};
+
+const toPunch = (record: RawRecord, i18n: Localizer, now: number): PunchEntry | string => {
+  const type = String(record.type ?? '').trim().toUpperCase() as PunchType;
+  if (!PUNCH_TYPES.includes(type)) {
+    return i18n.t('import.unknownType', { value: String(record.type ?? '') });
+  }
+
+  const timestamp = parseTimestamp(record.timestamp);
+  if (!Number.isFinite(timestamp)) return i18n.t('import.invalidTimestamp', { value: String(record.timestamp ?? '') });
+  if (timestamp > now) return i18n.t('import.futureTimestamp');
+
+  const rawCategory = record.breakCategory ?? record.break_category;
+  const breakCategory = String(rawCategory ?? '').trim().toUpperCase() as BreakCategory;
+  if (type === 'BREAK_START' && breakCategory && breakCategory !== 'PAID' && breakCategory !== 'UNPAID') {
+    return i18n.t('import.unknownBreak', { value: String(rawCategory) });
+  }
+
+  const id = typeof record.id === 'string' && record.id.trim() ? record.id.trim() : crypto.randomUUID();
+  const revisions = parseRevisions(record.revisions);
+  const autoClosed = record.autoClosed ?? record.auto_closed;
+  const projectId = String(record.projectId ?? record.project_id ?? '').trim();
+  const task = String(record.task ?? '').trim();
+  const location = isValidLocation(record.location) ? record.location : undefined;
+
+  return {
+    id,
+    type,
+    timestamp,
+    ...(type === 'BREAK_START' && { breakCategory: breakCategory || 'UNPAID' }),
+    ...((record.manual === true || record.manual === 'yes') && { manual: true }),
+    ...((type === 'IN' || type === 'SWITCH') && projectId && { projectId }),
+    ...((type === 'IN' || type === 'SWITCH') && task && { task }),
+    ...(type === 'OUT' && (autoClosed === true || autoClosed === 'yes') && { autoClosed: true }),
+    ...(location && { location: { latitude: location.latitude, longitude: location.longitude, accuracy: location.accuracy } }),
+    ...(!location && isLocationFailure(record.locationFailure) && { locationFailure: record.locationFailure }),
+    ...(record.deleted === true && { deleted: true }),
+    ...(revisions && { revisions }),
+  };
+};
+
+const readRecords = (fileName: string, text: string, i18n: Localizer): RawRecord[] => {
+  if (fileName.toLowerCase().endsWith('.json') || text.trimStart().startsWith('[') || text.trimStart().startsWith('{')) {
+    const parsed = JSON.parse(text);
+    // An export, a `{ punches }` object, or a storage recovery backup
+    const list = Array.isArray(parsed) ? parsed : parsed?.punches ?? parsed?.stores?.punches;
+    if (!Array.isArray(list)) {
+      throw new Error(i18n.t('import.jsonShape'));
+    }
+    return list;
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error(i18n.t('import.empty'));
+  const columns = header.map(h => h.trim().toLowerCase());
+  if (!columns.includes('type') || !columns.includes('timestamp')) {
+    throw new Error(i18n.t('import.csvColumns'));
+  }
+  return rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+};
+
+// Same type within the same second counts as the same punch
+const punchKey = (p: PunchEntry) => `${p.type}@${Math.floor(p.timestamp / 1000)}`;
+
+/**
+ * Parses and validates an import file without touching the timesheet.
+ * Punches whose id or type and time already exist are reported as duplicates.
+ */
+export const previewImport = (
+  fileName: string,
+  text: string,
+  existing: PunchEntry[],
+  i18n: Localizer,
+  now: number = Date.now()
+): ImportPreview => {
+  const preview: ImportPreview = { fileName, punches: [], duplicates: [], errors: [] };
+  const ids = new Set(existing.map(p => p.id));
+  const keys = new Set(existing.filter(p => !p.deleted).map(punchKey));
+
+  let records: RawRecord[];
+  try {
+    records = readRecords(fileName, text, i18n);
+  } catch (e) {
+    preview.errors.push({ row: 0, message: e instanceof SyntaxError || !(e instanceof Error) ? i18n.t('import.unreadable') : e.message });
+    return preview;
+  }
+
+  records.forEach((record, index) => {
+    // CSV rows are numbered after the header line
+    const row = index + (fileName.toLowerCase().endsWith('.csv') ? 2 : 1);
+    if (!record || typeof record !== 'object') {
+      preview.errors.push({ row, message: i18n.t('import.notAPunch') });
+      return;
+    }
+
+    const punch = toPunch(record, i18n, now);
+    if (typeof punch === 'string') {
+      preview.errors.push({ row, message: punch });
+    } else if (ids.has(punch.id) || (!punch.deleted && keys.has(punchKey(punch)))) {
+      preview.duplicates.push(punch);
+    } else {
+      preview.punches.push(punch);
+      ids.add(punch.id);
+      if (!punch.deleted) keys.add(punchKey(punch));
+    }
+  });
+
+  return preview;
+};
+
+/**
+ * Imported punches always go to `userId`, since profile ids differ between
+ * browsers. `existing` holds every user's punches; an id already taken by
+ * another user's punch is replaced with a fresh one.
+ */
+export const mergeImport = (
+  existing: PunchEntry[],
+  preview: ImportPreview,
+  userId: string,
+  now: number = Date.now()
+): PunchEntry[] => {
+  const taken = new Set(existing.map(p => p.id));
+  const imported = preview.punches.map(p => ({
+    ...p,
+    id: taken.has(p.id) ? crypto.randomUUID() : p.id,
+    userId,
+    revisions: p.revisions ?? [{ at: now, action: 'CREATED' as const, reason: `Imported from ${preview.fileName}` }],
+  }));
+  return sortPunches([...existing, ...imported]);
+};
@@ -0,0 +1,172 @@
+
+import { AiSharingLevel, Language, PayRules, PunchEntry, TimeSettings, WorkDay } from "../types";
+import { getDailyHours, getDayBoundaries } from "./analytics";
+import { computePayrollSummary } from "./payRules";
+import { getWeekday } from "./schedules";
+import { daysBetween, getZonedParts } from "./timeEngine";
+
+export interface TimesheetQueryContext {
+  workDays: WorkDay[]; // Exact punch times
+  payrollWorkDays: WorkDay[]; // Rounded, as payroll counts them
+  punches: PunchEntry[]; // Active punches of the same person
+  settings: TimeSettings;
+  rules: PayRules;
+  today: string;
+  sharingLevel: AiSharingLevel; // Results go to the model, so times are cut down to match
+  language: Language; // What the model answers in
+}
+
+// A function the model may call, described with JSON Schema
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, { type: 'string' | 'number'; description: string }>;
+    required: string[];
+  };
+}
+
+type QueryResult = Record<string, unknown>;
+
+const MAX_LISTED_DAYS = 93;
+// Longer ranges would make the day-by-day queries walk millions of days
+const MAX_RANGE_DAYS = 3660;
+export const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const dateRange = {
+  start_date: { type: 'string' as const, description: 'First day, inclusive, as YYYY-MM-DD' },
+  end_date: { type: 'string' as const, description: `Last day, inclusive, as YYYY-MM-DD; at most ${MAX_RANGE_DAYS} days after start_date` },
+};
+
+export const TIMESHEET_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'get_hours_summary',
+    description: 'Total worked hours, days worked, average hours per day worked, break hours and the longest day in a date range.',
+    parameters: { type: 'object', properties: dateRange, required: ['start_date', 'end_date'] },
+  },
+  {
+    name: 'get_overtime',
+    description: 'Regular, overtime and double-time hours in a date range under the configured pay rules, with the days that had overtime.',
+    parameters: { type: 'object', properties: dateRange, required: ['start_date', 'end_date'] },
+  },
+  {
+    name: 'get_weekday_patterns',
+    description: 'Per weekday: days worked, average hours, and the average, earliest and latest start and end times in a date range.',
+    parameters: { type: 'object', properties: dateRange, required: ['start_date', 'end_date'] },
+  },
+  {
+    name: 'get_daily_hours',
+    description: `Worked hours of every day in a date range of at most ${MAX_LISTED_DAYS} days, days without work included.`,
+    parameters: { type: 'object', properties: dateRange, required: ['start_date', 'end_date'] },
+  },
+];
+
+const readRange = (args: Record<string, unknown>) => {
+  const { start_date: start, end_date: end } = args;
+  const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  if (!isDate(start) || !isDate(end)) throw new Error("start_date and end_date must be YYYY-MM-DD");
+  if (start > end) throw new Error("start_date is after end_date");
+  if (daysBetween(start, end) >= MAX_RANGE_DAYS) throw new Error(`Ask for at most ${MAX_RANGE_DAYS} days at a time`);
+  return { start, end };
+};
+
+const formatMinutesOfDay = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  return `${Math.floor(rounded / 60).toString().padStart(2, '0')}:${(rounded % 60).toString().padStart(2, '0')}`;
+};
+
+const getHoursSummary = (context: TimesheetQueryContext, start: string, end: string): QueryResult => {
+  const days = context.workDays.filter(d => d.date >= start && d.date <= end && d.totalHours > 0);
+  const total = days.reduce((acc, d) => acc + d.totalHours, 0);
+  const longest = days.reduce<WorkDay | null>((a, b) => (!a || b.totalHours > a.totalHours ? b : a), null);
+  return {
+    start,
+    end,
+    totalHours: round2(total),
+    daysWorked: days.length,
+    averageHoursPerDayWorked: days.length > 0 ? round2(total / days.length) : 0,
+    paidBreakHours: round2(days.reduce((acc, d) => acc + d.paidBreakHours, 0)),
+    unpaidBreakHours: round2(days.reduce((acc, d) => acc + d.unpaidBreakHours, 0)),
+    longestDay: longest ? { date: longest.date, hours: longest.totalHours } : null,
+  };
+};
+
+const getOvertime = (context: TimesheetQueryContext, start: string, end: string): QueryResult => {
+  const summary = computePayrollSummary(context.payrollWorkDays, context.rules, { start, end });
+  return {
+    start,
+    end,
+    regularHours: summary.regularHours,
+    overtimeHours: summary.overtimeHours,
+    doubleTimeHours: summary.doubleTimeHours,
+    overtimeDays: summary.days
+      .filter(d => d.overtimeHours > 0 || d.doubleTimeHours > 0)
+      .map(d => ({ date: d.date, overtimeHours: d.overtimeHours, doubleTimeHours: d.doubleTimeHours })),
+  };
+};
+
+const getWeekdayPatterns = (context: TimesheetQueryContext, start: string, end: string): QueryResult => {
+  const hours = new Map(context.workDays.map(d => [d.date, d.totalHours]));
+  const minutesOf = (timestamp: number) => {
+    const { hour, minute } = getZonedParts(timestamp, context.settings.timeZone);
+    return hour * 60 + minute;
+  };
+  const byWeekday = WEEKDAY_NAMES.map(() => ({ hours: [] as number[], starts: [] as number[], ends: [] as number[] }));
+  getDayBoundaries(context.punches, context.settings, start, end).forEach((day, date) => {
+    const bucket = byWeekday[getWeekday(date)];
+    bucket.hours.push(hours.get(date) ?? 0);
+    bucket.starts.push(minutesOf(day.start));
+    if (!day.open) bucket.ends.push(minutesOf(day.end));
+  });
+
+  const average = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+  const format = context.sharingLevel === 'HOURLY'
+    ? (minutes: number) => formatMinutesOfDay(Math.round(minutes / 60) * 60)
+    : formatMinutesOfDay;
+  const times = (values: number[]) => values.length === 0 ? null : {
+    average: format(average(values)),
+    earliest: format(Math.min(...values)),
+    latest: format(Math.max(...values)),
+  };
+  return {
+    start,
+    end,
+    timeZone: context.settings.timeZone,
+    weekdays: byWeekday
+      .map((bucket, i) => ({
+        weekday: WEEKDAY_NAMES[i],
+        daysWorked: bucket.starts.length,
+        averageHours: bucket.hours.length > 0 ? round2(average(bucket.hours)) : 0,
+        ...(context.sharingLevel !== 'AGGREGATES' && { start: times(bucket.starts), end: times(bucket.ends) }),
+      }))
+      .filter(w => w.daysWorked > 0),
+  };
+};
+
+const getDailyHoursList = (context: TimesheetQueryContext, start: string, end: string): QueryResult => {
+  if (daysBetween(start, end) >= MAX_LISTED_DAYS) {
+    throw new Error(`Ask for at most ${MAX_LISTED_DAYS} days at a time`);
+  }
+  return { start, end, days: getDailyHours(context.workDays, start, end) };
+};
+
+const QUERIES: Record<string, (context: TimesheetQueryContext, start: string, end: string) => QueryResult> = {
+  get_hours_summary: getHoursSummary,
+  get_overtime: getOvertime,
+  get_weekday_patterns: getWeekdayPatterns,
+  get_daily_hours: getDailyHoursList,
+};
+
+/**
+ * Runs one of TIMESHEET_TOOLS. Bad arguments and unknown tools throw, so the
+ * caller can hand the message back to the model.
+ */
+export const runTimesheetQuery = (name: string, args: Record<string, unknown>, context: TimesheetQueryContext): QueryResult => {
+  if (!Object.hasOwn(QUERIES, name)) throw new Error(`Unknown tool ${name}`);
+  const query = QUERIES[name];
+  const { start, end } = readRange(args);
+  return query(context, start, end);
+};
@@ -0,0 +1,129 @@
+
+import { PayRules, PunchEntry, Timesheet, TimesheetStatus, TimeSettings, WorkDay } from "../types";
+import { Localizer } from "./i18n";
+import { getWorkweekStart } from "./payRules";
+import { validatePunches } from "./punchValidation";
+import { addDays, buildSessions, getDayKey } from "./timeEngine";
+
+export type TimesheetAction = 'SUBMIT' | 'APPROVE' | 'REJECT';
+
+const NEXT_STATUS: Record<TimesheetAction, TimesheetStatus> = {
+  SUBMIT: 'SUBMITTED',
+  APPROVE: 'APPROVED',
+  REJECT: 'REJECTED',
+};
+
+// Statuses each action may start from
+const ALLOWED_FROM: Record<TimesheetAction, TimesheetStatus[]> = {
+  SUBMIT: ['DRAFT', 'REJECTED'],
+  APPROVE: ['SUBMITTED'],
+  REJECT: ['SUBMITTED'],
+};
+
+export const getTimesheetId = (userId: string, weekStart: string) => `${userId}:${weekStart}`;
+
+export const getTimesheetStatus = (timesheet: Timesheet | undefined): TimesheetStatus => timesheet?.status ?? 'DRAFT';
+
+// Submitted weeks wait for a decision and approved ones are final
+export const isLockedStatus = (status: TimesheetStatus) => status === 'SUBMITTED' || status === 'APPROVED';
+
+export const findTimesheet = (timesheets: Timesheet[], userId: string, weekStart: string) =>
+  timesheets.find(t => t.id === getTimesheetId(userId, weekStart));
+
+export const findLockingTimesheet = (
+  timesheets: Timesheet[],
+  userId: string | undefined,
+  timestamp: number,
+  settings: TimeSettings,
+  rules: PayRules
+): Timesheet | undefined => {
+  if (!userId) return undefined;
+  const sheet = findTimesheet(timesheets, userId, getWorkweekStart(getDayKey(timestamp, settings), rules));
+  return sheet && isLockedStatus(sheet.status) ? sheet : undefined;
+};
+
+export const describeLock = (timesheet: Timesheet, i18n: Localizer) =>
+  i18n.t(timesheet.status === 'APPROVED' ? 'timesheet.lock.APPROVED' : 'timesheet.lock.SUBMITTED');
+
+// Punch edits call this with the old and new times; either one inside a locked week is refused
+export const assertUnlocked = (
+  timesheets: Timesheet[],
+  userId: string | undefined,
+  timestamps: number[],
+  settings: TimeSettings,
+  rules: PayRules
+) => {
+  const locked = timestamps
+    .map(timestamp => findLockingTimesheet(timesheets, userId, timestamp, settings, rules))
+    .find(Boolean);
+  if (locked) {
+    throw new Error(`The timesheet for the week of ${locked.weekStart} is ${locked.status.toLowerCase()}`);
+  }
+};
+
+/**
+ * Why a week can't be submitted yet, or null if it can. Only finished weeks
+ * go in, and only once every punch error in them has been fixed.
+ */
+export const getSubmitBlocker = (
+  punches: PunchEntry[],
+  weekStart: string,
+  settings: TimeSettings,
+  standardDayHours: number,
+  i18n: Localizer,
+  now: number = Date.now()
+): string | null => {
+  const weekEnd = addDays(weekStart, 6);
+  if (weekEnd >= getDayKey(now, settings)) return i18n.t('timesheet.blocker.running');
+  const inWeek = (date: string) => date >= weekStart && date <= weekEnd;
+  const errors = validatePunches(punches, settings, standardDayHours, i18n, now)
+    .filter(issue => issue.severity === 'error' && inWeek(issue.date));
+  if (errors.length > 0) {
+    return i18n.t(errors.length === 1 ? 'timesheet.blocker.issues.one' : 'timesheet.blocker.issues.other', { count: errors.length });
+  }
+  if (buildSessions(punches, settings, now).some(s => s.open && inWeek(getDayKey(s.start, settings)))) {
+    return i18n.t('timesheet.blocker.open');
+  }
+  return null;
+};
+
+/**
+ * Moves a week to the status the action leads to and records who did it.
+ * Submitting snapshots the week's work days; rejecting needs a comment.
+ */
+export const applyTimesheetAction = (
+  timesheets: Timesheet[],
+  userId: string,
+  weekStart: string,
+  action: TimesheetAction,
+  by: string,
+  comment: string,
+  workDays: WorkDay[],
+  now: number = Date.now()
+): Timesheet[] => {
+  const existing = findTimesheet(timesheets, userId, weekStart);
+  const from = getTimesheetStatus(existing);
+  if (!ALLOWED_FROM[action].includes(from)) {
+    throw new Error(`A ${from.toLowerCase()} timesheet can't be ${action === 'SUBMIT' ? 'submitted' : action === 'APPROVE' ? 'approved' : 'rejected'}`);
+  }
+  if (action === 'REJECT' && !comment.trim()) {
+    throw new Error("A comment is required when rejecting a timesheet");
+  }
+
+  const status = NEXT_STATUS[action];
+  const event = { at: now, status, by, ...(comment.trim() && { comment: comment.trim() }) };
+  const weekEnd = addDays(weekStart, 6);
+  const days = action === 'SUBMIT'
+    ? workDays.filter(d => d.date >= weekStart && d.date <= weekEnd)
+    : existing?.days ?? [];
+  const updated: Timesheet = {
+    id: getTimesheetId(userId, weekStart),
+    userId,
+    weekStart,
+    status,
+    days,
+    totalHours: parseFloat(days.reduce((acc, d) => acc + d.totalHours, 0).toFixed(2)),
+    history: [...(existing?.history ?? []), event],
+  };
+  return existing ? timesheets.map(t => (t.id === updated.id ? updated : t)) : [...timesheets, updated];
+};
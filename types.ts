@@ -1,27 +1,277 @@
 
+// SWITCH moves an open session to another project without punching out
+export type PunchType = 'IN' | 'OUT' | 'BREAK_START' | 'BREAK_END' | 'SWITCH';
+
+export type BreakCategory = 'PAID' | 'UNPAID';
+
+export type PunchStatus = 'PUNCHED_IN' | 'PUNCHED_OUT' | 'ON_BREAK';
+
+export type PunchRevisionAction = 'CREATED' | 'EDITED' | 'DELETED' | 'RESTORED';
+
+export interface PunchRevision {
+  at: number;
+  action: PunchRevisionAction;
+  reason: string;
+  // Values of the punch before this revision was applied
+  previous?: {
+    type: PunchType;
+    timestamp: number;
+    breakCategory?: BreakCategory;
+    projectId?: string;
+    task?: string;
+  };
+}
+
+export interface PunchLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // Meters, as reported by the device
+}
+
+// Why a punch has no location although location stamps were on
+export type LocationFailure = 'DENIED' | 'UNAVAILABLE' | 'TIMEOUT';
+
 export interface PunchEntry {
   id: string;
-  type: 'IN' | 'OUT';
+  userId?: string; // Owning UserProfile; assigned to every punch since schema v2
+  type: PunchType;
   timestamp: number;
+  breakCategory?: BreakCategory; // Only set on BREAK_START punches
+  projectId?: string; // On IN and SWITCH punches: the project worked on from here
+  task?: string; // Optional task or note for that stretch of work
+  manual?: boolean; // Added after the fact rather than punched live
+  autoClosed?: boolean; // OUT added by the auto-close policy, not by the employee
+  location?: PunchLocation; // Where the punch was made, when location stamps are on
+  locationFailure?: LocationFailure;
+  deleted?: boolean;
+  revisions?: PunchRevision[];
 }
 
 export interface WorkDay {
   date: string; // YYYY-MM-DD
   punches: PunchEntry[];
-  totalHours: number;
+  totalHours: number; // Worked time including paid breaks
+  paidBreakHours: number;
+  unpaidBreakHours: number;
+  unaccountedHours: number; // A shift left open since before yesterday, to the end of this day; not in totalHours
+}
+
+export interface TimeSettings {
+  timeZone: string; // IANA zone, e.g. "Europe/Berlin"
+  dayRolloverHour: number; // 0-23, punches before this hour count toward the previous day
+  weekStartsOn: number; // 0 = Monday ... 6 = Sunday; where weekly stats and charts begin a week
+}
+
+export type Language = 'en' | 'de';
+
+export type ClockFormat = '12H' | '24H';
+
+export type DurationFormat = 'DECIMAL' | 'HOURS_MINUTES'; // 7.83h or 7:50
+
+export interface DisplaySettings {
+  language: Language;
+  clock: ClockFormat;
+  durationFormat: DurationFormat;
+}
+
+export type RoundingIncrement = 0 | 5 | 6 | 15; // Minutes, 0 = exact punch times
+
+export type PayPeriodType = 'WEEKLY' | 'BIWEEKLY' | 'SEMIMONTHLY' | 'MONTHLY';
+
+export interface PayRules {
+  standardDayHours: number; // A day at or above this counts as complete
+  dailyOvertimeHours: number | null; // null disables the daily threshold
+  dailyDoubleTimeHours: number | null;
+  weeklyOvertimeHours: number | null;
+  overtimeMultiplier: number;
+  doubleTimeMultiplier: number;
+  roundingIncrement: RoundingIncrement;
+  roundingGraceMinutes: number;
+  hourlyRate: number;
+  currency: string; // ISO 4217 code
+  payPeriod: PayPeriodType;
+  payPeriodAnchor: string; // YYYY-MM-DD, first day of any weekly or biweekly period
+}
+
+export interface KioskSettings {
+  exitCodeHash: string | null; // Kiosk mode can't be entered until an exit code is set
+  maxAttempts: number; // Wrong PINs or exit codes before the keypad locks
+  lockoutSeconds: number;
+  resetSeconds: number; // How long the confirmation stays up
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  client: string;
+  color: string; // Hex color used in charts
+  archived?: boolean; // Hidden from the punch controls but kept for reports
+}
+
+export interface ReminderSettings {
+  shiftLengthHours: number | null; // Remind once a shift has run this long
+  endOfDayTime: string | null; // HH:MM; remind anyone still punched in
+  autoCloseTime: string | null; // HH:MM; open sessions get an OUT at the first one after their IN
+}
+
+export type LeaveType = 'VACATION' | 'SICK' | 'PERSONAL' | 'UNPAID';
+
+export interface LeavePolicy {
+  accrualHours: number | null; // Earned per completed pay period; null = no balance is kept
+  maxBalance: number | null; // Accrual stops at this many hours; null = no cap
+}
+
+export interface Holiday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+// How much of the punch data leaves the device for AI features
+export type AiSharingLevel = 'AGGREGATES' | 'HOURLY' | 'FULL';
+
+export interface AiSettings {
+  enabled: boolean; // Off = the Insights tab uses only local analysis
+  sharingLevel: AiSharingLevel;
+  consentedAt: number | null; // Nothing is sent to an AI provider until this is set
+}
+
+export interface WorkSite {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number; // Punches within this distance of the center count as on site
+  requiresLocation?: boolean; // Every punch is located and checked against this site
+}
+
+export interface LocationSettings {
+  stampPunches: boolean; // Ask the device for its position on every punch, for everyone
+  sites: WorkSite[];
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  endpoint: string; // Base URL of the sync API, e.g. "/api/sync"
+}
+
+export interface AppSettings {
+  time: TimeSettings;
+  payRules: PayRules;
+  kiosk: KioskSettings;
+  reminders: ReminderSettings;
+  projects: Project[];
+  leave: Record<LeaveType, LeavePolicy>;
+  holidays: Holiday[];
+  ai: AiSettings;
+  sync: SyncSettings;
+  location: LocationSettings;
+  display: DisplaySettings;
+}
+
+// A shift ending at or before its start time runs past midnight
+export interface ShiftBlock {
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export interface WorkSchedule {
+  // One or more weeks repeated in turn; each week lists the shifts for Monday through Sunday
+  weeks: ShiftBlock[][][];
+  startsOn: string; // YYYY-MM-DD, a Monday; week 0 of the rotation begins here
+  graceMinutes: number; // Arriving or leaving within this margin doesn't count
 }
 
+export type UserRole = 'EMPLOYEE' | 'MANAGER';
+
 export interface UserProfile {
+  id: string;
+  role: UserRole;
   name: string;
   email: string;
   joinedAt: number;
+  pinHash?: string; // For kiosk clock-in, salted with the profile id
+  badgeToken?: string; // Encoded in the profile's kiosk QR badge
+  schedule?: WorkSchedule;
+  requiresLocation?: boolean; // This person's punches are located and checked against every site
 }
 
+export type LeaveStatus = 'PENDING' | 'APPROVED' | 'DENIED' | 'CANCELLED';
+
+export interface LeaveRequest {
+  id: string;
+  userId: string;
+  type: LeaveType;
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  hoursPerDay: number | null; // null = the whole expected day
+  note: string;
+  status: LeaveStatus;
+  requestedAt: number;
+  decidedAt?: number;
+  decidedBy?: string; // Profile id of the manager
+}
+
+export type TimesheetStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+export interface TimesheetEvent {
+  at: number;
+  status: TimesheetStatus; // The status the sheet moved to
+  by: string; // Profile id
+  comment?: string; // Required when rejecting
+}
+
+// One person's workweek; weeks without a record are drafts
+export interface Timesheet {
+  id: string; // `${userId}:${weekStart}`
+  userId: string;
+  weekStart: string; // YYYY-MM-DD, first day of the workweek
+  status: TimesheetStatus;
+  days: WorkDay[]; // Snapshot taken at the last submission
+  totalHours: number;
+  history: TimesheetEvent[];
+}
+
+export interface TeamMemberSummary {
+  profile: UserProfile;
+  status: PunchStatus;
+  lastPunch: PunchEntry | null;
+  hoursThisWeek: number;
+  missingPunchCount: number; // Issues that need a punch added or removed before the hours add up
+  issueCount: number; // Every punch issue, missing punches included
+  unaccountedHours: number; // Time in a shift left open from a past day, left out of the totals
+  submittedTimesheets: number; // Weeks waiting for a manager
+}
+
+// For the dashboard's selected range, and the same stretch of the period before it
 export interface DashboardStats {
-  totalHoursThisWeek: number;
+  totalHours: number;
   averageDailyHours: number;
+  previousTotalHours: number;
+  previousAverageDailyHours: number;
   lastPunch: PunchEntry | null;
-  status: 'PUNCHED_IN' | 'PUNCHED_OUT';
+  status: PunchStatus;
+}
+
+export interface PayrollDay {
+  date: string;
+  workedHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+export interface PayrollSummary {
+  periodStart: string; // YYYY-MM-DD, inclusive
+  periodEnd: string; // YYYY-MM-DD, inclusive
+  days: PayrollDay[];
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+  regularPay: number;
+  overtimePay: number;
+  doubleTimePay: number;
+  grossPay: number;
 }
 
 export interface AIInsight {
@@ -29,3 +279,19 @@ export interface AIInsight {
   recommendations: string[];
   productivityScore: number;
 }
+
+export type InsightSource = 'GEMINI' | 'LOCAL';
+
+// A generated insight with what it was generated from
+export interface InsightReport {
+  id: string;
+  userId: string;
+  createdAt: number;
+  start: string; // YYYY-MM-DD, first work day analyzed
+  end: string; // YYYY-MM-DD, last work day analyzed
+  source: InsightSource;
+  fallbackReason?: string; // Why an earlier provider wasn't used
+  fingerprint: string; // SHA-256 of the input, to spot unchanged data
+  workDays: WorkDay[];
+  insight: AIInsight;
+}
@@ -4,11 +4,12 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig({
   plugins: [react()],
-  define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
-  },
   server: {
     port: 3000,
+    // The Gemini key stays with `npm run server`; the browser only sees /api
+    proxy: {
+      '/api': 'http://localhost:3001',
+    },
   },
   build: {
     outDir: 'dist',